@@ -0,0 +1,17 @@
+/**
+ * Databases API Route
+ *
+ * GET /api/auth/databases - List the Odoo databases users may sign in to
+ *
+ * @module app/api/auth/databases/route
+ */
+
+import { NextResponse } from 'next/server';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+
+// Asks Odoo on every request rather than once at build time
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json({ databases: await odooSessions.listDatabases() });
+}
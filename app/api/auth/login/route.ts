@@ -0,0 +1,63 @@
+/**
+ * Login API Route
+ *
+ * POST /api/auth/login - Sign in to an Odoo database with the user's
+ *                        credentials and issue a portal token
+ *
+ * @module app/api/auth/login/route
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { jsonError } from '@/lib/api/routeHandler';
+import { sealOdooCredentials, signPortalToken } from '@/lib/auth/portalToken';
+import { AUTH_CONFIG, ODOO_CONFIG } from '@/lib/config';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { AuthResponse, LoginCredentials } from '@/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const credentials: LoginCredentials = await request.json();
+    if (!credentials.username || !credentials.password) {
+      return jsonError(400, 'Username and password are required');
+    }
+
+    const database = credentials.database || ODOO_CONFIG.database;
+    if (!(await odooSessions.listDatabases()).includes(database)) {
+      return jsonError(400, `Unknown database: ${database}`);
+    }
+
+    const odooCredentials = { login: credentials.username, password: credentials.password };
+    const client = odooSessions.createClient(database, odooCredentials);
+    const sessionInfo = await client.authenticate(odooCredentials.login, odooCredentials.password);
+    if (!sessionInfo) {
+      return jsonError(401, 'Invalid username or password');
+    }
+
+    const sealedCredentials = sealOdooCredentials(odooCredentials);
+    const repository = odooSessions.add(sealedCredentials, client);
+    const user = await repository.fetchPortalUser(sessionInfo.uid);
+    if (!user) {
+      return jsonError(401, 'Invalid username or password');
+    }
+    user.odooPartnerId = sessionInfo.partner_id;
+
+    const token = signPortalToken({
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      odooUid: sessionInfo.uid,
+      odooDb: database,
+      odooCredentials: sealedCredentials,
+    });
+    const response: AuthResponse = {
+      token,
+      user,
+      database,
+      expiresAt: Date.now() + AUTH_CONFIG.sessionTimeout,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Login error:', error);
+    return jsonError(502, 'Unable to reach Odoo');
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Logout API Route
+ *
+ * POST /api/auth/logout - Sign out of the user's Odoo web session
+ *
+ * @module app/api/auth/logout/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+
+export const POST = withPortalAuth(async (_request, _context, session) => {
+  await odooSessions.end(session);
+  return NextResponse.json({ success: true });
+});
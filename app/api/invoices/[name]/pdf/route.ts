@@ -0,0 +1,31 @@
+/**
+ * Invoice PDF API Route
+ *
+ * GET /api/invoices/:name/pdf - Download the rendered Odoo invoice report
+ * for a customer invoice (account.move), identified by its number.
+ *
+ * @module app/api/invoices/[name]/pdf/route
+ */
+
+import { withPortalAuth, jsonError } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+
+export const GET = withPortalAuth(async (_request, { params }, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  // Invoice numbers contain slashes, so callers send them URL-encoded
+  const invoiceName = decodeURIComponent(params.name);
+
+  const result = await repository.fetchInvoicePdf(invoiceName);
+  if (!result) {
+    return jsonError(404, 'Invoice not found');
+  }
+
+  const fileName = invoiceName.replace(/[^\w.-]+/g, '_');
+  return new Response(result.pdf, {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename="${fileName}.pdf"`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * MRA Fiscalisation API Route
+ *
+ * POST /api/mra/fiscalise - Submit an order's invoice to the MRA and return
+ * its fiscalisation result. Only the order ID is taken from the request: the
+ * order is reloaded from Odoo so the submitted amounts are authoritative, and
+ * the result is stored on the Odoo invoice.
+ *
+ * Mock mode never reaches this route; fiscalisation is simulated in the
+ * browser instead (see MRA_CONFIG.mockFiscalisation).
+ *
+ * @module app/api/mra/fiscalise/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, jsonError } from '@/lib/api/routeHandler';
+import { MRA_CONFIG } from '@/lib/config';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { toRecordId } from '@/lib/odoo/mappers';
+import { fiscaliseOdooOrder } from '@/lib/mra/fiscalisation';
+
+export const POST = withPortalAuth(async (request, _context, session) => {
+  if (!MRA_CONFIG.enabled) {
+    return jsonError(503, 'MRA e-invoicing is disabled');
+  }
+
+  const { orderId }: { orderId?: string } = await request.json();
+  const recordId = toRecordId(orderId);
+  if (!recordId) {
+    return jsonError(400, 'Invalid order ID');
+  }
+
+  const repository = odooSessions.repositoryFor(session);
+  const storedOrder = await repository.fetchOrderById(recordId);
+  if (!storedOrder?.invoice) {
+    return jsonError(404, 'Invoiced order not found');
+  }
+  if (storedOrder.invoice.fiscalisation?.status === 'accepted') {
+    return NextResponse.json(storedOrder.invoice.fiscalisation);
+  }
+
+  return NextResponse.json(await fiscaliseOdooOrder(storedOrder, repository));
+});
@@ -0,0 +1,22 @@
+/**
+ * Odoo Bus API Route
+ *
+ * GET /api/odoo/bus?last=<id> - Long-poll the portal's Odoo bus channel.
+ *                               Answers with the orders, customers and stock
+ *                               levels changed since notification `last`, or
+ *                               with no events after BUS_CONFIG.pollTimeoutMs
+ *
+ * @module app/api/odoo/bus/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, parsePositiveInt } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+
+export const GET = withPortalAuth(async (request, _context, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const last = parsePositiveInt(request.nextUrl.searchParams.get('last'), 0);
+
+  const batch = await repository.pollEvents(last);
+  return NextResponse.json(batch);
+});
@@ -0,0 +1,23 @@
+/**
+ * Companies API Route
+ *
+ * GET /api/odoo/companies - List the companies the user may work for,
+ *                           their default company first
+ *
+ * @module app/api/odoo/companies/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+
+export const GET = withPortalAuth(async (_request, _context, session) => {
+  if (!session.odooUid) {
+    return NextResponse.json([]);
+  }
+
+  // Not scoped to the active company, which may be one being switched away from
+  const repository = odooSessions.repositoryFor({ ...session, companyId: undefined });
+  const companies = await repository.fetchCompanies(session.odooUid);
+  return NextResponse.json(companies);
+});
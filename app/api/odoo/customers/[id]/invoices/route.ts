@@ -0,0 +1,22 @@
+/**
+ * Customer Open Invoices API Route
+ *
+ * GET /api/odoo/customers/:id/invoices - Fetch the customer's invoices that
+ *                                        are not fully paid, oldest due first
+ *
+ * @module app/api/odoo/customers/[id]/invoices/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, jsonError } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { toRecordId } from '@/lib/odoo/mappers';
+
+export const GET = withPortalAuth(async (request, { params }, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const partnerId = toRecordId(params.id);
+  if (!partnerId) return jsonError(400, 'Invalid customer ID');
+
+  const invoices = await repository.fetchOpenInvoices(partnerId);
+  return NextResponse.json(invoices);
+});
@@ -0,0 +1,35 @@
+/**
+ * Customer API Route
+ *
+ * GET   /api/odoo/customers/:id - Fetch a customer
+ * PATCH /api/odoo/customers/:id - Update a customer
+ *
+ * @module app/api/odoo/customers/[id]/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, jsonError } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { toRecordId } from '@/lib/odoo/mappers';
+import { Customer } from '@/types';
+
+export const GET = withPortalAuth(async (request, { params }, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const partnerId = toRecordId(params.id);
+  if (!partnerId) return jsonError(400, 'Invalid customer ID');
+
+  const customer = await repository.fetchCustomerById(partnerId);
+  if (!customer) return jsonError(404, 'Customer not found');
+
+  return NextResponse.json(customer);
+});
+
+export const PATCH = withPortalAuth(async (request, { params }, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const partnerId = toRecordId(params.id);
+  if (!partnerId) return jsonError(400, 'Invalid customer ID');
+
+  const updates: Partial<Customer> = await request.json();
+  const customer = await repository.updateCustomer(partnerId, updates);
+  return NextResponse.json(customer);
+});
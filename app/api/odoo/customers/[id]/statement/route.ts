@@ -0,0 +1,35 @@
+/**
+ * Customer Statement API Route
+ *
+ * GET /api/odoo/customers/:id/statement - Statement of account (invoices,
+ *                                         credit notes, payments, aging)
+ *                                         for ?from=YYYY-MM-DD&to=YYYY-MM-DD,
+ *                                         the last three months by default
+ *
+ * @module app/api/odoo/customers/[id]/statement/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, jsonError } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { toRecordId } from '@/lib/odoo/mappers';
+import { defaultStatementPeriod, isStatementDate } from '@/lib/customers/statement';
+
+export const GET = withPortalAuth(async (request, { params }, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const partnerId = toRecordId(params.id);
+  if (!partnerId) return jsonError(400, 'Invalid customer ID');
+
+  const { searchParams } = request.nextUrl;
+  const period = defaultStatementPeriod();
+  const dateFrom = searchParams.get('from') ?? period.dateFrom;
+  const dateTo = searchParams.get('to') ?? period.dateTo;
+  if (!isStatementDate(dateFrom) || !isStatementDate(dateTo) || dateFrom > dateTo) {
+    return jsonError(400, 'from and to must be dates (YYYY-MM-DD), from not after to');
+  }
+
+  const statement = await repository.fetchStatement(partnerId, dateFrom, dateTo);
+  if (!statement) return jsonError(404, 'Customer not found');
+
+  return NextResponse.json(statement);
+});
@@ -0,0 +1,45 @@
+/**
+ * Customers API Route
+ *
+ * GET  /api/odoo/customers - List customers (filters, page, pageSize)
+ * POST /api/odoo/customers - Create a customer
+ *
+ * @module app/api/odoo/customers/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, parsePositiveInt, jsonError } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { buildCustomerDomain } from '@/lib/odoo/domain';
+import { safeJsonParse } from '@/lib/utils';
+import { Customer, CustomerFilters } from '@/types';
+
+export const GET = withPortalAuth(async (request, _context, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const { searchParams } = request.nextUrl;
+  const filters = safeJsonParse<CustomerFilters>(searchParams.get('filters') || '{}', {});
+  const page = parsePositiveInt(searchParams.get('page'), 1);
+  const pageSize = parsePositiveInt(searchParams.get('pageSize'), 10);
+
+  const salesPartnerIds = filters.minOrders || filters.minSpent
+    ? await repository.findPartnerIdsBySales(filters.minOrders, filters.minSpent)
+    : undefined;
+
+  const customers = await repository.fetchCustomers(
+    buildCustomerDomain(filters, salesPartnerIds),
+    page,
+    pageSize
+  );
+  return NextResponse.json(customers);
+});
+
+export const POST = withPortalAuth(async (request, _context, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const customerData: Partial<Customer> = await request.json();
+  if (!customerData.name) {
+    return jsonError(400, 'Customer name is required');
+  }
+
+  const customer = await repository.createCustomer(customerData);
+  return NextResponse.json(customer, { status: 201 });
+});
@@ -0,0 +1,26 @@
+/**
+ * Order Cancellation API Route
+ *
+ * POST /api/odoo/orders/:id/cancel - Cancel a sale order
+ *
+ * @module app/api/odoo/orders/[id]/cancel/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, jsonError } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { toRecordId } from '@/lib/odoo/mappers';
+import { assertTransition } from '@/lib/orders/orderLifecycle';
+
+export const POST = withPortalAuth(async (request, { params }, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const orderId = toRecordId(params.id);
+  if (!orderId) return jsonError(400, 'Invalid order ID');
+
+  const order = await repository.fetchOrderById(orderId);
+  if (!order) return jsonError(404, 'Order not found');
+  assertTransition(order.status, 'cancel', session.role);
+
+  await repository.cancelOrder(orderId);
+  return NextResponse.json({ success: true });
+});
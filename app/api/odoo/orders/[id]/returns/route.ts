@@ -0,0 +1,48 @@
+/**
+ * Order Returns API Route
+ *
+ * POST /api/odoo/orders/:id/returns - Record goods returned by the customer
+ * and credit them with a credit note against the order's invoice
+ *
+ * @module app/api/odoo/orders/[id]/returns/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, jsonError } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { toRecordId } from '@/lib/odoo/mappers';
+import { RETURN_REASON_LABELS, canReturn, returnableQuantities } from '@/lib/orders/returns';
+import { CreateReturnData } from '@/types';
+
+export const POST = withPortalAuth(async (request, { params }, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const orderId = toRecordId(params.id);
+  if (!orderId) return jsonError(400, 'Invalid order ID');
+
+  const data: Partial<CreateReturnData> = await request.json();
+  if (!data.reason || !(data.reason in RETURN_REASON_LABELS)) {
+    return jsonError(400, 'A valid return reason is required');
+  }
+  const lines = (data.lines ?? []).filter((line) => line.quantity !== 0);
+  if (lines.length === 0 || lines.some((line) => typeof line.quantity !== 'number' || !(line.quantity > 0))) {
+    return jsonError(400, 'A positive quantity is required for each returned line');
+  }
+
+  const order = await repository.fetchOrderById(orderId);
+  if (!order) return jsonError(404, 'Order not found');
+  if (!canReturn(order)) return jsonError(409, 'Only invoiced orders can take a return');
+
+  const returnable = returnableQuantities(order);
+  const excess = lines.find((line) => !(line.orderLineId in returnable) || line.quantity > returnable[line.orderLineId]);
+  if (excess) {
+    return jsonError(400, 'Returned quantities cannot exceed what was billed and not yet returned');
+  }
+
+  const updated = await repository.createReturn(orderId, {
+    reason: data.reason,
+    notes: data.notes,
+    lines,
+    photos: data.photos,
+  });
+  return NextResponse.json(updated);
+});
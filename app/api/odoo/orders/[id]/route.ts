@@ -0,0 +1,45 @@
+/**
+ * Order API Route
+ *
+ * GET   /api/odoo/orders/:id - Fetch a sale order
+ * PATCH /api/odoo/orders/:id - Update the editable fields of a quotation
+ *
+ * @module app/api/odoo/orders/[id]/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, jsonError } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { toRecordId } from '@/lib/odoo/mappers';
+import { EDITABLE_ORDER_FIELDS, assertEditable } from '@/lib/orders/orderLifecycle';
+import { Order } from '@/types';
+
+export const GET = withPortalAuth(async (request, { params }, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const orderId = toRecordId(params.id);
+  if (!orderId) return jsonError(400, 'Invalid order ID');
+
+  const order = await repository.fetchOrderById(orderId);
+  if (!order) return jsonError(404, 'Order not found');
+
+  return NextResponse.json(order);
+});
+
+export const PATCH = withPortalAuth(async (request, { params }, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const orderId = toRecordId(params.id);
+  if (!orderId) return jsonError(400, 'Invalid order ID');
+
+  const updates: Partial<Order> = await request.json();
+  const fields = Object.keys(updates);
+  if (fields.some((field) => !(EDITABLE_ORDER_FIELDS as readonly string[]).includes(field))) {
+    return jsonError(400, `Only ${EDITABLE_ORDER_FIELDS.join(' and ')} can be edited`);
+  }
+
+  const current = await repository.fetchOrderById(orderId);
+  if (!current) return jsonError(404, 'Order not found');
+  assertEditable(current.status);
+
+  const order = await repository.updateOrder(orderId, updates);
+  return NextResponse.json(order);
+});
@@ -0,0 +1,34 @@
+/**
+ * Order Transitions API Route
+ *
+ * POST /api/odoo/orders/:id/transitions - Perform a lifecycle action (confirm,
+ *                                         invoice, cancel, resetToQuotation)
+ *
+ * Deliveries are recorded through /api/odoo/orders/:id/weights.
+ *
+ * @module app/api/odoo/orders/[id]/transitions/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, jsonError } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { toRecordId } from '@/lib/odoo/mappers';
+import { ORDER_TRANSITIONS, assertTransition } from '@/lib/orders/orderLifecycle';
+import { OrderAction } from '@/types';
+
+export const POST = withPortalAuth(async (request, { params }, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const orderId = toRecordId(params.id);
+  if (!orderId) return jsonError(400, 'Invalid order ID');
+
+  const { action }: { action?: OrderAction } = await request.json();
+  if (!action || !(action in ORDER_TRANSITIONS)) return jsonError(400, 'Unknown order action');
+  if (action === 'deliver') return jsonError(400, 'Record delivered weights to deliver an order');
+
+  const order = await repository.fetchOrderById(orderId);
+  if (!order) return jsonError(404, 'Order not found');
+  assertTransition(order.status, action, session.role);
+
+  const updated = await repository.transitionOrder(orderId, action);
+  return NextResponse.json(updated);
+});
@@ -0,0 +1,45 @@
+/**
+ * Order Weighing API Route
+ *
+ * POST /api/odoo/orders/:id/weights - Record delivered weights (kg) per order
+ * line, validate the delivery (optionally backordering the rest) and invoice
+ * the weighed quantities. With MRA e-invoicing enabled, the order's latest
+ * invoice is fiscalised unless the MRA already accepted it.
+ *
+ * @module app/api/odoo/orders/[id]/weights/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, jsonError } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { toRecordId } from '@/lib/odoo/mappers';
+import { assertTransition } from '@/lib/orders/orderLifecycle';
+import { fiscaliseOdooOrder } from '@/lib/mra/fiscalisation';
+import { MRA_CONFIG } from '@/lib/config';
+
+export const POST = withPortalAuth(async (request, { params }, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const orderId = toRecordId(params.id);
+  if (!orderId) return jsonError(400, 'Invalid order ID');
+
+  const { weights, createBackorder }: { weights?: Record<string, number>; createBackorder?: boolean } =
+    await request.json();
+  const entries = Object.entries(weights ?? {});
+  if (entries.length === 0 || entries.some(([, weight]) => typeof weight !== 'number' || !(weight >= 0))) {
+    return jsonError(400, 'A non-negative weight is required for each weighed line');
+  }
+
+  const order = await repository.fetchOrderById(orderId);
+  if (!order) return jsonError(404, 'Order not found');
+  assertTransition(order.status, 'deliver', session.role);
+
+  const updated = await repository.recordDeliveredWeights(
+    orderId,
+    Object.fromEntries(entries),
+    createBackorder === true
+  );
+  if (MRA_CONFIG.enabled && updated.invoice && updated.invoice.fiscalisation?.status !== 'accepted') {
+    updated.invoice.fiscalisation = await fiscaliseOdooOrder(updated, repository);
+  }
+  return NextResponse.json(updated);
+});
@@ -0,0 +1,104 @@
+/**
+ * Orders API Route
+ *
+ * GET  /api/odoo/orders - List sale orders (filters, page, pageSize)
+ * POST /api/odoo/orders - Create, confirm and invoice a sale order, then
+ *                         fiscalise the invoice when MRA e-invoicing is enabled
+ *                         (the caller's soft stock reservations are released).
+ *                         Orders failing the customer's credit check need an
+ *                         admin's creditOverride, recorded against the order.
+ *                         A retry with the Idempotency-Key of a previous
+ *                         submission returns the order that one created.
+ *
+ * @module app/api/odoo/orders/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, parsePositiveInt, jsonError } from '@/lib/api/routeHandler';
+import { toRecordId } from '@/lib/odoo/mappers';
+import { API_CONFIG, MRA_CONFIG } from '@/lib/config';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { fiscaliseOdooOrder } from '@/lib/mra/fiscalisation';
+import { softReservationsFor } from '@/lib/stock/softReservations';
+import { checkCredit, canOverrideCredit, orderDataTotal } from '@/lib/orders/creditCheck';
+import { buildOrderDomain } from '@/lib/odoo/domain';
+import { safeJsonParse } from '@/lib/utils';
+import { CreateOrderData, OrderFilters } from '@/types';
+
+/**
+ * Accepted idempotency keys
+ */
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+export const GET = withPortalAuth(async (request, _context, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const { searchParams } = request.nextUrl;
+  const filters = safeJsonParse<OrderFilters>(searchParams.get('filters') || '{}', {});
+  const page = parsePositiveInt(searchParams.get('page'), 1);
+  const pageSize = parsePositiveInt(searchParams.get('pageSize'), 10);
+
+  const orders = await repository.fetchOrders(buildOrderDomain(filters), page, pageSize);
+  return NextResponse.json(orders);
+});
+
+export const POST = withPortalAuth(async (request, _context, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const orderData: CreateOrderData = await request.json();
+  if (!orderData.customerId || !orderData.items?.length) {
+    return jsonError(400, 'Customer and at least one item are required');
+  }
+
+  const customerId = toRecordId(orderData.customerId);
+  const customer = customerId && await repository.fetchCustomerById(customerId);
+  if (!customer) {
+    return jsonError(404, 'Customer not found');
+  }
+
+  const idempotencyKey = request.headers.get(API_CONFIG.idempotencyKeyHeader)?.trim() || undefined;
+  if (idempotencyKey && !IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+    return jsonError(400, 'Invalid idempotency key');
+  }
+  // An order already created by this submission would count against its own credit check
+  const resubmitted = !!idempotencyKey && await repository.findOrderIdByIdempotencyKey(idempotencyKey) !== undefined;
+
+  // Re-checked against current receivables, whatever the form saw
+  const credit = resubmitted ? null : checkCredit(customer, orderDataTotal(orderData.items));
+  if (credit?.level !== 'block') {
+    delete orderData.creditOverride;
+  } else if (!orderData.creditOverride?.reason?.trim()) {
+    return jsonError(409, `Credit check failed: ${credit.reasons.join('; ')}`);
+  } else if (!canOverrideCredit(session.role)) {
+    return jsonError(403, 'Only an administrator can override the credit check');
+  } else {
+    // The approver is whoever is signed in, not what the form claims
+    orderData.creditOverride = {
+      approvedBy: session.email,
+      reason: orderData.creditOverride.reason.trim(),
+      approvedAt: new Date().toISOString(),
+    };
+  }
+
+  const { order, invoice } = await repository.createOrder(
+    orderData,
+    credit?.level === 'block' ? credit.reasons : [],
+    idempotencyKey
+  );
+  // Confirmed orders are reserved in Odoo itself
+  softReservationsFor(odooSessions.databaseOf(session))
+    .release(session.sub, orderData.items.map((item) => item.productId));
+  if (MRA_CONFIG.enabled && order.invoice && order.invoice.fiscalisation?.status !== 'accepted') {
+    order.invoice.fiscalisation = await fiscaliseOdooOrder(order, repository);
+  }
+
+  return NextResponse.json({
+    order,
+    invoice: invoice && {
+      id: String(invoice.id),
+      name: invoice.name,
+      state: invoice.state,
+      pdf_url: `/api/invoices/${encodeURIComponent(invoice.name)}/pdf`,
+      amount_total: invoice.amount_total,
+    },
+    mra_status: order.invoice?.fiscalisation?.status,
+  }, { status: 201 });
+});
@@ -0,0 +1,37 @@
+/**
+ * Payments API Route
+ *
+ * POST /api/odoo/payments - Post a payment collected from a customer,
+ *                           allocated across their open invoices.
+ *                           A receipt already posted is returned as is.
+ *
+ * @module app/api/odoo/payments/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, jsonError } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { toRecordId } from '@/lib/odoo/mappers';
+import { validatePayment } from '@/lib/payments/allocation';
+import { CreatePaymentData } from '@/types';
+
+export const POST = withPortalAuth(async (request, _context, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const data: CreatePaymentData = await request.json();
+  const partnerId = toRecordId(data.customerId);
+  if (!partnerId) return jsonError(400, 'Invalid customer ID');
+  if (!data.receiptNumber) return jsonError(400, 'A receipt number is required');
+
+  const paymentData = { ...data, receiptNumber: data.receiptNumber, allocations: data.allocations ?? [] };
+
+  // A retry of a receipt already posted: its invoices are paid by now
+  const existing = await repository.findPayment(paymentData);
+  if (existing) return NextResponse.json(existing);
+
+  const openInvoices = await repository.fetchOpenInvoices(partnerId);
+  const error = validatePayment(paymentData, openInvoices);
+  if (error) return jsonError(400, error);
+
+  const payment = await repository.createPayment(paymentData);
+  return NextResponse.json(payment, { status: 201 });
+});
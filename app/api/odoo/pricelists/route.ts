@@ -0,0 +1,23 @@
+/**
+ * Pricelists API Route
+ *
+ * GET /api/odoo/pricelists - List active pricelists and their rules (ids)
+ *
+ * @module app/api/odoo/pricelists/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { toRecordId } from '@/lib/odoo/mappers';
+
+export const GET = withPortalAuth(async (request, _context, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const pricelistIds = request.nextUrl.searchParams.get('ids')
+    ?.split(',')
+    .map((id) => toRecordId(id))
+    .filter((id): id is number => id !== false);
+
+  const pricelists = await repository.fetchPricelists(pricelistIds);
+  return NextResponse.json(pricelists);
+});
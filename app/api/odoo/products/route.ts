@@ -0,0 +1,31 @@
+/**
+ * Products API Route
+ *
+ * GET /api/odoo/products - List saleable products (q, ids, page, pageSize)
+ *
+ * @module app/api/odoo/products/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, parsePositiveInt } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { buildProductDomain } from '@/lib/odoo/domain';
+import { toRecordId } from '@/lib/odoo/mappers';
+
+export const GET = withPortalAuth(async (request, _context, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const { searchParams } = request.nextUrl;
+  const page = parsePositiveInt(searchParams.get('page'), 1);
+  const pageSize = parsePositiveInt(searchParams.get('pageSize'), 20);
+  const productIds = searchParams.get('ids')
+    ?.split(',')
+    .map((id) => toRecordId(id))
+    .filter((id): id is number => id !== false);
+
+  const products = await repository.fetchProducts(
+    buildProductDomain(searchParams.get('q') || undefined, productIds),
+    page,
+    pageSize
+  );
+  return NextResponse.json(products);
+});
@@ -0,0 +1,44 @@
+/**
+ * Soft Stock Reservations API Route
+ *
+ * PUT    /api/odoo/stock/reservations - Hold a quantity of a product for the
+ *                                      caller's order in progress (0 releases)
+ * DELETE /api/odoo/stock/reservations - Release the caller's holds (ids, all by default)
+ *
+ * @module app/api/odoo/stock/reservations/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, jsonError } from '@/lib/api/routeHandler';
+import { STOCK_CONFIG } from '@/lib/config';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { softReservationsFor } from '@/lib/stock/softReservations';
+import { toRecordId } from '@/lib/odoo/mappers';
+
+export const PUT = withPortalAuth(async (request, _context, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  if (!STOCK_CONFIG.softReservations) {
+    return jsonError(503, 'Soft reservations are disabled');
+  }
+
+  const { productId, quantity }: { productId?: string; quantity?: number } = await request.json();
+  const recordId = toRecordId(productId);
+  if (!recordId || typeof quantity !== 'number' || !(quantity >= 0)) {
+    return jsonError(400, 'A product ID and a non-negative quantity are required');
+  }
+
+  const reservations = softReservationsFor(odooSessions.databaseOf(session));
+  reservations.hold(session.sub, String(recordId), quantity);
+
+  const [level] = reservations.applyTo(
+    await repository.fetchStockAvailability([recordId]),
+    session.sub
+  );
+  return NextResponse.json(level);
+});
+
+export const DELETE = withPortalAuth(async (request, _context, session) => {
+  const productIds = request.nextUrl.searchParams.get('ids')?.split(',').filter(Boolean);
+  softReservationsFor(odooSessions.databaseOf(session)).release(session.sub, productIds);
+  return NextResponse.json({ success: true });
+});
@@ -0,0 +1,27 @@
+/**
+ * Stock Availability API Route
+ *
+ * GET /api/odoo/stock - Available quantity of products (ids), net of Odoo
+ *                       reservations and other salesmen's soft reservations
+ *
+ * @module app/api/odoo/stock/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, jsonError } from '@/lib/api/routeHandler';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { softReservationsFor } from '@/lib/stock/softReservations';
+import { toRecordId } from '@/lib/odoo/mappers';
+
+export const GET = withPortalAuth(async (request, _context, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const productIds = (request.nextUrl.searchParams.get('ids') ?? '')
+    .split(',')
+    .map((id) => toRecordId(id))
+    .filter((id): id is number => id !== false);
+  if (productIds.length === 0) return jsonError(400, 'At least one product ID is required');
+
+  const levels = await repository.fetchStockAvailability(productIds);
+  const reservations = softReservationsFor(odooSessions.databaseOf(session));
+  return NextResponse.json(reservations.applyTo(levels, session.sub));
+});
@@ -0,0 +1,38 @@
+/**
+ * Sync API Route
+ *
+ * GET /api/odoo/sync?model=<orders|customers|products>&writeDate=&id=&limit=
+ *     - Page of the records written after the cursor (writeDate, id), oldest
+ *       write first. Without a cursor the whole dataset is paged through.
+ *       The last page lists the IDs of every record still synced, so the
+ *       client can drop deleted and archived ones.
+ *
+ * @module app/api/odoo/sync/route
+ */
+
+import { NextResponse } from 'next/server';
+import { withPortalAuth, parsePositiveInt, jsonError } from '@/lib/api/routeHandler';
+import { SYNC_CONFIG } from '@/lib/config';
+import { odooSessions } from '@/lib/odoo/odooSessions';
+import { buildCustomerDomain, buildOrderDomain, buildProductDomain } from '@/lib/odoo/domain';
+import { SyncCursor } from '@/types';
+
+export const GET = withPortalAuth(async (request, _context, session) => {
+  const repository = odooSessions.repositoryFor(session);
+  const { searchParams } = request.nextUrl;
+  const writeDate = searchParams.get('writeDate');
+  const id = searchParams.get('id');
+  const cursor: SyncCursor | null = writeDate && id ? { writeDate, id } : null;
+  const limit = parsePositiveInt(searchParams.get('limit'), SYNC_CONFIG.pageSize);
+
+  switch (searchParams.get('model')) {
+    case 'orders':
+      return NextResponse.json(await repository.fetchOrderChanges(buildOrderDomain(), cursor, limit));
+    case 'customers':
+      return NextResponse.json(await repository.fetchCustomerChanges(buildCustomerDomain(), cursor, limit));
+    case 'products':
+      return NextResponse.json(await repository.fetchProductChanges(buildProductDomain(), cursor, limit));
+    default:
+      return jsonError(400, 'Unknown sync model');
+  }
+});
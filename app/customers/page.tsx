@@ -7,6 +7,8 @@
  * - Purchase history
  * - Add/Edit customer forms
  * - Customer statistics
+ * - Payment collection
+ * - Statement of account PDF with aging
  * 
  * @module app/customers/page
  */
@@ -32,8 +34,16 @@ import {
   ShoppingBag,
   TrendingUp,
   User,
-  X
+  X,
+  Wallet,
+  FileText
 } from 'lucide-react';
+import { PaymentModal } from '@/components/payments/PaymentModal';
+import { odooService } from '@/lib/odoo/odooService';
+import { offlineService } from '@/lib/offline/offlineService';
+import { SYNC_CONFIG } from '@/lib/config';
+import { defaultStatementPeriod } from '@/lib/customers/statement';
+import { downloadCustomerStatement } from '@/lib/pdf/customerStatement';
 import { useCustomerStore } from '@/lib/stores';
 import { Customer, CustomerStatus } from '@/types';
 import { formatCurrency, formatDate, cn } from '@/lib/utils';
@@ -50,6 +60,9 @@ export default function CustomersPage() {
   const [showCustomerModal, setShowCustomerModal] = useState(false);
   const [showAddCustomerModal, setShowAddCustomerModal] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [statementPeriod, setStatementPeriod] = useState(defaultStatementPeriod);
+  const [isGeneratingStatement, setIsGeneratingStatement] = useState(false);
 
   // Form state for add/edit customer
   const [customerForm, setCustomerForm] = useState({
@@ -105,6 +118,28 @@ export default function CustomersPage() {
     setShowCustomerModal(true);
   };
 
+  const handleDownloadStatement = async (customer: Customer) => {
+    if (!statementPeriod.dateFrom || !statementPeriod.dateTo || statementPeriod.dateFrom > statementPeriod.dateTo) {
+      notifications.error('Validation Error', 'Please choose a valid statement period');
+      return;
+    }
+
+    setIsGeneratingStatement(true);
+    try {
+      const statement = await odooService.getCustomerStatement(
+        customer,
+        statementPeriod.dateFrom,
+        statementPeriod.dateTo
+      );
+      await downloadCustomerStatement(statement);
+    } catch (error) {
+      console.error('Error generating statement:', error);
+      notifications.error('Error', 'Failed to generate the statement. Please try again.');
+    } finally {
+      setIsGeneratingStatement(false);
+    }
+  };
+
   const handleEditCustomer = (customer: Customer) => {
     setEditingCustomer(customer);
     setCustomerForm({
@@ -134,8 +169,14 @@ export default function CustomersPage() {
   const handleSaveCustomer = async () => {
     try {
       if (editingCustomer) {
-        await updateCustomer(editingCustomer.id, customerForm);
-        notifications.success('Success', 'Customer updated successfully');
+        // Queued when offline, and merged with changes made in Odoo meanwhile on sync
+        const updated = await odooService.updateCustomer(editingCustomer.id, customerForm);
+        updateCustomer(editingCustomer.id, updated);
+        if (SYNC_CONFIG.enabled && !offlineService.isCurrentlyOnline()) {
+          notifications.warning('Saved Offline', `Changes to ${updated.name} will be sent to Odoo once you are back online`);
+        } else {
+          notifications.success('Success', 'Customer updated successfully');
+        }
       } else {
         // Create full customer object with all required fields
         const newCustomer: Customer = {
@@ -633,6 +674,34 @@ export default function CustomersPage() {
                         <p className="text-xs text-gray-600 mt-1">Avg Order</p>
                       </div>
                     </div>
+                    {selectedCustomer.balance !== undefined && (
+                      <div className="mt-4 flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                        <span className="text-sm text-gray-600">
+                          Outstanding Balance (net of credit notes)
+                        </span>
+                        <span className="text-sm font-semibold text-gray-900">
+                          {formatCurrency(selectedCustomer.balance)}
+                        </span>
+                      </div>
+                    )}
+                    {selectedCustomer.creditLimit ? (
+                      <div className="mt-2 flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                        <span className="text-sm text-gray-600">Credit Limit</span>
+                        <span className="text-sm font-semibold text-gray-900">
+                          {formatCurrency(selectedCustomer.creditLimit)}
+                        </span>
+                      </div>
+                    ) : null}
+                    {selectedCustomer.oldestOverdueDate && (
+                      <div className="mt-2 flex items-center justify-between p-4 bg-danger-50 rounded-lg">
+                        <span className="text-sm text-danger-700">
+                          Overdue since {formatDate(selectedCustomer.oldestOverdueDate)}
+                        </span>
+                        <span className="text-sm font-semibold text-danger-700">
+                          {formatCurrency(selectedCustomer.overdueAmount ?? 0)}
+                        </span>
+                      </div>
+                    )}
                   </div>
 
                   {/* Recent Activity */}
@@ -649,6 +718,39 @@ export default function CustomersPage() {
                       </div>
                     </div>
                   </div>
+
+                  {/* Statement of Account */}
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-900 mb-3">
+                      Statement of Account
+                    </h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+                      <Input
+                        label="From"
+                        type="date"
+                        value={statementPeriod.dateFrom}
+                        max={statementPeriod.dateTo}
+                        onChange={(e) => setStatementPeriod({ ...statementPeriod, dateFrom: e.target.value })}
+                        fullWidth
+                      />
+                      <Input
+                        label="To"
+                        type="date"
+                        value={statementPeriod.dateTo}
+                        min={statementPeriod.dateFrom}
+                        onChange={(e) => setStatementPeriod({ ...statementPeriod, dateTo: e.target.value })}
+                        fullWidth
+                      />
+                      <Button
+                        variant="secondary"
+                        leftIcon={<FileText className="w-4 h-4" />}
+                        onClick={() => handleDownloadStatement(selectedCustomer)}
+                        isLoading={isGeneratingStatement}
+                      >
+                        Download PDF
+                      </Button>
+                    </div>
+                  </div>
                 </div>
 
                 {/* Modal Footer */}
@@ -659,6 +761,13 @@ export default function CustomersPage() {
                   >
                     Close
                   </Button>
+                  <Button
+                    variant="secondary"
+                    leftIcon={<Wallet className="w-4 h-4" />}
+                    onClick={() => setShowPaymentModal(true)}
+                  >
+                    Record Payment
+                  </Button>
                   <Button
                     variant="primary"
                     leftIcon={<Edit className="w-4 h-4" />}
@@ -779,6 +888,14 @@ export default function CustomersPage() {
           </div>
         </>
       )}
+
+      {/* Payment Modal */}
+      <PaymentModal
+        isOpen={showPaymentModal}
+        customer={selectedCustomer}
+        onClose={() => setShowPaymentModal(false)}
+        onSuccess={() => fetchCustomers()}
+      />
     </div>
   );
 }
@@ -1,7 +1,8 @@
 /**
  * Login Page
  * 
- * Authentication page for Odoo credentials.
+ * Authentication page for Odoo credentials, with a database selector
+ * when the Odoo server hosts several.
  * Clean, modern design following Apple's aesthetic.
  * 
  * @module app/login/page
@@ -11,11 +12,12 @@
 
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { Eye, EyeOff, AlertCircle } from 'lucide-react';
+import { Eye, EyeOff, AlertCircle, Database } from 'lucide-react';
 import { Button, Input } from '@/components/ui';
 import { useAuthStore } from '@/lib/stores';
 import { cn } from '@/lib/utils';
-import { DEV_CREDENTIALS } from '@/lib/auth/authService';
+import { ODOO_CONFIG } from '@/lib/config';
+import { authService, DEV_CREDENTIALS } from '@/lib/auth/authService';
 
 /**
  * Login Page Component
@@ -29,6 +31,8 @@ export default function LoginPage() {
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [rememberMe, setRememberMe] = useState(false);
+  const [databases, setDatabases] = useState<string[]>([]);
+  const [database, setDatabase] = useState('');
 
   /**
    * Check auth on mount
@@ -37,6 +41,20 @@ export default function LoginPage() {
     checkAuth();
   }, [checkAuth]);
 
+  /**
+   * Load the databases, preselecting the one last signed in to
+   */
+  useEffect(() => {
+    authService
+      .getDatabases()
+      .then((names) => {
+        const last = authService.getLastDatabase();
+        setDatabases(names);
+        setDatabase(last && names.includes(last) ? last : names[0] ?? '');
+      })
+      .catch((err) => console.error('Failed to load databases:', err));
+  }, []);
+
   /**
    * Redirect if already authenticated
    */
@@ -53,7 +71,7 @@ export default function LoginPage() {
     if (error) {
       clearError();
     }
-  }, [username, password, clearError]);
+  }, [username, password, database, clearError]);
 
   /**
    * Handle form submission
@@ -66,7 +84,7 @@ export default function LoginPage() {
     }
 
     try {
-      await login({ username, password });
+      await login({ username, password, database: database || undefined });
       // Redirect will happen via useEffect when isAuthenticated becomes true
     } catch (err) {
       // Error is handled by the store
@@ -127,6 +145,31 @@ export default function LoginPage() {
 
           {/* Login Form */}
           <form onSubmit={handleSubmit} className="space-y-5">
+            {/* Database Selector (only when the server hosts several) */}
+            {databases.length > 1 && (
+              <div className="flex flex-col gap-1.5">
+                <label htmlFor="database" className="text-sm font-medium text-gray-700">
+                  Database
+                </label>
+                <div className="relative">
+                  <Database className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                  <select
+                    id="database"
+                    value={database}
+                    onChange={(e) => setDatabase(e.target.value)}
+                    disabled={isLoading}
+                    className="w-full pl-10 pr-4 py-2.5 rounded-lg bg-white border border-gray-300 text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all"
+                  >
+                    {databases.map((name) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
             {/* Username/Email Input */}
             <Input
               type="text"
@@ -202,56 +245,61 @@ export default function LoginPage() {
             </Button>
           </form>
 
-          {/* Divider */}
-          <div className="relative my-6">
-            <div className="absolute inset-0 flex items-center">
-              <div className="w-full border-t border-gray-200" />
-            </div>
-            <div className="relative flex justify-center text-sm">
-              <span className="px-4 bg-white text-gray-500">
-                Development Mode
-              </span>
-            </div>
-          </div>
-
-          {/* Quick Login Buttons (Dev Only) */}
-          <div className="space-y-3">
-            <Button
-              type="button"
-              variant="outline"
-              fullWidth
-              onClick={() => handleQuickLogin('admin')}
-              disabled={isLoading}
-            >
-              🔑 Quick Login as Admin
-            </Button>
-            <Button
-              type="button"
-              variant="outline"
-              fullWidth
-              onClick={() => handleQuickLogin('salesman')}
-              disabled={isLoading}
-            >
-              👤 Quick Login as Salesman
-            </Button>
-          </div>
+          {/* Quick Login (mock users only) */}
+          {ODOO_CONFIG.mockMode && (
+            <>
+              {/* Divider */}
+              <div className="relative my-6">
+                <div className="absolute inset-0 flex items-center">
+                  <div className="w-full border-t border-gray-200" />
+                </div>
+                <div className="relative flex justify-center text-sm">
+                  <span className="px-4 bg-white text-gray-500">
+                    Development Mode
+                  </span>
+                </div>
+              </div>
 
-          {/* Dev Credentials Info */}
-          <div className="mt-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
-            <h4 className="text-xs font-semibold text-gray-700 mb-2">
-              Development Credentials:
-            </h4>
-            <div className="space-y-2 text-xs text-gray-600">
-              <div>
-                <span className="font-medium">Admin:</span>{' '}
-                {DEV_CREDENTIALS.admin.username} / {DEV_CREDENTIALS.admin.password}
+              {/* Quick Login Buttons (Dev Only) */}
+              <div className="space-y-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  fullWidth
+                  onClick={() => handleQuickLogin('admin')}
+                  disabled={isLoading}
+                >
+                  🔑 Quick Login as Admin
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  fullWidth
+                  onClick={() => handleQuickLogin('salesman')}
+                  disabled={isLoading}
+                >
+                  👤 Quick Login as Salesman
+                </Button>
               </div>
-              <div>
-                <span className="font-medium">Salesman:</span>{' '}
-                {DEV_CREDENTIALS.salesman.username} / {DEV_CREDENTIALS.salesman.password}
+
+              {/* Dev Credentials Info */}
+              <div className="mt-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
+                <h4 className="text-xs font-semibold text-gray-700 mb-2">
+                  Development Credentials:
+                </h4>
+                <div className="space-y-2 text-xs text-gray-600">
+                  <div>
+                    <span className="font-medium">Admin:</span>{' '}
+                    {DEV_CREDENTIALS.admin.username} / {DEV_CREDENTIALS.admin.password}
+                  </div>
+                  <div>
+                    <span className="font-medium">Salesman:</span>{' '}
+                    {DEV_CREDENTIALS.salesman.username} / {DEV_CREDENTIALS.salesman.password}
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
+            </>
+          )}
         </div>
 
         {/* Footer */}
@@ -19,19 +19,45 @@ import {
   Trash2,
   Calendar,
   ChevronDown,
+  Printer,
+  RefreshCw,
+  Scale,
+  Truck,
+  Undo2,
+  Wallet,
 } from 'lucide-react';
 import { Button, Badge, Card, Input } from '@/components/ui';
 import { CreateOrderModal } from '@/components/orders/CreateOrderModal';
+import { WeighingModal } from '@/components/orders/WeighingModal';
+import { ReturnModal } from '@/components/orders/ReturnModal';
+import { PaymentModal } from '@/components/payments/PaymentModal';
+import { OrderStatusBadge, PendingSyncBadge } from '@/components/orders/OrderStatusBadge';
 import { odooService } from '@/lib/odoo/odooService';
-import { Order, OrderStatus } from '@/types';
-import { formatCurrency, formatDate, cn } from '@/lib/utils';
+import { offlineService } from '@/lib/offline/offlineService';
+import { downloadInvoice } from '@/lib/pdf/invoice';
+import { MRA_CONFIG } from '@/lib/config';
+import {
+  ORDER_STATUS_LABELS,
+  ORDER_TRANSITIONS,
+  canTransition,
+  getAllowedActions,
+  isPendingSync,
+} from '@/lib/orders/orderLifecycle';
+import { RETURN_REASON_LABELS, canReturn, creditedAmount } from '@/lib/orders/returns';
+import { billableQuantity } from '@/lib/pricing/orderTotals';
+import { Order, OrderStatus, OrderAction, FiscalStatus, DeliveryState } from '@/types';
+import { formatCurrency, formatDate, cn, downloadBlob } from '@/lib/utils';
 import { useNotifications } from '@/lib/stores/notificationStore';
+import { useAuthStore } from '@/lib/stores/authStore';
+import { busService } from '@/lib/realtime/busService';
 
 /**
  * Orders Page Component
  */
 export default function OrdersPage() {
   const notifications = useNotifications();
+  const { user } = useAuthStore();
+  const role = user?.role ?? 'salesman';
   
   // State
   const [orders, setOrders] = useState<Order[]>([]);
@@ -39,17 +65,42 @@ export default function OrdersPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<OrderStatus | 'all'>('all');
+  const [openBackordersOnly, setOpenBackordersOnly] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [showOrderModal, setShowOrderModal] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showWeighingModal, setShowWeighingModal] = useState(false);
+  const [showReturnModal, setShowReturnModal] = useState(false);
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [isFiscalising, setIsFiscalising] = useState(false);
+  const [isDownloadingInvoice, setIsDownloadingInvoice] = useState(false);
+  const [pendingAction, setPendingAction] = useState<OrderAction | null>(null);
 
   /**
-   * Fetch orders on mount
+   * Fetch orders on mount and when the backorder filter changes
    */
   useEffect(() => {
     fetchOrders();
-  }, []);
+  }, [openBackordersOnly]);
+
+  /**
+   * Keep listed orders current with changes pushed from Odoo
+   */
+  useEffect(() => busService.subscribe((event) => {
+    if (event.type !== 'order') return;
+    const { order } = event;
+    setOrders((current) => current.map(o => o.id === order.id ? order : o));
+    setSelectedOrder((current) => current?.id === order.id ? order : current);
+  }), []);
+
+  /**
+   * Swap orders taken offline for the orders they became in Odoo
+   */
+  useEffect(() => offlineService.subscribeToSyncedOrders(({ localId, order }) => {
+    setOrders((current) => current.flatMap(o => o.id === localId ? [order] : o.id === order.id ? [] : [o]));
+    setSelectedOrder((current) => current?.id === localId ? order : current);
+  }), []);
 
   /**
    * Apply filters when search or status changes
@@ -64,8 +115,17 @@ export default function OrdersPage() {
   const fetchOrders = async () => {
     try {
       setIsLoading(true);
-      const response = await odooService.getOrders(undefined, 1, 100);
-      setOrders(response.data);
+      const [response, pendingOrders] = await Promise.all([
+        odooService.getOrders(
+          openBackordersOnly ? { openBackorders: true } : undefined,
+          1,
+          100
+        ),
+        // Orders taken offline are listed until they reach Odoo
+        openBackordersOnly ? [] : offlineService.getPendingOrders().catch((): Order[] => []),
+      ]);
+      const listed = new Set(response.data.map(order => order.id));
+      setOrders([...pendingOrders.filter(order => !listed.has(order.id)), ...response.data]);
     } catch (error) {
       console.error('Error fetching orders:', error);
       notifications.error('Error', 'Failed to load orders');
@@ -91,6 +151,7 @@ export default function OrdersPage() {
       filtered = filtered.filter(
         order =>
           order.orderNumber.toLowerCase().includes(query) ||
+          order.localOrderNumber?.toLowerCase().includes(query) ||
           order.customerName.toLowerCase().includes(query) ||
           order.id.toLowerCase().includes(query)
       );
@@ -100,27 +161,39 @@ export default function OrdersPage() {
   };
 
   /**
-   * Get badge variant for order status
+   * Get badge variant for MRA fiscalisation status
    */
-  const getStatusVariant = (status: OrderStatus) => {
+  const getFiscalStatusVariant = (status: FiscalStatus) => {
     switch (status) {
-      case 'received':
+      case 'accepted':
         return 'success';
-      case 'shipping':
+      case 'rejected':
+        return 'danger';
+      default:
         return 'warning';
-      case 'pending':
-        return 'secondary';
+    }
+  };
+
+  /**
+   * Get badge variant for delivery state
+   */
+  const getDeliveryStateVariant = (state: DeliveryState) => {
+    switch (state) {
+      case 'done':
+        return 'success';
+      case 'ready':
+        return 'primary';
       case 'cancelled':
         return 'danger';
       default:
-        return 'gray';
+        return 'warning';
     }
   };
 
   /**
    * Format status text
    */
-  const formatStatus = (status: OrderStatus): string => {
+  const formatStatus = (status: string): string => {
     return status.charAt(0).toUpperCase() + status.slice(1);
   };
 
@@ -132,14 +205,106 @@ export default function OrdersPage() {
     setShowOrderModal(true);
   };
 
+  /**
+   * Resubmit the selected order's invoice to the MRA
+   */
+  const handleFiscalise = async () => {
+    if (!selectedOrder?.invoice) return;
+
+    setIsFiscalising(true);
+    try {
+      const fiscalisation = await odooService.fiscaliseOrder(selectedOrder);
+      const updatedOrder: Order = {
+        ...selectedOrder,
+        invoice: { ...selectedOrder.invoice, fiscalisation },
+      };
+      setSelectedOrder(updatedOrder);
+      setOrders(orders.map(o => o.id === updatedOrder.id ? updatedOrder : o));
+
+      if (fiscalisation.status === 'accepted') {
+        notifications.success('Invoice Fiscalised', `IRN ${fiscalisation.irn}`);
+      } else {
+        notifications.error('Fiscalisation Failed', fiscalisation.error || 'The MRA did not accept the invoice');
+      }
+    } finally {
+      setIsFiscalising(false);
+    }
+  };
+
+  /**
+   * Replace an updated order in the list and detail view
+   */
+  const handleOrderUpdated = (updatedOrder: Order) => {
+    setSelectedOrder(updatedOrder);
+    setOrders(orders.map(o => o.id === updatedOrder.id ? updatedOrder : o));
+  };
+
+  /**
+   * Perform a lifecycle action on the selected order
+   * (delivery opens the weighing step)
+   */
+  const handleOrderAction = async (action: OrderAction) => {
+    if (!selectedOrder) return;
+
+    if (action === 'deliver') {
+      setShowWeighingModal(true);
+      return;
+    }
+    if (action === 'cancel' && !confirm('Are you sure you want to cancel this order?')) return;
+
+    setPendingAction(action);
+    try {
+      const updatedOrder = await odooService.transitionOrder(selectedOrder, action);
+      handleOrderUpdated(updatedOrder);
+      notifications.success('Order Updated', `${updatedOrder.orderNumber} is now ${ORDER_STATUS_LABELS[updatedOrder.status].toLowerCase()}`);
+    } catch (error) {
+      notifications.error('Error', error instanceof Error ? error.message : 'Failed to update order');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  /**
+   * Download the selected order's tax invoice
+   */
+  const handlePrintInvoice = async () => {
+    if (!selectedOrder) return;
+
+    try {
+      await downloadInvoice(selectedOrder);
+    } catch (error) {
+      console.error('Error generating invoice:', error);
+      notifications.error('Error', 'Failed to generate invoice PDF');
+    }
+  };
+
+  /**
+   * Download the selected order's official invoice from Odoo
+   * (served from the offline cache when available)
+   */
+  const handleDownloadInvoice = async () => {
+    if (!selectedOrder?.invoice) return;
+
+    setIsDownloadingInvoice(true);
+    try {
+      const pdf = await odooService.getInvoicePdf(selectedOrder);
+      downloadBlob(pdf, `${selectedOrder.invoice.name.replace(/[^\w.-]+/g, '_')}.pdf`);
+    } catch (error) {
+      console.error('Error downloading invoice:', error);
+      notifications.error('Error', 'Failed to download invoice');
+    } finally {
+      setIsDownloadingInvoice(false);
+    }
+  };
+
   /**
    * Handle delete order
    */
-  const handleDeleteOrder = async (orderId: string) => {
+  const handleDeleteOrder = async (order: Order) => {
     if (!confirm('Are you sure you want to cancel this order?')) return;
 
     try {
-      await odooService.cancelOrder(orderId);
+      await odooService.transitionOrder(order, 'cancel');
       notifications.success('Success', 'Order cancelled successfully');
       fetchOrders();
     } catch (error) {
@@ -162,6 +327,9 @@ export default function OrdersPage() {
     // TODO: Implement CSV export
   };
 
+  // Credit notes issued for the selected order's returns
+  const returnedAmount = selectedOrder ? creditedAmount(selectedOrder) : 0;
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
@@ -226,12 +394,21 @@ export default function OrdersPage() {
                 className="px-4 py-2.5 rounded-lg bg-white border border-gray-300 text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all"
               >
                 <option value="all">All Status</option>
-                <option value="pending">Pending</option>
-                <option value="shipping">Shipping</option>
-                <option value="received">Received</option>
-                <option value="cancelled">Cancelled</option>
+                {(Object.keys(ORDER_STATUS_LABELS) as OrderStatus[]).map((status) => (
+                  <option key={status} value={status}>
+                    {ORDER_STATUS_LABELS[status]}
+                  </option>
+                ))}
               </select>
 
+              <Button
+                variant={openBackordersOnly ? 'primary' : 'secondary'}
+                leftIcon={<Truck className="w-4 h-4" />}
+                onClick={() => setOpenBackordersOnly(!openBackordersOnly)}
+              >
+                Open Backorders
+              </Button>
+
               <Button
                 variant="secondary"
                 leftIcon={<Filter className="w-4 h-4" />}
@@ -292,7 +469,7 @@ export default function OrdersPage() {
               <div>
                 <p className="text-sm text-warning-600 font-medium">Pending</p>
                 <p className="text-2xl font-bold text-warning-900 mt-1">
-                  {orders.filter(o => o.status === 'pending').length}
+                  {orders.filter(o => ['quotation', 'confirmed', 'partially_delivered'].includes(o.status)).length}
                 </p>
               </div>
               <div className="w-12 h-12 bg-warning-500 rounded-xl flex items-center justify-center">
@@ -308,7 +485,7 @@ export default function OrdersPage() {
               <div>
                 <p className="text-sm text-success-600 font-medium">Completed</p>
                 <p className="text-2xl font-bold text-success-900 mt-1">
-                  {orders.filter(o => o.status === 'received').length}
+                  {orders.filter(o => ['delivered', 'invoiced', 'paid'].includes(o.status)).length}
                 </p>
               </div>
               <div className="w-12 h-12 bg-success-500 rounded-xl flex items-center justify-center">
@@ -427,10 +604,9 @@ export default function OrdersPage() {
 
                       {/* Status */}
                       <td className="px-6 py-4">
-                        <div className="flex justify-center">
-                          <Badge variant={getStatusVariant(order.status)} dot>
-                            {formatStatus(order.status)}
-                          </Badge>
+                        <div className="flex flex-col items-center gap-1">
+                          <OrderStatusBadge status={order.status} />
+                          <PendingSyncBadge order={order} size="sm" />
                         </div>
                       </td>
 
@@ -452,9 +628,10 @@ export default function OrdersPage() {
                             <Edit className="w-4 h-4 text-gray-600" />
                           </button>
                           <button
-                            onClick={() => handleDeleteOrder(order.id)}
-                            className="p-2 hover:bg-danger-50 rounded-lg transition-colors"
+                            onClick={() => handleDeleteOrder(order)}
+                            className="p-2 hover:bg-danger-50 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
                             title="Cancel order"
+                            disabled={isPendingSync(order) || !canTransition(order.status, 'cancel', role)}
                           >
                             <Trash2 className="w-4 h-4 text-danger-600" />
                           </button>
@@ -491,6 +668,7 @@ export default function OrdersPage() {
                       </h2>
                       <p className="text-sm text-gray-500 mt-0.5">
                         {selectedOrder.orderNumber}
+                        {selectedOrder.localOrderNumber && ` (taken offline as ${selectedOrder.localOrderNumber})`}
                       </p>
                     </div>
                     <button
@@ -520,9 +698,10 @@ export default function OrdersPage() {
                     </div>
                     <div>
                       <p className="text-xs text-gray-500 mb-1">Status</p>
-                      <Badge variant={getStatusVariant(selectedOrder.status)} dot>
-                        {formatStatus(selectedOrder.status)}
-                      </Badge>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <OrderStatusBadge status={selectedOrder.status} />
+                        <PendingSyncBadge order={selectedOrder} />
+                      </div>
                     </div>
                     <div>
                       <p className="text-xs text-gray-500 mb-1">Salesperson</p>
@@ -551,8 +730,13 @@ export default function OrdersPage() {
                               {item.productName}
                             </p>
                             <p className="text-xs text-gray-500">
-                              {item.quantity} × {formatCurrency(item.unitPrice)}
+                              {billableQuantity(item)} × {formatCurrency(item.unitPrice)}
                             </p>
+                            {item.deliveredWeight !== undefined && (
+                              <p className="text-xs text-gray-500">
+                                Ordered {item.quantity} kg · Delivered {item.deliveredWeight} kg
+                              </p>
+                            )}
                           </div>
                           <p className="text-sm font-semibold text-gray-900">
                             {formatCurrency(item.subtotal)}
@@ -582,8 +766,139 @@ export default function OrdersPage() {
                         {formatCurrency(selectedOrder.total)}
                       </span>
                     </div>
+                    {returnedAmount > 0 && (
+                      <>
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-600">Credited (returns)</span>
+                          <span className="font-medium text-danger-600">
+                            -{formatCurrency(returnedAmount)}
+                          </span>
+                        </div>
+                        <div className="flex justify-between text-sm font-semibold">
+                          <span className="text-gray-900">Net</span>
+                          <span className="text-gray-900">
+                            {formatCurrency(selectedOrder.total - returnedAmount)}
+                          </span>
+                        </div>
+                      </>
+                    )}
                   </div>
 
+                  {/* Invoice & MRA Fiscalisation */}
+                  {selectedOrder.invoice && (
+                    <div>
+                      <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                        Invoice
+                      </h3>
+                      <div className="p-3 bg-gray-50 rounded-lg space-y-2">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium text-gray-900">
+                            {selectedOrder.invoice.name}
+                          </span>
+                          {selectedOrder.invoice.fiscalisation && (
+                            <Badge variant={getFiscalStatusVariant(selectedOrder.invoice.fiscalisation.status)} dot>
+                              MRA {formatStatus(selectedOrder.invoice.fiscalisation.status)}
+                            </Badge>
+                          )}
+                        </div>
+                        {selectedOrder.invoice.fiscalisation?.irn && (
+                          <p className="text-xs text-gray-600">
+                            IRN: <span className="font-mono">{selectedOrder.invoice.fiscalisation.irn}</span>
+                          </p>
+                        )}
+                        {selectedOrder.invoice.fiscalisation?.error && (
+                          <p className="text-xs text-danger-600">
+                            {selectedOrder.invoice.fiscalisation.error}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Deliveries & Backorders */}
+                  {selectedOrder.deliveries && selectedOrder.deliveries.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                        Deliveries
+                      </h3>
+                      <div className="space-y-2">
+                        {selectedOrder.deliveries.map((delivery) => (
+                          <div key={delivery.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <span className="text-sm font-medium text-gray-900">
+                                  {delivery.name}
+                                </span>
+                                {delivery.backorderOf && (
+                                  <span className="ml-2 text-xs text-gray-500">
+                                    Backorder of {delivery.backorderOf}
+                                  </span>
+                                )}
+                              </div>
+                              <Badge variant={getDeliveryStateVariant(delivery.state)} dot>
+                                {formatStatus(delivery.state)}
+                              </Badge>
+                            </div>
+                            <p className="text-xs text-gray-500">
+                              {delivery.doneDate
+                                ? `Delivered ${formatDate(delivery.doneDate)}`
+                                : `Scheduled ${formatDate(delivery.scheduledDate)}`}
+                            </p>
+                            {delivery.lines.map((line) => (
+                              <div key={line.orderLineId} className="flex justify-between text-xs">
+                                <span className="text-gray-600">{line.productName}</span>
+                                <span className="font-medium text-gray-900">
+                                  {line.doneQuantity !== undefined
+                                    ? `${line.doneQuantity} of ${line.quantity} kg`
+                                    : `${line.quantity} kg to ship`}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Returns & Credit Notes */}
+                  {selectedOrder.returns && selectedOrder.returns.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                        Returns
+                      </h3>
+                      <div className="space-y-2">
+                        {selectedOrder.returns.map((orderReturn) => (
+                          <div key={orderReturn.id} className="p-3 bg-danger-50 rounded-lg space-y-2">
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <span className="text-sm font-medium text-gray-900">
+                                  {orderReturn.creditNoteName}
+                                </span>
+                                <span className="ml-2 text-xs text-gray-500">
+                                  {RETURN_REASON_LABELS[orderReturn.reason]}
+                                </span>
+                              </div>
+                              <span className="text-sm font-semibold text-danger-600">
+                                -{formatCurrency(orderReturn.amountTotal)}
+                              </span>
+                            </div>
+                            {orderReturn.lines.map((line, index) => (
+                              <div key={index} className="flex justify-between text-xs">
+                                <span className="text-gray-600">{line.productName}</span>
+                                <span className="font-medium text-gray-900">{line.quantity} kg</span>
+                              </div>
+                            ))}
+                            <p className="text-xs text-gray-500">
+                              {orderReturn.date && formatDate(orderReturn.date)}
+                              {orderReturn.photoCount ? ` · ${orderReturn.photoCount} photo(s)` : ''}
+                              {orderReturn.notes && ` · ${orderReturn.notes}`}
+                            </p>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Delivery Address */}
                   {selectedOrder.deliveryAddress && (
                     <div>
@@ -605,9 +920,68 @@ export default function OrdersPage() {
                   >
                     Close
                   </Button>
-                  <Button variant="primary">
-                    Print Order
+                  {!isPendingSync(selectedOrder) && getAllowedActions(selectedOrder.status, role).map((action) => (
+                    <Button
+                      key={action}
+                      variant={action === 'cancel' ? 'danger' : 'secondary'}
+                      leftIcon={action === 'deliver' ? <Scale className="w-4 h-4" /> : undefined}
+                      onClick={() => handleOrderAction(action)}
+                      isLoading={pendingAction === action}
+                      disabled={pendingAction !== null && pendingAction !== action}
+                    >
+                      {ORDER_TRANSITIONS[action].label}
+                    </Button>
+                  ))}
+                  {selectedOrder.invoice?.state === 'posted' &&
+                    selectedOrder.invoice.paymentState !== 'paid' &&
+                    selectedOrder.invoice.paymentState !== 'in_payment' && (
+                    <Button
+                      variant="secondary"
+                      leftIcon={<Wallet className="w-4 h-4" />}
+                      onClick={() => setShowPaymentModal(true)}
+                    >
+                      Record Payment
+                    </Button>
+                  )}
+                  {canReturn(selectedOrder) && (
+                    <Button
+                      variant="secondary"
+                      leftIcon={<Undo2 className="w-4 h-4" />}
+                      onClick={() => setShowReturnModal(true)}
+                    >
+                      Record Return
+                    </Button>
+                  )}
+                  {MRA_CONFIG.enabled &&
+                    selectedOrder.invoice &&
+                    selectedOrder.invoice.fiscalisation?.status !== 'accepted' && (
+                    <Button
+                      variant="secondary"
+                      leftIcon={<RefreshCw className="w-4 h-4" />}
+                      onClick={handleFiscalise}
+                      isLoading={isFiscalising}
+                    >
+                      Submit to MRA
+                    </Button>
+                  )}
+                  <Button
+                    variant="secondary"
+                    leftIcon={<Printer className="w-4 h-4" />}
+                    onClick={handlePrintInvoice}
+                    disabled={!selectedOrder.invoice}
+                  >
+                    Print Invoice
                   </Button>
+                  {selectedOrder.invoice && (
+                    <Button
+                      variant="primary"
+                      leftIcon={<Download className="w-4 h-4" />}
+                      onClick={handleDownloadInvoice}
+                      isLoading={isDownloadingInvoice}
+                    >
+                      Download Invoice
+                    </Button>
+                  )}
                 </div>
               </div>
             </div>
@@ -621,6 +995,31 @@ export default function OrdersPage() {
         onClose={() => setShowCreateModal(false)}
         onSuccess={handleCreateSuccess}
       />
+
+      {/* Weighing Modal */}
+      <WeighingModal
+        isOpen={showWeighingModal}
+        order={selectedOrder}
+        onClose={() => setShowWeighingModal(false)}
+        onSuccess={handleOrderUpdated}
+      />
+
+      {/* Payment Modal */}
+      <PaymentModal
+        isOpen={showPaymentModal}
+        customer={selectedOrder && { id: selectedOrder.customerId, name: selectedOrder.customerName }}
+        invoiceId={selectedOrder?.invoice?.id}
+        onClose={() => setShowPaymentModal(false)}
+        onSuccess={() => fetchOrders()}
+      />
+
+      {/* Return Modal */}
+      <ReturnModal
+        isOpen={showReturnModal}
+        order={selectedOrder}
+        onClose={() => setShowReturnModal(false)}
+        onSuccess={handleOrderUpdated}
+      />
     </div>
   );
 }
@@ -6,6 +6,7 @@
  * - Customer analytics
  * - Product performance
  * - Inventory insights
+ * - Returns and credit notes by reason
  * - Interactive charts
  * - Export capabilities
  * 
@@ -14,7 +15,7 @@
 
 'use client';
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
   TrendingUp,
   TrendingDown,
@@ -27,6 +28,7 @@ import {
   FileText,
   BarChart3,
   PieChart,
+  Undo2,
 } from 'lucide-react';
 import {
   LineChart,
@@ -48,6 +50,9 @@ import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { formatCurrency, formatNumber } from '@/lib/utils';
 import { useNotifications } from '@/lib/stores/notificationStore';
+import { odooService } from '@/lib/odoo/odooService';
+import { RETURN_REASON_LABELS, summariseReturns } from '@/lib/orders/returns';
+import { ReturnReason } from '@/types';
 
 type DateRange = '7days' | '30days' | '90days' | 'year' | 'custom';
 
@@ -61,6 +66,21 @@ export default function ReportsPage() {
   const [customDateFrom, setCustomDateFrom] = useState('');
   const [customDateTo, setCustomDateTo] = useState('');
   const [isLoading] = useState(false);
+  const [returnsByReason, setReturnsByReason] = useState<ReturnType<typeof summariseReturns> | null>(null);
+
+  /**
+   * Load returns from the latest orders (credit notes issued against their invoices)
+   */
+  useEffect(() => {
+    odooService
+      .getOrders(undefined, 1, 100)
+      .then((response) => setReturnsByReason(summariseReturns(response.data)))
+      .catch((error) => console.error('Error loading returns:', error));
+  }, []);
+
+  const returnsTotal = returnsByReason
+    ? Object.values(returnsByReason).reduce((sum, reason) => sum + reason.amount, 0)
+    : 0;
 
   // Get mock data (replace with actual data from Odoo later)
   const {
@@ -521,6 +541,46 @@ export default function ReportsPage() {
         </Card>
       </div>
 
+      {/* Returns & Credit Notes */}
+      <Card>
+        <Card.Header>
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Returns & Credit Notes</h3>
+              <p className="text-sm text-gray-500 mt-0.5">Goods sent back, by reason</p>
+            </div>
+            <div className="text-right">
+              <p className="text-lg font-bold text-danger-600">-{formatCurrency(returnsTotal)}</p>
+              <p className="text-xs text-gray-500">
+                Net revenue {formatCurrency(kpis.totalRevenue - returnsTotal)}
+              </p>
+            </div>
+          </div>
+        </Card.Header>
+        <Card.Body>
+          {returnsByReason ? (
+            <div className="space-y-3">
+              {(Object.keys(RETURN_REASON_LABELS) as ReturnReason[]).map((reason) => (
+                <div key={reason} className="flex items-center gap-3">
+                  <div className="flex-shrink-0 w-8 h-8 bg-danger-50 rounded-lg flex items-center justify-center">
+                    <Undo2 className="w-4 h-4 text-danger-600" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900">{RETURN_REASON_LABELS[reason]}</p>
+                    <p className="text-xs text-gray-500">{formatNumber(returnsByReason[reason].count)} return(s)</p>
+                  </div>
+                  <p className="text-sm font-semibold text-gray-900">
+                    {formatCurrency(returnsByReason[reason].amount)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Loading returns...</p>
+          )}
+        </Card.Body>
+      </Card>
+
       {/* Top Customers Table */}
       <Card>
         <Card.Header>
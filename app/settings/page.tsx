@@ -5,7 +5,7 @@
  * - Personal profile settings
  * - Password management
  * - Notification preferences
- * - Sync settings
+ * - Sync settings, conflicts of offline edits and the sync queue
  * - Security options
  * - About information
  * 
@@ -34,6 +34,7 @@ import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Badge } from '@/components/ui/Badge';
+import { SyncConflicts, SyncQueueInspector } from '@/components/sync';
 import { useAuthStore } from '@/lib/stores';
 import { useSyncStore } from '@/lib/stores';
 import { useNotifications } from '@/lib/stores/notificationStore';
@@ -43,7 +44,7 @@ type SettingsTab = 'profile' | 'password' | 'notifications' | 'sync' | 'security
 
 export default function SettingsPage() {
   const { user, updateUser } = useAuthStore();
-  const { isOnline, lastSyncTime, pendingItems } = useSyncStore();
+  const { isOnline, lastSyncTime, pendingItems, failedItems } = useSyncStore();
   const notifications = useNotifications();
 
   // State
@@ -605,11 +606,25 @@ export default function SettingsPage() {
                         {pendingItems}
                       </Badge>
                     </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Failed Items:</span>
+                      <Badge variant={failedItems > 0 ? 'danger' : 'success'}>
+                        {failedItems}
+                      </Badge>
+                    </div>
                   </div>
                 </div>
 
+                {/* Sync Conflicts */}
+                <SyncConflicts />
+
+                {/* Sync Queue */}
+                <div className="pt-6 border-t border-gray-200">
+                  <SyncQueueInspector />
+                </div>
+
                 {/* Auto Sync */}
-                <div>
+                <div className="pt-6 border-t border-gray-200">
                   <label className="flex items-center justify-between mb-4">
                     <div>
                       <p className="text-sm font-medium text-gray-900">Auto Sync</p>
@@ -12,7 +12,8 @@
 import React from 'react';
 import Link from 'next/link';
 import { ArrowRight } from 'lucide-react';
-import { Card, Badge } from '@/components/ui';
+import { Card } from '@/components/ui';
+import { OrderStatusBadge } from '@/components/orders/OrderStatusBadge';
 import { Order } from '@/types';
 import { formatCurrency, formatDate } from '@/lib/utils';
 import { cn } from '@/lib/utils';
@@ -28,31 +29,6 @@ interface RecentOrdersProps {
   limit?: number;
 }
 
-/**
- * Get badge variant based on order status
- */
-const getStatusVariant = (status: Order['status']) => {
-  switch (status) {
-    case 'received':
-      return 'success';
-    case 'shipping':
-      return 'warning';
-    case 'pending':
-      return 'secondary';
-    case 'cancelled':
-      return 'danger';
-    default:
-      return 'gray';
-  }
-};
-
-/**
- * Format status text
- */
-const formatStatus = (status: Order['status']): string => {
-  return status.charAt(0).toUpperCase() + status.slice(1);
-};
-
 /**
  * Recent Orders Component
  */
@@ -152,12 +128,7 @@ export const RecentOrders: React.FC<RecentOrdersProps> = ({
                   {/* Status */}
                   <td className="px-6 py-4">
                     <div className="flex justify-center">
-                      <Badge
-                        variant={getStatusVariant(order.status)}
-                        dot
-                      >
-                        {formatStatus(order.status)}
-                      </Badge>
+                      <OrderStatusBadge status={order.status} />
                     </div>
                   </td>
                 </tr>
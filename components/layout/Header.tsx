@@ -1,7 +1,8 @@
 /**
  * Header Component
  * 
- * Top navigation bar with search, notifications, and user menu.
+ * Top navigation bar with search, active company switch, notifications,
+ * and user menu.
  * Responsive design for mobile and desktop.
  * 
  * @module components/layout/Header
@@ -9,12 +10,14 @@
 
 'use client';
 
-import React, { useState } from 'react';
-import { Search, Bell, Menu, Wifi, WifiOff, RefreshCw } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Search, Bell, Menu, Wifi, WifiOff, RefreshCw, Building2, ChevronDown, Check } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { odooService } from '@/lib/odoo/odooService';
 import { useUIStore } from '@/lib/stores/uiStore';
 import { useSyncStore } from '@/lib/stores/syncStore';
 import { useNotificationStore } from '@/lib/stores/notificationStore';
+import { useCompanyStore } from '@/lib/stores/companyStore';
 import { Badge } from '@/components/ui';
 
 /**
@@ -22,11 +25,45 @@ import { Badge } from '@/components/ui';
  */
 export const Header: React.FC = () => {
   const { toggleSidebar, isMobile } = useUIStore();
-  const { isOnline, isSyncing, pendingItems, triggerSync } = useSyncStore();
+  const { isOnline, isSyncing, pendingItems, conflicts, triggerSync } = useSyncStore();
   const notifications = useNotificationStore((state) => state.notifications);
+  const { companies, activeCompanyId, setCompanies, setActiveCompany } = useCompanyStore();
   const [showNotifications, setShowNotifications] = useState(false);
+  const [showCompanies, setShowCompanies] = useState(false);
 
   const unreadCount = notifications.filter((n) => !n.read).length;
+  const activeCompany = companies.find((c) => c.id === activeCompanyId);
+
+  /**
+   * Load the companies the user may sell for
+   */
+  useEffect(() => {
+    odooService
+      .getCompanies()
+      .then(setCompanies)
+      .catch((error) => console.error('Failed to load companies:', error));
+  }, [setCompanies]);
+
+  /**
+   * Switch the active company
+   * Queued changes are synced first when online, as they belong to the
+   * company being left; the page then reloads everything for the new one
+   */
+  const handleSwitchCompany = async (companyId: string) => {
+    setShowCompanies(false);
+    if (companyId === activeCompanyId) return;
+
+    if (pendingItems > 0) {
+      if (isOnline) {
+        await triggerSync();
+      } else if (!confirm(`${pendingItems} offline changes will sync next time ${activeCompany?.name ?? 'this company'} is active. Switch anyway?`)) {
+        return;
+      }
+    }
+
+    setActiveCompany(companyId);
+    window.location.reload();
+  };
 
   return (
     <header className="sticky top-0 z-30 bg-white border-b border-gray-200 safe-top">
@@ -59,6 +96,58 @@ export const Header: React.FC = () => {
 
         {/* Right Section */}
         <div className="flex items-center gap-2">
+          {/* Company Switch */}
+          {companies.length > 1 && (
+            <div className="relative">
+              <button
+                onClick={() => setShowCompanies(!showCompanies)}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-gray-100 transition-colors"
+                aria-label="Switch company"
+                title="Switch company"
+              >
+                <Building2 className="w-4 h-4 text-gray-700" />
+                <span className="hidden sm:inline max-w-[10rem] truncate text-xs font-medium text-gray-700">
+                  {activeCompany?.name}
+                </span>
+                <ChevronDown className="w-4 h-4 text-gray-400" />
+              </button>
+
+              {showCompanies && (
+                <>
+                  {/* Backdrop */}
+                  <div
+                    className="fixed inset-0 z-40"
+                    onClick={() => setShowCompanies(false)}
+                  />
+
+                  {/* Dropdown */}
+                  <div className="absolute right-0 mt-2 w-64 bg-white rounded-lg shadow-lg border border-gray-200 z-50 animate-slide-in-down">
+                    <div className="p-3 border-b border-gray-200">
+                      <h3 className="text-sm font-semibold text-gray-900">
+                        Selling for
+                      </h3>
+                    </div>
+                    <ul className="py-1">
+                      {companies.map((company) => (
+                        <li key={company.id}>
+                          <button
+                            onClick={() => handleSwitchCompany(company.id)}
+                            className="w-full flex items-center justify-between gap-3 px-4 py-2.5 text-left text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                          >
+                            <span className="truncate">{company.name}</span>
+                            {company.id === activeCompanyId && (
+                              <Check className="w-4 h-4 text-primary-600 flex-shrink-0" />
+                            )}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
           {/* Sync Status */}
           <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-50">
             {isOnline ? (
@@ -82,6 +171,11 @@ export const Header: React.FC = () => {
                 {pendingItems}
               </Badge>
             )}
+            {conflicts > 0 && (
+              <Badge variant="danger" size="sm" className="whitespace-nowrap">
+                {conflicts} conflict{conflicts > 1 ? 's' : ''}
+              </Badge>
+            )}
           </div>
 
           {/* Manual Sync Button */}
@@ -14,6 +14,8 @@ import { Sidebar } from './Sidebar';
 import { Header } from './Header';
 import { useUIStore } from '@/lib/stores/uiStore';
 import { useSyncStore } from '@/lib/stores/syncStore';
+import { busService } from '@/lib/realtime/busService';
+import { BUS_CONFIG } from '@/lib/config';
 import { cn } from '@/lib/utils';
 
 /**
@@ -69,6 +71,15 @@ export const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
     initializeSync();
   }, [initializeSync]);
 
+  /**
+   * Listen for changes pushed from Odoo
+   */
+  useEffect(() => {
+    if (!BUS_CONFIG.enabled) return;
+    busService.start();
+    return () => busService.stop();
+  }, []);
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Sidebar */}
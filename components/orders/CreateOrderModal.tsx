@@ -3,11 +3,15 @@
  * 
  * Full-featured order creation interface with:
  * - Customer selection with search
+ * - Customer pricelist pricing (fixed prices, % off, quantity breaks)
  * - Product search and selection
+ * - Live stock availability per line (with optional soft reservations)
+ * - Credit limit and overdue-balance check (admins can override a block)
  * - Quantity management
  * - Discount management
  * - Real-time price calculation
  * - Digital signature capture
+ * - Offline order taking (queued under a LOCAL- number until the next sync)
  * - Delivery address
  * - Order notes
  * 
@@ -31,6 +35,7 @@ import {
   CheckCircle,
   Percent,
   Edit3,
+  AlertTriangle,
 } from 'lucide-react';
 import SignatureCanvas from 'react-signature-canvas';
 import { Button } from '@/components/ui/Button';
@@ -39,9 +44,15 @@ import { Card } from '@/components/ui/Card';
 import { useCustomerStore } from '@/lib/stores/customerStore';
 import { useProductStore } from '@/lib/stores/productStore';
 import { odooService } from '@/lib/odoo/odooService';
+import { offlineService } from '@/lib/offline/offlineService';
+import { isNetworkError } from '@/lib/api/requestPipeline';
+import { SYNC_CONFIG } from '@/lib/config';
 import { useNotifications } from '@/lib/stores/notificationStore';
-import { formatCurrency, cn } from '@/lib/utils';
-import { Product, Customer } from '@/types';
+import { useAuthStore } from '@/lib/stores/authStore';
+import { resolveUnitPrice } from '@/lib/pricing/pricelist';
+import { checkCredit, canOverrideCredit } from '@/lib/orders/creditCheck';
+import { formatCurrency, cn, generateId } from '@/lib/utils';
+import { Product, Customer, Pricelist, StockAvailability, CreateOrderData } from '@/types';
 
 interface CreateOrderModalProps {
   isOpen: boolean;
@@ -55,6 +66,9 @@ interface OrderItem {
   productImage: string;
   quantity: number;
   unitPrice: number;
+  listPrice: number;
+  // Pricelist rule only Odoo can compute: the list price is an estimate
+  pricedByOdoo?: boolean;
   discount: number;
   subtotal: number;
 }
@@ -67,6 +81,8 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
   const { customers, fetchCustomers } = useCustomerStore();
   const { products, fetchProducts } = useProductStore();
   const notifications = useNotifications();
+  const { user } = useAuthStore();
+  const mayOverrideCredit = canOverrideCredit(user?.role ?? 'salesman');
   
   // Signature ref
   const signatureRef = useRef<SignatureCanvas>(null);
@@ -80,8 +96,12 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
   const [showProductDropdown, setShowProductDropdown] = useState(false);
 
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
+  const [pricelists, setPricelists] = useState<Pricelist[]>([]);
+  const [availability, setAvailability] = useState<Record<string, StockAvailability>>({});
   const [deliveryAddress, setDeliveryAddress] = useState('');
   const [notes, setNotes] = useState('');
+  // Why an admin lets a blocked order through
+  const [overrideReason, setOverrideReason] = useState('');
 
   const [currentStep, setCurrentStep] = useState<'items' | 'signature'>('items');
   const [signatureData, setSignatureData] = useState<string>('');
@@ -94,9 +114,70 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
       fetchCustomers();
       fetchProducts();
       setCurrentStep('items');
+      odooService.getPricelists()
+        .then(setPricelists)
+        .catch(() => setPricelists([]));
     }
   }, [isOpen, fetchCustomers, fetchProducts]);
 
+  // Pricelist negotiated with the selected customer
+  const customerPricelist = useMemo(
+    () => pricelists.find((pricelist) => pricelist.id === selectedCustomer?.pricelistId),
+    [pricelists, selectedCustomer]
+  );
+
+  // Price an item for a quantity and discount (quantity breaks may change the unit price)
+  const priceItem = (
+    item: OrderItem,
+    quantity: number,
+    discount: number,
+    pricelist: Pricelist | undefined = customerPricelist
+  ): OrderItem => {
+    const product = products.find((p) => p.id === item.productId);
+    const { unitPrice, pricedByOdoo } = product
+      ? resolveUnitPrice(pricelist, product, quantity)
+      : item;
+    return {
+      ...item,
+      quantity,
+      discount,
+      unitPrice,
+      pricedByOdoo,
+      subtotal: unitPrice * quantity * (1 - discount / 100),
+    };
+  };
+
+  // Merge fresh stock levels into the known availability
+  const mergeAvailability = (levels: StockAvailability[]) => {
+    setAvailability((current) => ({
+      ...current,
+      ...Object.fromEntries(levels.map((level) => [level.productId, level])),
+    }));
+  };
+
+  // Check live stock for products (and hold the line's quantity when enabled)
+  const updateStock = async (productId: string, quantity: number) => {
+    try {
+      const held = await odooService.reserveStock(productId, quantity);
+      mergeAvailability(held ? [held] : await odooService.getStockAvailability([productId]));
+    } catch (error) {
+      console.warn('Stock availability unavailable:', error);
+    }
+  };
+
+  // Lines asking for more than is available
+  const stockWarnings = useMemo(() => {
+    const warnings: Record<string, string> = {};
+    orderItems.forEach((item) => {
+      const level = availability[item.productId];
+      if (!level || item.quantity <= level.available) return;
+      warnings[item.productId] = level.available > 0
+        ? `Only ${level.available} available${level.softReserved > 0 ? ` (${level.softReserved} held by other salesmen)` : ''}`
+        : 'Out of stock';
+    });
+    return warnings;
+  }, [orderItems, availability]);
+
   // Filter customers based on search
   const filteredCustomers = useMemo(() => {
     if (!customerSearch) return customers.slice(0, 10);
@@ -133,9 +214,18 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
     return { subtotal, tax, total, totalDiscount };
   }, [orderItems]);
 
+  // Credit limit and overdue check for the selected customer
+  const creditCheck = useMemo(
+    () => (selectedCustomer ? checkCredit(selectedCustomer, total) : null),
+    [selectedCustomer, total]
+  );
+
   // Handle customer selection
   const handleSelectCustomer = (customer: Customer) => {
     setSelectedCustomer(customer);
+    // Re-price items already in the cart with the new customer's pricelist
+    const pricelist = pricelists.find((p) => p.id === customer.pricelistId);
+    setOrderItems(orderItems.map((item) => priceItem(item, item.quantity, item.discount, pricelist)));
     setCustomerSearch(customer.name);
     setShowCustomerDropdown(false);
     // Auto-fill delivery address if available
@@ -154,16 +244,20 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
       handleUpdateQuantity(product.id, existingItem.quantity + 1);
     } else {
       // Add new item
+      const { unitPrice, listPrice, pricedByOdoo } = resolveUnitPrice(customerPricelist, product, 1);
       const newItem: OrderItem = {
         productId: product.id,
         productName: product.name,
         productImage: product.image,
         quantity: 1,
-        unitPrice: product.price,
+        unitPrice,
+        listPrice,
+        pricedByOdoo,
         discount: 0,
-        subtotal: product.price,
+        subtotal: unitPrice,
       };
       setOrderItems([...orderItems, newItem]);
+      updateStock(product.id, newItem.quantity);
     }
 
     setProductSearch('');
@@ -177,14 +271,11 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
     setOrderItems(
       orderItems.map((item) =>
         item.productId === productId
-          ? {
-              ...item,
-              quantity: newQuantity,
-              subtotal: item.unitPrice * newQuantity * (1 - item.discount / 100),
-            }
+          ? priceItem(item, newQuantity, item.discount)
           : item
       )
     );
+    updateStock(productId, newQuantity);
   };
 
   // Update item discount
@@ -208,6 +299,7 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
   // Remove item from cart
   const handleRemoveItem = (productId: string) => {
     setOrderItems(orderItems.filter((item) => item.productId !== productId));
+    odooService.releaseStock([productId]);
   };
 
   // Clear signature
@@ -246,6 +338,17 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
       return false;
     }
 
+    if (creditCheck?.level === 'block') {
+      if (!mayOverrideCredit) {
+        notifications.error('Credit Check Failed', `${creditCheck.reasons[0]}. Ask an administrator to approve the order.`);
+        return false;
+      }
+      if (!overrideReason.trim()) {
+        notifications.error('Override Reason Required', 'Please give a reason for overriding the credit check');
+        return false;
+      }
+    }
+
     return true;
   };
 
@@ -262,9 +365,27 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
     setIsSubmitting(true);
 
     try {
+      // Re-check stock: other orders may have taken it since the lines were added
+      const levels = await odooService
+        .getStockAvailability(orderItems.map((item) => item.productId))
+        .catch((): StockAvailability[] => []);
+      mergeAvailability(levels);
+      const shortItems = orderItems.filter((item) => {
+        const level = levels.find((l) => l.productId === item.productId);
+        return level !== undefined && item.quantity > level.available;
+      });
+      if (shortItems.length > 0) {
+        notifications.error(
+          'Insufficient Stock',
+          `Not enough stock for ${shortItems.map((item) => item.productName).join(', ')}`
+        );
+        return;
+      }
+
       // Prepare order data
-      const orderData = {
+      const orderData: CreateOrderData = {
         customerId: selectedCustomer!.id,
+        customerName: selectedCustomer!.name,
         items: orderItems.map((item) => ({
           productId: item.productId,
           productName: item.productName,
@@ -276,17 +397,40 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
         deliveryAddress: deliveryAddress || undefined,
         notes: notes || undefined,
         signature: signatureData || undefined,
+        salespersonId: user?.id,
+        salespersonName: user?.name,
+        creditOverride: creditCheck?.level === 'block' && user
+          ? { approvedBy: user.name, reason: overrideReason.trim(), approvedAt: new Date().toISOString() }
+          : undefined,
       };
 
-      // Create order via Odoo service
-      const result = await odooService.createOrder(orderData);
+      // Without signal (or when Odoo cannot be reached) the order is queued
+      // under a local number and created in Odoo on the next sync. Both go
+      // under one key, so an order that did reach Odoo is not created twice.
+      const idempotencyKey = generateId();
+      let result: Awaited<ReturnType<typeof odooService.createOrder>> | null = null;
+      if (!SYNC_CONFIG.enabled || offlineService.isCurrentlyOnline()) {
+        try {
+          result = await odooService.createOrder(orderData, idempotencyKey);
+        } catch (error) {
+          if (!SYNC_CONFIG.enabled || !isNetworkError(error)) throw error;
+        }
+      }
 
-      notifications.success(
-        'Success',
-        saveAsDraft
-          ? 'Order saved as draft successfully'
-          : `Order created successfully! Invoice: ${result.invoice?.name || 'Pending'}`
-      );
+      if (!result) {
+        const offlineOrder = await offlineService.createOfflineOrder(orderData, idempotencyKey);
+        notifications.warning(
+          'Saved Offline',
+          `Order ${offlineOrder.orderNumber} is pending sync and will be sent to Odoo once you are back online`
+        );
+      } else {
+        notifications.success(
+          'Success',
+          saveAsDraft
+            ? 'Order saved as draft successfully'
+            : `Order created successfully! Invoice: ${result.invoice?.name || 'Pending'}`
+        );
+      }
 
       // Reset form
       handleReset();
@@ -306,8 +450,10 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
     setCustomerSearch('');
     setProductSearch('');
     setOrderItems([]);
+    setAvailability({});
     setDeliveryAddress('');
     setNotes('');
+    setOverrideReason('');
     setSignatureData('');
     setCurrentStep('items');
     signatureRef.current?.clear();
@@ -317,6 +463,7 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
   const handleClose = () => {
     if (orderItems.length > 0 || signatureData) {
       if (confirm('You have unsaved changes. Are you sure you want to close?')) {
+        odooService.releaseStock();
         handleReset();
         onClose();
       }
@@ -437,11 +584,19 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
                           <p className="text-xs text-gray-600">
                             {selectedCustomer.email} • {selectedCustomer.phone}
                           </p>
+                          {customerPricelist && (
+                            <p className="text-xs text-primary-700 mt-1">
+                              Pricelist: {customerPricelist.name}
+                            </p>
+                          )}
                         </div>
                         <button
                           onClick={() => {
                             setSelectedCustomer(null);
                             setCustomerSearch('');
+                            setOrderItems(orderItems.map((item) =>
+                              priceItem(item, item.quantity, item.discount, undefined)
+                            ));
                           }}
                           className="p-1 hover:bg-primary-100 rounded transition-colors"
                         >
@@ -449,6 +604,58 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
                         </button>
                       </div>
                     )}
+
+                    {/* Credit Check */}
+                    {selectedCustomer && (
+                      <p className="mt-2 text-xs text-gray-600">
+                        Balance {formatCurrency(selectedCustomer.balance ?? 0)}
+                        {selectedCustomer.creditLimit
+                          ? ` of ${formatCurrency(selectedCustomer.creditLimit)} credit limit`
+                          : ' (no credit limit)'}
+                      </p>
+                    )}
+                    {creditCheck && creditCheck.level !== 'ok' && (
+                      <div
+                        className={cn(
+                          'mt-3 p-4 rounded-lg border',
+                          creditCheck.level === 'block'
+                            ? 'bg-danger-50 border-danger-200'
+                            : 'bg-warning-50 border-warning-200'
+                        )}
+                      >
+                        <div className="flex items-start gap-3">
+                          <AlertTriangle
+                            className={cn(
+                              'w-5 h-5 flex-shrink-0',
+                              creditCheck.level === 'block' ? 'text-danger-600' : 'text-warning-600'
+                            )}
+                          />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-semibold text-gray-900">
+                              {creditCheck.level === 'block'
+                                ? mayOverrideCredit
+                                  ? 'Credit check failed - your approval is required'
+                                  : 'Credit check failed - an administrator must approve this order'
+                                : 'Credit warning'}
+                            </p>
+                            <ul className="mt-1 text-xs text-gray-700 list-disc list-inside">
+                              {creditCheck.reasons.map((reason) => (
+                                <li key={reason}>{reason}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        </div>
+                        {creditCheck.level === 'block' && mayOverrideCredit && (
+                          <textarea
+                            value={overrideReason}
+                            onChange={(e) => setOverrideReason(e.target.value)}
+                            placeholder="Reason for approving this order (recorded on the order)..."
+                            rows={2}
+                            className="mt-3 w-full px-4 py-2.5 rounded-lg bg-white border border-gray-300 text-gray-900 placeholder-gray-400 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
+                          />
+                        )}
+                      </div>
+                    )}
                   </div>
 
                   {/* Product Selection */}
@@ -533,6 +740,14 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
                                 </p>
                                 <p className="text-xs text-gray-500">
                                   {formatCurrency(item.unitPrice)} each
+                                  {item.unitPrice < item.listPrice && (
+                                    <span className="ml-1 line-through text-gray-400">
+                                      {formatCurrency(item.listPrice)}
+                                    </span>
+                                  )}
+                                  {item.pricedByOdoo && (
+                                    <span className="ml-1 text-warning-600">(estimate, priced by Odoo)</span>
+                                  )}
                                 </p>
                               </div>
 
@@ -590,6 +805,14 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
                               </button>
                             </div>
 
+                            {/* Stock Warning */}
+                            {stockWarnings[item.productId] && (
+                              <div className="flex items-center gap-2 pl-[70px] text-xs font-medium text-warning-700">
+                                <AlertTriangle className="w-4 h-4" />
+                                {stockWarnings[item.productId]}
+                              </div>
+                            )}
+
                             {/* Bottom Row: Discount Field */}
                             <div className="flex items-center gap-3 pl-[70px]">
                               <Percent className="w-4 h-4 text-gray-400" />
@@ -841,9 +1064,14 @@ export const CreateOrderModal: React.FC<CreateOrderModalProps> = ({
                     variant="primary"
                     onClick={() => handleSubmit(false)}
                     isLoading={isSubmitting}
-                    disabled={!selectedCustomer || orderItems.length === 0 || !signatureData}
+                    disabled={
+                      !selectedCustomer ||
+                      orderItems.length === 0 ||
+                      !signatureData ||
+                      (creditCheck?.level === 'block' && !mayOverrideCredit)
+                    }
                   >
-                    Create Order
+                    {creditCheck?.level === 'block' && mayOverrideCredit ? 'Approve & Create Order' : 'Create Order'}
                   </Button>
                 </>
               ) : (
@@ -0,0 +1,66 @@
+/**
+ * Order Status Badge Component
+ *
+ * Badge showing an order's lifecycle status with a consistent color per status,
+ * and the badge flagging orders taken offline that are waiting to sync.
+ *
+ * @module components/orders/OrderStatusBadge
+ */
+
+import React from 'react';
+import { Badge, BadgeVariant } from '@/components/ui';
+import { ORDER_STATUS_LABELS, isPendingSync } from '@/lib/orders/orderLifecycle';
+import { Order, OrderStatus } from '@/types';
+
+/**
+ * Badge variant of each order status
+ */
+export const ORDER_STATUS_VARIANTS: Record<OrderStatus, BadgeVariant> = {
+  quotation: 'gray',
+  confirmed: 'primary',
+  partially_delivered: 'warning',
+  delivered: 'info',
+  invoiced: 'secondary',
+  paid: 'success',
+  cancelled: 'danger',
+};
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus;
+  size?: 'sm' | 'md' | 'lg';
+}
+
+/**
+ * Order Status Badge
+ *
+ * @example
+ * <OrderStatusBadge status="partially_delivered" />
+ */
+export const OrderStatusBadge: React.FC<OrderStatusBadgeProps> = ({ status, size }) => {
+  return (
+    <Badge variant={ORDER_STATUS_VARIANTS[status]} size={size} dot>
+      {ORDER_STATUS_LABELS[status]}
+    </Badge>
+  );
+};
+
+interface PendingSyncBadgeProps {
+  order: Pick<Order, 'syncStatus'>;
+  size?: 'sm' | 'md' | 'lg';
+}
+
+/**
+ * Pending Sync Badge (renders nothing once the order is in Odoo)
+ *
+ * @example
+ * <PendingSyncBadge order={order} size="sm" />
+ */
+export const PendingSyncBadge: React.FC<PendingSyncBadgeProps> = ({ order, size }) => {
+  if (!isPendingSync(order)) return null;
+
+  return (
+    <Badge variant={order.syncStatus === 'failed' ? 'danger' : 'warning'} size={size}>
+      {order.syncStatus === 'failed' ? 'Sync failed' : 'Pending sync'}
+    </Badge>
+  );
+};
@@ -0,0 +1,318 @@
+/**
+ * Return Modal Component
+ *
+ * Records goods sent back by a customer (spoiled or wrongly cut meat):
+ * - Returned kg per order line, up to what was billed and not yet returned
+ * - Reason code and optional notes
+ * - Optional photos of the returned goods
+ * - Issues a credit note against the order's invoice on save
+ *
+ * @module components/orders/ReturnModal
+ */
+
+'use client';
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { X, Undo2, Camera } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { odooService } from '@/lib/odoo/odooService';
+import { useNotifications } from '@/lib/stores/notificationStore';
+import {
+  RETURN_REASON_LABELS,
+  priceReturnLines,
+  returnTotals,
+  returnableQuantities,
+} from '@/lib/orders/returns';
+import { formatCurrency } from '@/lib/utils';
+import { Order, ReturnReason } from '@/types';
+
+interface ReturnModalProps {
+  isOpen: boolean;
+  order: Order | null;
+  onClose: () => void;
+  onSuccess: (order: Order) => void;
+}
+
+/**
+ * Maximum number of photos attached to a return
+ */
+const MAX_PHOTOS = 4;
+
+/**
+ * Read an image file as a data URL
+ */
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export const ReturnModal: React.FC<ReturnModalProps> = ({
+  isOpen,
+  order,
+  onClose,
+  onSuccess,
+}) => {
+  const notifications = useNotifications();
+
+  // Returned quantity per line ID, kept as text while typing
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState<ReturnReason>('spoiled');
+  const [notes, setNotes] = useState('');
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const returnable = useMemo(() => (order ? returnableQuantities(order) : {}), [order]);
+
+  // Start from an empty return every time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setQuantities({});
+      setReason('spoiled');
+      setNotes('');
+      setPhotos([]);
+    }
+  }, [isOpen, order]);
+
+  const lines = useMemo(
+    () => Object.entries(quantities).map(([orderLineId, value]) => ({
+      orderLineId,
+      quantity: parseFloat(value) || 0,
+    })),
+    [quantities]
+  );
+
+  const pricedLines = useMemo(() => (order ? priceReturnLines(order, lines) : []), [order, lines]);
+  const totals = returnTotals(pricedLines);
+
+  const hasExcess = lines.some((line) => line.quantity > (returnable[line.orderLineId] ?? 0));
+  const isValid = pricedLines.length > 0 && !hasExcess;
+
+  const handleAddPhotos = async (files: FileList | null) => {
+    if (!files) return;
+    try {
+      const added = await Promise.all(
+        Array.from(files).slice(0, MAX_PHOTOS - photos.length).map(readAsDataUrl)
+      );
+      setPhotos([...photos, ...added]);
+    } catch (error) {
+      console.error('Error reading photos:', error);
+      notifications.error('Error', 'Failed to read the selected photos');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!order || !isValid) {
+      notifications.error('Validation Error', 'Enter the returned quantity of at least one line');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const updated = await odooService.createReturn(order, {
+        reason,
+        notes: notes.trim() || undefined,
+        lines: lines.filter((line) => line.quantity > 0),
+        photos,
+      });
+      const creditNote = updated.returns?.[updated.returns.length - 1];
+      notifications.success(
+        'Return Recorded',
+        `${creditNote?.creditNoteName ?? 'Credit note'} issued for ${formatCurrency(totals.total)}`
+      );
+      onSuccess(updated);
+      onClose();
+    } catch (error) {
+      console.error('Error recording return:', error);
+      notifications.error('Error', 'Failed to record the return. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen || !order) return null;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/50 z-40 animate-fade-in"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 overflow-y-auto">
+        <div className="flex min-h-full items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden animate-scale-in">
+            {/* Header */}
+            <div className="sticky top-0 bg-gradient-to-r from-primary-600 to-secondary-600 px-6 py-4 flex items-center justify-between z-10">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-white/20 rounded-lg flex items-center justify-center">
+                  <Undo2 className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-bold text-white">Record Return</h2>
+                  <p className="text-sm text-white/80">
+                    {order.orderNumber} · {order.invoice?.name}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+              >
+                <X className="w-6 h-6 text-white" />
+              </button>
+            </div>
+
+            {/* Body */}
+            <div className="p-6 space-y-4 overflow-y-auto max-h-[calc(90vh-200px)]">
+              {order.items.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex items-center gap-4 p-4 bg-gray-50 rounded-lg"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{item.productName}</p>
+                    <p className="text-sm text-gray-600">
+                      Up to {returnable[item.id]} kg × {formatCurrency(item.unitPrice)}
+                    </p>
+                  </div>
+                  <div className="w-32">
+                    <Input
+                      type="number"
+                      min="0"
+                      max={returnable[item.id]}
+                      step="0.001"
+                      value={quantities[item.id] ?? ''}
+                      placeholder="0"
+                      disabled={returnable[item.id] === 0}
+                      onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                      error={
+                        parseFloat(quantities[item.id]) > returnable[item.id]
+                          ? `Max ${returnable[item.id]} kg`
+                          : undefined
+                      }
+                      rightIcon={<span className="text-xs text-gray-500">kg</span>}
+                      aria-label={`Returned quantity of ${item.productName}`}
+                    />
+                  </div>
+                </div>
+              ))}
+
+              {/* Reason */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                  Reason *
+                </label>
+                <select
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value as ReturnReason)}
+                  className="w-full px-4 py-2.5 rounded-lg bg-white border border-gray-300 text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all"
+                >
+                  {(Object.keys(RETURN_REASON_LABELS) as ReturnReason[]).map((code) => (
+                    <option key={code} value={code}>
+                      {RETURN_REASON_LABELS[code]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Notes */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                  Notes
+                </label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="What was wrong with the goods..."
+                  rows={2}
+                  className="w-full px-4 py-2.5 rounded-lg bg-white border border-gray-300 text-gray-900 placeholder-gray-400 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
+                />
+              </div>
+
+              {/* Photos */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                  Photos ({photos.length}/{MAX_PHOTOS})
+                </label>
+                <div className="flex flex-wrap gap-3">
+                  {photos.map((photo, index) => (
+                    <div key={index} className="relative w-20 h-20">
+                      <img
+                        src={photo}
+                        alt={`Returned goods ${index + 1}`}
+                        className="w-20 h-20 object-cover rounded-lg border border-gray-200"
+                      />
+                      <button
+                        onClick={() => setPhotos(photos.filter((_, i) => i !== index))}
+                        className="absolute -top-2 -right-2 p-1 bg-white rounded-full shadow border border-gray-200"
+                        aria-label="Remove photo"
+                      >
+                        <X className="w-3 h-3 text-gray-600" />
+                      </button>
+                    </div>
+                  ))}
+                  {photos.length < MAX_PHOTOS && (
+                    <label className="w-20 h-20 flex flex-col items-center justify-center gap-1 rounded-lg border-2 border-dashed border-gray-300 text-gray-500 cursor-pointer hover:border-primary-500 hover:text-primary-600 transition-colors">
+                      <Camera className="w-5 h-5" />
+                      <span className="text-xs">Add</span>
+                      <input
+                        type="file"
+                        accept="image/*"
+                        capture="environment"
+                        multiple
+                        className="hidden"
+                        onChange={(e) => {
+                          handleAddPhotos(e.target.files);
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                  )}
+                </div>
+              </div>
+
+              {/* Credit Note Totals */}
+              <div className="border-t border-gray-200 pt-4 space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Subtotal</span>
+                  <span className="font-medium text-gray-900">{formatCurrency(totals.subtotal)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">VAT</span>
+                  <span className="font-medium text-gray-900">{formatCurrency(totals.tax)}</span>
+                </div>
+                <div className="flex justify-between text-lg font-bold">
+                  <span className="text-gray-900">Credited</span>
+                  <span className="text-danger-600">-{formatCurrency(totals.total)}</span>
+                </div>
+              </div>
+            </div>
+
+            {/* Footer */}
+            <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex justify-end gap-3">
+              <Button variant="secondary" onClick={onClose} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                onClick={handleSubmit}
+                isLoading={isSubmitting}
+                disabled={!isValid}
+              >
+                Issue Credit Note
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,237 @@
+/**
+ * Weighing Modal Component
+ *
+ * Records the actual weight delivered for each order line (catch-weight):
+ * - One kg entry per line, prefilled with the quantity still to ship
+ * - Live re-pricing of subtotal, VAT and total on the delivered weights
+ * - Optional backorder for whatever is short (partial delivery)
+ * - Validates the delivery and re-invoices the order on save
+ *
+ * @module components/orders/WeighingModal
+ */
+
+'use client';
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { X, Scale } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { odooService } from '@/lib/odoo/odooService';
+import { useNotifications } from '@/lib/stores/notificationStore';
+import { applyDeliveredWeights } from '@/lib/pricing/orderTotals';
+import { remainingQuantities, shippedQuantities } from '@/lib/orders/deliveries';
+import { formatCurrency } from '@/lib/utils';
+import { Order } from '@/types';
+
+interface WeighingModalProps {
+  isOpen: boolean;
+  order: Order | null;
+  onClose: () => void;
+  onSuccess: (order: Order) => void;
+}
+
+export const WeighingModal: React.FC<WeighingModalProps> = ({
+  isOpen,
+  order,
+  onClose,
+  onSuccess,
+}) => {
+  const notifications = useNotifications();
+
+  // Weight entered per line ID, kept as text while typing
+  const [weights, setWeights] = useState<Record<string, string>>({});
+  const [createBackorder, setCreateBackorder] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // What earlier deliveries shipped, and what is left to ship
+  const shipped = useMemo(() => (order ? shippedQuantities(order) : {}), [order]);
+  const remaining = useMemo(() => (order ? remainingQuantities(order) : {}), [order]);
+
+  // Prefill with the quantity still to ship
+  useEffect(() => {
+    if (isOpen && order) {
+      setWeights(
+        Object.fromEntries(order.items.map((item) => [item.id, String(remaining[item.id])]))
+      );
+      setCreateBackorder(false);
+    }
+  }, [isOpen, order, remaining]);
+
+  const parsedWeights = useMemo(() => {
+    const parsed: Record<string, number> = {};
+    for (const [lineId, value] of Object.entries(weights)) {
+      const weight = parseFloat(value);
+      if (value.trim() !== '' && weight >= 0) {
+        parsed[lineId] = weight;
+      }
+    }
+    return parsed;
+  }, [weights]);
+
+  const isComplete = order !== null && order.items.every((item) => parsedWeights[item.id] !== undefined);
+
+  // Preview of the order priced on everything shipped once this delivery is done
+  const preview = useMemo(() => {
+    if (!order) return null;
+    const totalWeights = Object.fromEntries(
+      Object.entries(parsedWeights).map(([lineId, weight]) => [lineId, (shipped[lineId] ?? 0) + weight])
+    );
+    return applyDeliveredWeights(order, totalWeights);
+  }, [order, parsedWeights, shipped]);
+
+  // Lines shipping less than what is left (kept open when backordering)
+  const hasShortLines = order !== null && order.items.some(
+    (item) => (parsedWeights[item.id] ?? 0) < remaining[item.id]
+  );
+
+  const handleSubmit = async () => {
+    if (!order || !isComplete) {
+      notifications.error('Validation Error', 'Please enter a valid weight for every line');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const backorder = createBackorder && hasShortLines;
+      const updated = await odooService.recordDeliveredWeights(order, parsedWeights, backorder);
+      notifications.success(
+        'Weights Recorded',
+        backorder
+          ? `${order.orderNumber} partially delivered, the rest is backordered`
+          : `${order.orderNumber} re-invoiced at ${formatCurrency(updated.total)}`
+      );
+      onSuccess(updated);
+      onClose();
+    } catch (error) {
+      console.error('Error recording weights:', error);
+      notifications.error('Error', 'Failed to record delivered weights. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen || !order || !preview) return null;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/50 z-40 animate-fade-in"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 overflow-y-auto">
+        <div className="flex min-h-full items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden animate-scale-in">
+            {/* Header */}
+            <div className="sticky top-0 bg-gradient-to-r from-primary-600 to-secondary-600 px-6 py-4 flex items-center justify-between z-10">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-white/20 rounded-lg flex items-center justify-center">
+                  <Scale className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-bold text-white">Record Delivered Weights</h2>
+                  <p className="text-sm text-white/80">
+                    {order.orderNumber} · {order.customerName}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+              >
+                <X className="w-6 h-6 text-white" />
+              </button>
+            </div>
+
+            {/* Body */}
+            <div className="p-6 space-y-4 overflow-y-auto max-h-[calc(90vh-200px)]">
+              {preview.items.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex items-center gap-4 p-4 bg-gray-50 rounded-lg"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{item.productName}</p>
+                    <p className="text-sm text-gray-600">
+                      Ordered {item.quantity} kg × {formatCurrency(item.unitPrice)}
+                      {shipped[item.id] !== undefined && ` · Shipped ${shipped[item.id]} kg`}
+                    </p>
+                  </div>
+                  <div className="w-32">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      value={weights[item.id] ?? ''}
+                      onChange={(e) => setWeights({ ...weights, [item.id]: e.target.value })}
+                      rightIcon={<span className="text-xs text-gray-500">kg</span>}
+                      aria-label={`Delivered weight of ${item.productName}`}
+                    />
+                  </div>
+                  <p className="w-28 text-right font-semibold text-gray-900">
+                    {formatCurrency(item.subtotal)}
+                  </p>
+                </div>
+              ))}
+
+              {/* Backorder */}
+              {hasShortLines && (
+                <label className="flex items-start gap-3 p-4 bg-warning-50 rounded-lg cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={createBackorder}
+                    onChange={(e) => setCreateBackorder(e.target.checked)}
+                    className="mt-1 w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="text-sm text-gray-700">
+                    Some lines ship less than ordered. Create a backorder to deliver the rest later
+                    (otherwise the difference is dropped as weight variance).
+                  </span>
+                </label>
+              )}
+
+              {/* Re-priced Totals */}
+              <div className="border-t border-gray-200 pt-4 space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Subtotal</span>
+                  <span className="font-medium text-gray-900">{formatCurrency(preview.subtotal)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">VAT</span>
+                  <span className="font-medium text-gray-900">{formatCurrency(preview.tax)}</span>
+                </div>
+                <div className="flex justify-between text-lg font-bold">
+                  <span className="text-gray-900">Total</span>
+                  <span className="text-primary-600">{formatCurrency(preview.total)}</span>
+                </div>
+                {preview.total !== order.total && (
+                  <p className="text-sm text-gray-600 text-right">
+                    Ordered total {formatCurrency(order.total)}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* Footer */}
+            <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex justify-end gap-3">
+              <Button variant="secondary" onClick={onClose} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                onClick={handleSubmit}
+                isLoading={isSubmitting}
+                disabled={!isComplete}
+              >
+                Save Weights
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
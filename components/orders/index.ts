@@ -5,3 +5,6 @@
  */
 
 export { CreateOrderModal } from './CreateOrderModal';
+export { WeighingModal } from './WeighingModal';
+export { ReturnModal } from './ReturnModal';
+export { OrderStatusBadge, PendingSyncBadge } from './OrderStatusBadge';
@@ -0,0 +1,316 @@
+/**
+ * Payment Modal Component
+ *
+ * Records a payment collected at the customer site:
+ * - Method (cash, cheque, MCB Juice) with its reference
+ * - Amount received, allocated across the customer's open invoices
+ *   (oldest first by default, adjustable per invoice)
+ * - Whatever is not allocated stays on account as an advance
+ * - Queued for sync when offline; the receipt PDF is downloaded either way
+ *
+ * @module components/payments/PaymentModal
+ */
+
+'use client';
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { X, Wallet, Banknote, FileText, Smartphone } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { odooService } from '@/lib/odoo/odooService';
+import { useNotifications } from '@/lib/stores/notificationStore';
+import {
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_REFERENCE_LABELS,
+  allocatedAmount,
+  autoAllocate,
+  validatePayment,
+} from '@/lib/payments/allocation';
+import { downloadPaymentReceipt } from '@/lib/pdf/paymentReceipt';
+import { formatCurrency, formatDate, cn } from '@/lib/utils';
+import { Customer, OpenInvoice, Payment, PaymentMethod } from '@/types';
+
+interface PaymentModalProps {
+  isOpen: boolean;
+  customer: Pick<Customer, 'id' | 'name'> | null;
+  // Invoice being paid, when opened from an order
+  invoiceId?: string;
+  onClose: () => void;
+  onSuccess?: (payment: Payment) => void;
+}
+
+const METHOD_ICONS: Record<PaymentMethod, React.ReactNode> = {
+  cash: <Banknote className="w-5 h-5" />,
+  cheque: <FileText className="w-5 h-5" />,
+  mcb_juice: <Smartphone className="w-5 h-5" />,
+};
+
+export const PaymentModal: React.FC<PaymentModalProps> = ({
+  isOpen,
+  customer,
+  invoiceId,
+  onClose,
+  onSuccess,
+}) => {
+  const notifications = useNotifications();
+
+  const [invoices, setInvoices] = useState<OpenInvoice[]>([]);
+  const [isLoadingInvoices, setIsLoadingInvoices] = useState(false);
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [amount, setAmount] = useState('');
+  const [reference, setReference] = useState('');
+  // Amount allocated per invoice ID, kept as text while typing
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Load the customer's open invoices when the modal opens
+  useEffect(() => {
+    if (!isOpen || !customer) return;
+
+    setMethod('cash');
+    setReference('');
+    setAmount('');
+    setAllocations({});
+    setIsLoadingInvoices(true);
+
+    odooService
+      .getOpenInvoices(customer.id)
+      .then((openInvoices) => {
+        setInvoices(openInvoices);
+        const invoice = openInvoices.find((candidate) => candidate.id === invoiceId);
+        if (invoice) {
+          setAmount(String(invoice.amountResidual));
+          setAllocations({ [invoice.id]: String(invoice.amountResidual) });
+        }
+      })
+      .catch(() => {
+        setInvoices([]);
+        notifications.warning('Invoices Unavailable', 'The payment will be recorded on account');
+      })
+      .finally(() => setIsLoadingInvoices(false));
+  }, [isOpen, customer?.id, invoiceId]);
+
+  const parsedAmount = parseFloat(amount) || 0;
+
+  const allocationList = useMemo(
+    () => invoices
+      .map((invoice) => ({
+        invoiceId: invoice.id,
+        invoiceName: invoice.name,
+        amount: parseFloat(allocations[invoice.id]) || 0,
+      }))
+      .filter((allocation) => allocation.amount > 0),
+    [invoices, allocations]
+  );
+
+  const allocated = allocatedAmount(allocationList);
+  const onAccount = Math.round((parsedAmount - allocated) * 100) / 100;
+
+  const paymentData = customer && {
+    customerId: customer.id,
+    customerName: customer.name,
+    method,
+    amount: parsedAmount,
+    reference: reference.trim() || undefined,
+    allocations: allocationList,
+  };
+  const validationError = paymentData ? validatePayment(paymentData, invoices) : null;
+
+  const handleAmountChange = (value: string) => {
+    setAmount(value);
+    // Spread the new amount over the oldest invoices
+    setAllocations(Object.fromEntries(
+      autoAllocate(parseFloat(value) || 0, invoices).map((allocation) => [allocation.invoiceId, String(allocation.amount)])
+    ));
+  };
+
+  const handleSubmit = async () => {
+    if (!paymentData || validationError) {
+      notifications.error('Validation Error', validationError ?? 'Please complete the payment');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const payment = await odooService.recordPayment(paymentData);
+      if (payment.syncStatus === 'pending') {
+        notifications.warning('Saved Offline', `${payment.receiptNumber} will be posted when back online`);
+      } else {
+        notifications.success('Payment Recorded', `${formatCurrency(payment.amount)} received from ${payment.customerName}`);
+      }
+
+      await downloadPaymentReceipt(payment).catch((error) => {
+        console.error('Error generating receipt:', error);
+        notifications.error('Receipt Error', 'The payment was recorded but the receipt could not be generated');
+      });
+
+      onSuccess?.(payment);
+      onClose();
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      notifications.error('Error', 'Failed to record the payment. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen || !customer) return null;
+
+  const referenceLabel = PAYMENT_REFERENCE_LABELS[method];
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/50 z-40 animate-fade-in"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 overflow-y-auto">
+        <div className="flex min-h-full items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden animate-scale-in">
+            {/* Header */}
+            <div className="sticky top-0 bg-gradient-to-r from-primary-600 to-secondary-600 px-6 py-4 flex items-center justify-between z-10">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-white/20 rounded-lg flex items-center justify-center">
+                  <Wallet className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-bold text-white">Record Payment</h2>
+                  <p className="text-sm text-white/80">{customer.name}</p>
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+              >
+                <X className="w-6 h-6 text-white" />
+              </button>
+            </div>
+
+            {/* Body */}
+            <div className="p-6 space-y-5 overflow-y-auto max-h-[calc(90vh-200px)]">
+              {/* Method */}
+              <div className="grid grid-cols-3 gap-3">
+                {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((code) => (
+                  <button
+                    key={code}
+                    onClick={() => setMethod(code)}
+                    className={cn(
+                      'flex flex-col items-center gap-1 p-3 rounded-lg border-2 transition-colors',
+                      method === code
+                        ? 'border-primary-600 bg-primary-50 text-primary-700'
+                        : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                    )}
+                  >
+                    {METHOD_ICONS[code]}
+                    <span className="text-sm font-medium">{PAYMENT_METHOD_LABELS[code]}</span>
+                  </button>
+                ))}
+              </div>
+
+              {/* Amount & Reference */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <Input
+                  label="Amount Received *"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => handleAmountChange(e.target.value)}
+                />
+                {referenceLabel && (
+                  <Input
+                    label={`${referenceLabel} *`}
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                  />
+                )}
+              </div>
+
+              {/* Allocation */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">Open Invoices</h3>
+                {isLoadingInvoices ? (
+                  <p className="text-sm text-gray-500">Loading invoices...</p>
+                ) : invoices.length === 0 ? (
+                  <p className="text-sm text-gray-500">No open invoices, the payment goes on account.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {invoices.map((invoice) => (
+                      <div key={invoice.id} className="flex items-center gap-4 p-3 bg-gray-50 rounded-lg">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-gray-900">
+                            {invoice.name}
+                            {invoice.orderNumber && (
+                              <span className="ml-2 text-xs text-gray-500">{invoice.orderNumber}</span>
+                            )}
+                          </p>
+                          <p className="text-xs text-gray-600">
+                            {invoice.dueDate ? `Due ${formatDate(invoice.dueDate)}` : invoice.date && formatDate(invoice.date)}
+                            {' · '}
+                            {formatCurrency(invoice.amountResidual)} due
+                          </p>
+                        </div>
+                        <div className="w-36">
+                          <Input
+                            type="number"
+                            min="0"
+                            max={invoice.amountResidual}
+                            step="0.01"
+                            placeholder="0"
+                            value={allocations[invoice.id] ?? ''}
+                            onChange={(e) => setAllocations({ ...allocations, [invoice.id]: e.target.value })}
+                            aria-label={`Amount applied to ${invoice.name}`}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Totals */}
+              <div className="border-t border-gray-200 pt-4 space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Applied to invoices</span>
+                  <span className="font-medium text-gray-900">{formatCurrency(allocated)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">On account</span>
+                  <span className={cn('font-medium', onAccount < 0 ? 'text-danger-600' : 'text-gray-900')}>
+                    {formatCurrency(onAccount)}
+                  </span>
+                </div>
+                <div className="flex justify-between text-lg font-bold">
+                  <span className="text-gray-900">Received</span>
+                  <span className="text-primary-600">{formatCurrency(parsedAmount)}</span>
+                </div>
+                {parsedAmount > 0 && validationError && (
+                  <p className="text-sm text-danger-600 text-right">{validationError}</p>
+                )}
+              </div>
+            </div>
+
+            {/* Footer */}
+            <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex justify-end gap-3">
+              <Button variant="secondary" onClick={onClose} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                onClick={handleSubmit}
+                isLoading={isSubmitting}
+                disabled={validationError !== null}
+              >
+                Record & Print Receipt
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
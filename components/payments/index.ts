@@ -0,0 +1,7 @@
+/**
+ * Payments Components Exports
+ * 
+ * @module components/payments
+ */
+
+export { PaymentModal } from './PaymentModal';
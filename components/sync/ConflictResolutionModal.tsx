@@ -0,0 +1,187 @@
+/**
+ * Conflict Resolution Modal Component
+ *
+ * Settles an offline edit that collided with changes made in Odoo:
+ * - One row per field changed on both sides
+ * - The value before the edit, for reference
+ * - Pick the offline value or Odoo's for each field
+ * - Kept offline values go back to the sync queue
+ *
+ * @module components/sync/ConflictResolutionModal
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { X, GitMerge, Smartphone, Building2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { offlineService } from '@/lib/offline/offlineService';
+import { MergeableType, fieldLabel } from '@/lib/offline/conflictMerge';
+import { useNotifications } from '@/lib/stores/notificationStore';
+import { cn } from '@/lib/utils';
+import { ConflictChoice, OfflineQueueItem } from '@/types';
+
+interface ConflictResolutionModalProps {
+  isOpen: boolean;
+  item: OfflineQueueItem | null;
+  // Name of the edited record
+  recordName?: string;
+  onClose: () => void;
+  onResolved: () => void;
+}
+
+/**
+ * Field value as shown to the user
+ */
+function displayValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = ({
+  isOpen,
+  item,
+  recordName,
+  onClose,
+  onResolved,
+}) => {
+  const notifications = useNotifications();
+
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Nothing picked every time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setChoices({});
+    }
+  }, [isOpen, item]);
+
+  const conflicts = item?.conflicts ?? [];
+  const isComplete = conflicts.every((conflict) => choices[conflict.field]);
+
+  const handleSubmit = async () => {
+    if (!item || !isComplete) {
+      notifications.error('Validation Error', 'Pick a value for every field');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await offlineService.resolveConflict(item.id, choices);
+      const kept = conflicts.filter((conflict) => choices[conflict.field] === 'local').length;
+      notifications.success(
+        'Conflict Resolved',
+        kept > 0 ? `${kept} offline value(s) will be sent to Odoo` : 'Odoo values kept'
+      );
+      onResolved();
+      onClose();
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      notifications.error('Error', 'Failed to resolve the conflict. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen || !item) return null;
+
+  const type = item.type as MergeableType;
+
+  const renderOption = (field: string, choice: ConflictChoice, value: unknown) => {
+    const selected = choices[field] === choice;
+    const Icon = choice === 'local' ? Smartphone : Building2;
+    return (
+      <button
+        onClick={() => setChoices({ ...choices, [field]: choice })}
+        className={cn(
+          'flex-1 text-left p-3 rounded-lg border-2 transition-colors',
+          selected
+            ? 'border-primary-500 bg-primary-50'
+            : 'border-gray-200 hover:border-gray-300'
+        )}
+      >
+        <span className="flex items-center gap-1.5 text-xs font-medium text-gray-500 mb-1">
+          <Icon className="w-3.5 h-3.5" />
+          {choice === 'local' ? 'Your offline edit' : 'Odoo'}
+        </span>
+        <span className="block text-sm text-gray-900 break-words">{displayValue(value)}</span>
+      </button>
+    );
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/50 z-40 animate-fade-in"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 overflow-y-auto">
+        <div className="flex min-h-full items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden animate-scale-in">
+            {/* Header */}
+            <div className="sticky top-0 bg-gradient-to-r from-primary-600 to-secondary-600 px-6 py-4 flex items-center justify-between z-10">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-white/20 rounded-lg flex items-center justify-center">
+                  <GitMerge className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-bold text-white">Resolve Sync Conflict</h2>
+                  <p className="text-sm text-white/80 capitalize">
+                    {type} · {recordName ?? item.data.id}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+              >
+                <X className="w-6 h-6 text-white" />
+              </button>
+            </div>
+
+            {/* Body */}
+            <div className="p-6 space-y-4 overflow-y-auto max-h-[calc(90vh-200px)]">
+              <p className="text-sm text-gray-600">
+                These fields were changed in Odoo after you edited them offline. Pick the value to keep for each.
+              </p>
+              {conflicts.map((conflict) => (
+                <div key={conflict.field} className="p-4 bg-gray-50 rounded-lg">
+                  <div className="flex items-baseline justify-between gap-3 mb-3">
+                    <p className="text-sm font-semibold text-gray-900">{fieldLabel(type, conflict.field)}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      Was: {displayValue(conflict.base)}
+                    </p>
+                  </div>
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    {renderOption(conflict.field, 'local', conflict.local)}
+                    {renderOption(conflict.field, 'server', conflict.server)}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Footer */}
+            <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex justify-end gap-3">
+              <Button variant="secondary" onClick={onClose} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                onClick={handleSubmit}
+                isLoading={isSubmitting}
+                disabled={!isComplete}
+              >
+                Apply
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
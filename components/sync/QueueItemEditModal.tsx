@@ -0,0 +1,162 @@
+/**
+ * Queue Item Edit Modal Component
+ *
+ * Corrects the payload of a queued change that Odoo keeps rejecting
+ * (edited as JSON) and sends it again.
+ *
+ * @module components/sync/QueueItemEditModal
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { X, Pencil } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { offlineService } from '@/lib/offline/offlineService';
+import { QueuePayload, validateQueuePayload } from '@/lib/offline/queuePayload';
+import { useNotifications } from '@/lib/stores/notificationStore';
+import { OfflineQueueItem } from '@/types';
+
+interface QueueItemEditModalProps {
+  isOpen: boolean;
+  item: OfflineQueueItem | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+/**
+ * Parse and check the edited payload
+ *
+ * @returns Payload, or the reason it is not valid
+ */
+function parsePayload(text: string, item: OfflineQueueItem): { data?: QueuePayload; error?: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid JSON' };
+  }
+  const error = validateQueuePayload(item, data);
+  return error ? { error } : { data: data as QueuePayload };
+}
+
+export const QueueItemEditModal: React.FC<QueueItemEditModalProps> = ({
+  isOpen,
+  item,
+  onClose,
+  onSaved,
+}) => {
+  const notifications = useNotifications();
+
+  const [payload, setPayload] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start from the queued payload every time the modal opens
+  useEffect(() => {
+    if (isOpen && item) {
+      setPayload(JSON.stringify(item.data, null, 2));
+    }
+  }, [isOpen, item]);
+
+  const parsed = item ? parsePayload(payload, item) : {};
+
+  const handleSubmit = async () => {
+    if (!item || parsed.error) {
+      notifications.error('Validation Error', parsed.error ?? 'Invalid payload');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await offlineService.retryQueueItem(item.id, parsed.data);
+      notifications.success('Queued Again', `The ${item.type} ${item.action} will be sent with your changes`);
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error retrying queue item:', error);
+      notifications.error('Error', 'Failed to queue the change again. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen || !item) return null;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/50 z-40 animate-fade-in"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 overflow-y-auto">
+        <div className="flex min-h-full items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden animate-scale-in">
+            {/* Header */}
+            <div className="sticky top-0 bg-gradient-to-r from-primary-600 to-secondary-600 px-6 py-4 flex items-center justify-between z-10">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-white/20 rounded-lg flex items-center justify-center">
+                  <Pencil className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-bold text-white">Edit and Retry</h2>
+                  <p className="text-sm text-white/80 capitalize">
+                    {item.type} {item.action}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+              >
+                <X className="w-6 h-6 text-white" />
+              </button>
+            </div>
+
+            {/* Body */}
+            <div className="p-6 space-y-4 overflow-y-auto max-h-[calc(90vh-200px)]">
+              {item.error && (
+                <div className="p-3 bg-danger-50 rounded-lg text-sm text-danger-700 break-words">
+                  {item.error}
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Payload
+                </label>
+                <textarea
+                  value={payload}
+                  onChange={(e) => setPayload(e.target.value)}
+                  rows={14}
+                  spellCheck={false}
+                  className="w-full px-4 py-2.5 rounded-lg bg-white border border-gray-300 text-gray-900 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                {parsed.error && (
+                  <p className="mt-1 text-xs text-danger-600">{parsed.error}</p>
+                )}
+              </div>
+            </div>
+
+            {/* Footer */}
+            <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex justify-end gap-3">
+              <Button variant="secondary" onClick={onClose} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                onClick={handleSubmit}
+                isLoading={isSubmitting}
+                disabled={!!parsed.error}
+              >
+                Save and Retry
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,110 @@
+/**
+ * Sync Conflicts Component
+ *
+ * Offline edits waiting for the user to settle fields changed in Odoo
+ * meanwhile, each opening the conflict resolution modal.
+ *
+ * @module components/sync/SyncConflicts
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { ConflictResolutionModal } from './ConflictResolutionModal';
+import { offlineService } from '@/lib/offline/offlineService';
+import { useSyncStore } from '@/lib/stores/syncStore';
+import { formatDate } from '@/lib/utils';
+import { OfflineQueueItem } from '@/types';
+
+/**
+ * Name of the record an edit was made to, from the offline cache
+ */
+async function recordName(item: OfflineQueueItem): Promise<string | undefined> {
+  if (item.type === 'customer') {
+    return (await offlineService.getLocalCustomerById(item.data.id))?.name;
+  }
+  return (await offlineService.getLocalOrderById(item.data.id))?.orderNumber;
+}
+
+export const SyncConflicts: React.FC = () => {
+  const conflictCount = useSyncStore((state) => state.conflicts);
+
+  const [items, setItems] = useState<OfflineQueueItem[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [selectedItem, setSelectedItem] = useState<OfflineQueueItem | null>(null);
+
+  const loadConflicts = useCallback(async () => {
+    try {
+      const conflicted = await offlineService.getConflictedQueueItems();
+      const resolved = await Promise.all(conflicted.map(recordName));
+      setItems(conflicted);
+      setNames(Object.fromEntries(
+        conflicted.flatMap((item, index) => (resolved[index] ? [[item.id, resolved[index]]] : []))
+      ));
+    } catch (error) {
+      // Offline mode disabled: nothing can be in conflict
+      console.warn('Sync conflicts not loaded:', error);
+      setItems([]);
+    }
+  }, []);
+
+  // Reload whenever a sync adds or clears conflicts
+  useEffect(() => {
+    loadConflicts();
+  }, [loadConflicts, conflictCount]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900">Sync Conflicts</h4>
+          <p className="text-xs text-gray-500">
+            Offline edits to records that were also changed in Odoo
+          </p>
+        </div>
+        <Badge variant={items.length > 0 ? 'danger' : 'success'}>
+          {items.length}
+        </Badge>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">No conflicts to resolve</p>
+      ) : (
+        <div className="space-y-2">
+          {items.map((item) => (
+            <div
+              key={item.id}
+              className="flex items-center justify-between gap-3 p-3 bg-warning-50 rounded-lg"
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <AlertTriangle className="w-4 h-4 text-warning-600 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate capitalize">
+                    {item.type} · {names[item.id] ?? item.data.id}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {item.conflicts?.length ?? 0} field(s) · edited {formatDate(new Date(item.timestamp), 'relative')}
+                  </p>
+                </div>
+              </div>
+              <Button variant="secondary" size="sm" onClick={() => setSelectedItem(item)}>
+                Resolve
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ConflictResolutionModal
+        isOpen={selectedItem !== null}
+        item={selectedItem}
+        recordName={selectedItem ? names[selectedItem.id] : undefined}
+        onClose={() => setSelectedItem(null)}
+        onResolved={loadConflicts}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,244 @@
+/**
+ * Sync Queue Inspector Component
+ *
+ * Changes queued for Odoo, pending, failed and recently synced:
+ * - What each change carries, its retry count and last error
+ * - Retry a failed change now, with a fresh set of attempts
+ * - Edit the payload of a change Odoo keeps rejecting, then retry
+ * - Discard a change that will never sync
+ *
+ * @module components/sync/SyncQueueInspector
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { RotateCcw, Pencil, Trash2 } from 'lucide-react';
+import { Badge, BadgeVariant } from '@/components/ui/Badge';
+import { QueueItemEditModal } from './QueueItemEditModal';
+import { offlineService } from '@/lib/offline/offlineService';
+import { useSyncStore } from '@/lib/stores/syncStore';
+import { useNotifications } from '@/lib/stores/notificationStore';
+import { SYNC_CONFIG } from '@/lib/config';
+import { formatCurrency, formatDate, cn } from '@/lib/utils';
+import { OfflineQueueItem } from '@/types';
+
+type QueueFilter = 'all' | 'pending' | 'failed' | 'completed';
+
+const FILTERS: { id: QueueFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'pending', label: 'Pending' },
+  { id: 'failed', label: 'Failed' },
+  { id: 'completed', label: 'Synced' },
+];
+
+const STATUS_BADGES: Record<OfflineQueueItem['status'], { label: string; variant: BadgeVariant }> = {
+  pending: { label: 'Pending', variant: 'warning' },
+  syncing: { label: 'Syncing', variant: 'info' },
+  failed: { label: 'Retrying', variant: 'warning' },
+  completed: { label: 'Synced', variant: 'success' },
+  conflict: { label: 'Conflict', variant: 'danger' },
+};
+
+/**
+ * One-line description of what a queued change carries
+ */
+function payloadSummary(item: OfflineQueueItem): string {
+  const { data } = item;
+  if (item.action === 'update') {
+    const fields = Object.keys(data).filter((field) => field !== 'id');
+    return `${data.id}: ${fields.join(', ') || 'no changes'}`;
+  }
+  if (item.action === 'delete') {
+    return `Cancel ${data.id}`;
+  }
+  switch (item.type) {
+    case 'order':
+      return [data.localOrderNumber, data.customerName, `${data.items?.length ?? 0} line(s)`].filter(Boolean).join(' · ');
+    case 'payment':
+      return [data.receiptNumber, data.customerName, formatCurrency(data.amount ?? 0)].filter(Boolean).join(' · ');
+    default:
+      return data.name ?? data.id ?? '';
+  }
+}
+
+export const SyncQueueInspector: React.FC = () => {
+  const { pendingItems, failedItems, isSyncing } = useSyncStore();
+  const notifications = useNotifications();
+
+  const [items, setItems] = useState<OfflineQueueItem[]>([]);
+  const [filter, setFilter] = useState<QueueFilter>('all');
+  const [editingItem, setEditingItem] = useState<OfflineQueueItem | null>(null);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    try {
+      const queued = await offlineService.getQueueItems();
+      // Conflicts are settled in Sync Conflicts; newest first
+      setItems(queued.filter((item) => item.status !== 'conflict').reverse());
+    } catch (error) {
+      // Offline mode disabled: nothing is ever queued
+      console.warn('Sync queue not loaded:', error);
+      setItems([]);
+    }
+  }, []);
+
+  // Reload whenever the queue moves
+  useEffect(() => {
+    loadItems();
+  }, [loadItems, pendingItems, failedItems, isSyncing]);
+
+  const handleRetry = async (item: OfflineQueueItem) => {
+    setBusyItemId(item.id);
+    try {
+      await offlineService.retryQueueItem(item.id);
+      notifications.info('Retrying', `The ${item.type} ${item.action} will be sent again`);
+    } catch (error) {
+      console.error('Error retrying queue item:', error);
+      notifications.error('Error', 'Failed to retry the change');
+    } finally {
+      setBusyItemId(null);
+      loadItems();
+    }
+  };
+
+  const handleDiscard = async (item: OfflineQueueItem) => {
+    const warning = item.action === 'create'
+      ? `Discard this ${item.type}? It was never sent to Odoo and will be lost.`
+      : `Discard this ${item.type} ${item.action}? It will not be sent to Odoo.`;
+    if (!confirm(warning)) return;
+
+    setBusyItemId(item.id);
+    try {
+      await offlineService.discardQueueItem(item.id);
+      notifications.success('Discarded', `The ${item.type} ${item.action} was removed from the queue`);
+    } catch (error) {
+      console.error('Error discarding queue item:', error);
+      notifications.error('Error', 'Failed to discard the change');
+    } finally {
+      setBusyItemId(null);
+      loadItems();
+    }
+  };
+
+  const visibleItems = items.filter((item) => {
+    if (filter === 'all') return true;
+    if (filter === 'pending') return item.status === 'pending' || item.status === 'syncing';
+    return item.status === filter;
+  });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900">Sync Queue</h4>
+          <p className="text-xs text-gray-500">
+            Changes waiting for Odoo, and those synced in the last {SYNC_CONFIG.completedRetentionDays} days
+          </p>
+        </div>
+        {failedItems > 0 && (
+          <Badge variant="danger">{failedItems} failed</Badge>
+        )}
+      </div>
+
+      <div className="flex gap-2 mb-3 overflow-x-auto">
+        {FILTERS.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setFilter(id)}
+            className={cn(
+              'px-3 py-1.5 rounded-lg text-xs font-medium whitespace-nowrap transition-colors',
+              filter === id
+                ? 'bg-primary-50 text-primary-700'
+                : 'text-gray-600 hover:bg-gray-50'
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {visibleItems.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing in the queue</p>
+      ) : (
+        <div className="space-y-2">
+          {visibleItems.map((item) => {
+            const deadLetter = offlineService.isDeadLetter(item);
+            const badge = deadLetter ? { label: 'Failed', variant: 'danger' as BadgeVariant } : STATUS_BADGES[item.status];
+            // An item left syncing outside a sync was interrupted
+            const actionable = item.status === 'pending' || item.status === 'failed' || (item.status === 'syncing' && !isSyncing);
+
+            return (
+              <div
+                key={item.id}
+                className={cn('p-3 rounded-lg', deadLetter ? 'bg-danger-50' : 'bg-gray-50')}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-gray-900 capitalize">
+                        {item.type} {item.action}
+                      </p>
+                      <Badge variant={badge.variant} size="sm">{badge.label}</Badge>
+                    </div>
+                    <p className="text-xs text-gray-600 truncate">{payloadSummary(item)}</p>
+                    <p className="text-xs text-gray-500">
+                      Queued {formatDate(new Date(item.timestamp), 'relative')}
+                      {' · '}
+                      {item.retryCount}/{SYNC_CONFIG.maxRetryAttempts} attempts
+                      {item.status === 'failed' && item.nextAttemptAt && (
+                        <> · next try {formatDate(new Date(item.nextAttemptAt), 'relative')}</>
+                      )}
+                      {item.completedAt && (
+                        <> · synced {formatDate(new Date(item.completedAt), 'relative')}</>
+                      )}
+                    </p>
+                    {item.error && item.status !== 'completed' && (
+                      <p className="text-xs text-danger-600 break-words mt-1">{item.error}</p>
+                    )}
+                  </div>
+
+                  {actionable && (
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => handleRetry(item)}
+                        disabled={busyItemId === item.id}
+                        className="p-2 hover:bg-white rounded-lg transition-colors disabled:opacity-40"
+                        title="Retry now"
+                      >
+                        <RotateCcw className="w-4 h-4 text-gray-600" />
+                      </button>
+                      <button
+                        onClick={() => setEditingItem(item)}
+                        disabled={busyItemId === item.id}
+                        className="p-2 hover:bg-white rounded-lg transition-colors disabled:opacity-40"
+                        title="Edit and retry"
+                      >
+                        <Pencil className="w-4 h-4 text-gray-600" />
+                      </button>
+                      <button
+                        onClick={() => handleDiscard(item)}
+                        disabled={busyItemId === item.id}
+                        className="p-2 hover:bg-white rounded-lg transition-colors disabled:opacity-40"
+                        title="Discard"
+                      >
+                        <Trash2 className="w-4 h-4 text-danger-600" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <QueueItemEditModal
+        isOpen={editingItem !== null}
+        item={editingItem}
+        onClose={() => setEditingItem(null)}
+        onSaved={loadItems}
+      />
+    </div>
+  );
+};
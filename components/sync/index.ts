@@ -0,0 +1,10 @@
+/**
+ * Sync Components Exports
+ * 
+ * @module components/sync
+ */
+
+export { ConflictResolutionModal } from './ConflictResolutionModal';
+export { SyncConflicts } from './SyncConflicts';
+export { SyncQueueInspector } from './SyncQueueInspector';
+export { QueueItemEditModal } from './QueueItemEditModal';
@@ -13,7 +13,7 @@ import { cn } from '@/lib/utils';
 /**
  * Badge variants
  */
-type BadgeVariant = 'primary' | 'secondary' | 'success' | 'warning' | 'danger' | 'gray';
+export type BadgeVariant = 'primary' | 'secondary' | 'success' | 'warning' | 'danger' | 'info' | 'gray';
 
 /**
  * Badge sizes
@@ -49,6 +49,7 @@ const variantStyles: Record<BadgeVariant, string> = {
   success: 'bg-success-100 text-success-700',
   warning: 'bg-warning-100 text-warning-700',
   danger: 'bg-danger-100 text-danger-700',
+  info: 'bg-sky-100 text-sky-700',
   gray: 'bg-gray-100 text-gray-700',
 };
 
@@ -61,6 +62,7 @@ const dotVariantStyles: Record<BadgeVariant, string> = {
   success: 'bg-success-500',
   warning: 'bg-warning-500',
   danger: 'bg-danger-500',
+  info: 'bg-sky-500',
   gray: 'bg-gray-400',
 };
 
@@ -10,3 +10,4 @@ export { Button } from './Button';
 export { Card } from './Card';
 export { Input } from './Input';
 export { Badge } from './Badge';
+export type { BadgeVariant } from './Badge';
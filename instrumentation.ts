@@ -0,0 +1,21 @@
+/**
+ * Server Instrumentation
+ *
+ * Runs once when the server starts. Refuses to start without the secret
+ * portal tokens are signed with, rather than accept forged tokens.
+ *
+ * @module instrumentation
+ */
+
+export async function register(): Promise<void> {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { portalSecret } = await import('@/lib/auth/portalToken');
+    try {
+      portalSecret();
+    } catch (error) {
+      // Next.js only logs errors thrown here and serves anyway
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Request Pipeline
+ *
+ * Browser-side transport for calls to the portal API, built for spotty
+ * mobile connections:
+ * - Every request is aborted after a timeout, body download included
+ * - A token bucket keeps the client within API_CONFIG.rateLimit
+ * - Idempotent reads (GET/HEAD) are retried with exponential backoff after
+ *   network errors, timeouts, 429 and 5xx responses (Retry-After honoured);
+ *   writes are never retried, so an order cannot be created twice
+ * - Identical reads already in flight share a single request
+ * - A call can shorten the timeout and retries, to fail fast where a
+ *   fallback exists
+ *
+ * @module lib/api/requestPipeline
+ */
+
+import { API_CONFIG } from '@/lib/config';
+import { sleep } from '@/lib/utils';
+
+/**
+ * Error raised for a failed API request.
+ * Status is 0 when no response was received (network error or timeout).
+ */
+export class ApiRequestError extends Error {
+  public readonly status: number;
+  public readonly retryable: boolean;
+  // Delay the server asked for before retrying (Retry-After)
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryable: boolean, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Whether a request failed without an answer from the server (offline,
+ * unreachable or timed out), rather than being rejected by it
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof ApiRequestError && error.status === 0;
+}
+
+/**
+ * Pipeline construction options
+ */
+export interface RequestPipelineOptions {
+  timeout: number;
+  maxRequests: number;
+  windowMs: number;
+  maxRetries: number;
+  retryDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Per-call overrides of the pipeline options
+ */
+export type RequestOverrides = Partial<Pick<RequestPipelineOptions, 'timeout' | 'maxRetries'>>;
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD'];
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+/**
+ * Token bucket: holds up to `capacity` tokens, refilled evenly over `windowMs`
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt: number = Date.now();
+
+  constructor(private capacity: number, private windowMs: number) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Take a token, waiting for one to be refilled if the bucket is empty
+   */
+  public async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) * this.capacity) / this.windowMs);
+      this.updatedAt = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) * this.windowMs) / this.capacity));
+    }
+  }
+}
+
+/**
+ * Request Pipeline Class
+ */
+export class RequestPipeline {
+  private bucket: TokenBucket;
+  private inFlight: Map<string, Promise<Response>> = new Map();
+
+  constructor(private options: RequestPipelineOptions) {
+    this.bucket = new TokenBucket(options.maxRequests, options.windowMs);
+  }
+
+  /**
+   * Send a request through the pipeline
+   *
+   * @param url - Request URL
+   * @param init - Fetch options
+   * @param overrides - Timeout and retries of this call, if not the pipeline's
+   * @returns Successful response, fully downloaded (safe to read once per caller)
+   * @throws ApiRequestError on timeout, network error or non-2xx response
+   */
+  public async fetch(url: string, init: RequestInit = {}, overrides: RequestOverrides = {}): Promise<Response> {
+    const method = (init.method || 'GET').toUpperCase();
+    const timeout = overrides.timeout ?? this.options.timeout;
+    if (!IDEMPOTENT_METHODS.includes(method)) {
+      return this.send(url, init, 0, timeout);
+    }
+
+    // Authorization is part of the key, so sessions never share a response;
+    // a fail-fast call does not wait on a patient one
+    const maxRetries = overrides.maxRetries ?? this.options.maxRetries;
+    const key = `${method} ${url} ${JSON.stringify(init.headers ?? {})} ${timeout}/${maxRetries}`;
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = this.send(url, init, maxRetries, timeout).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+    return (await pending).clone();
+  }
+
+  /**
+   * Send a request, retrying retryable failures up to `maxRetries` times
+   */
+  private async send(url: string, init: RequestInit, maxRetries: number, timeout: number): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket.take();
+      try {
+        return await this.attempt(url, init, timeout);
+      } catch (error) {
+        const failure = error instanceof ApiRequestError
+          ? error
+          : new ApiRequestError(error instanceof Error ? error.message : 'Network error', 0, true);
+        if (!failure.retryable || attempt >= maxRetries || init.signal?.aborted) {
+          throw failure;
+        }
+        await sleep(failure.retryAfterMs ?? this.backoff(attempt));
+      }
+    }
+  }
+
+  /**
+   * Perform a single attempt, downloading the body before the timeout expires
+   */
+  private async attempt(url: string, init: RequestInit, timeout: number): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    const abort = () => controller.abort();
+    init.signal?.addEventListener('abort', abort);
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      const body = await response.arrayBuffer();
+
+      if (!response.ok) {
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        throw new ApiRequestError(
+          `API error: ${response.status} ${errorMessage(body) || response.statusText}`,
+          response.status,
+          response.status === 429 || response.status >= 500,
+          retryAfter > 0 ? Math.min(retryAfter * 1000, this.options.maxDelayMs) : undefined
+        );
+      }
+
+      // A Response cannot be built with a body for these statuses
+      return new Response(NULL_BODY_STATUSES.includes(response.status) ? null : body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    } catch (error) {
+      if (controller.signal.aborted && !init.signal?.aborted) {
+        throw new ApiRequestError(`Request timed out after ${timeout}ms`, 0, true);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      init.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter, so retrying clients spread out
+   */
+  private backoff(attempt: number): number {
+    const delay = Math.min(this.options.retryDelayMs * 2 ** attempt, this.options.maxDelayMs);
+    return Math.round(delay * (0.5 + Math.random() / 2));
+  }
+}
+
+/**
+ * Error message of a portal API error body ({ error: string }), if any
+ */
+function errorMessage(body: ArrayBuffer): string | undefined {
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(body));
+    return typeof parsed?.error === 'string' ? parsed.error : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Export pipeline configured from environment
+export const requestPipeline = new RequestPipeline({
+  timeout: API_CONFIG.timeout,
+  maxRequests: API_CONFIG.rateLimit.maxRequests,
+  windowMs: API_CONFIG.rateLimit.windowMs,
+  maxRetries: API_CONFIG.retry.maxRetries,
+  retryDelayMs: API_CONFIG.retry.retryDelayMs,
+  maxDelayMs: API_CONFIG.retry.maxDelayMs,
+});
@@ -0,0 +1,104 @@
+/**
+ * API Route Helpers
+ *
+ * Shared plumbing for the Next.js route handlers under app/api:
+ * portal token checks, the active company and consistent JSON error responses.
+ *
+ * @module lib/api/routeHandler
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyPortalToken, PortalTokenPayload } from '@/lib/auth/portalToken';
+import { OdooRpcError } from '@/lib/odoo/jsonRpcClient';
+import { OrderTransitionError } from '@/lib/orders/orderLifecycle';
+import { COMPANY_CONFIG } from '@/lib/config';
+
+/**
+ * Dynamic route segment parameters
+ */
+export interface RouteContext {
+  params: Record<string, string>;
+}
+
+/**
+ * Verified portal token, plus the company (res.company ID) the request acts
+ * for; without one Odoo uses the user's default company
+ */
+export interface PortalSession extends PortalTokenPayload {
+  companyId?: number;
+}
+
+/**
+ * Route handler that receives the verified portal session
+ */
+type AuthenticatedHandler = (
+  request: NextRequest,
+  context: RouteContext,
+  session: PortalSession
+) => Promise<Response>;
+
+/**
+ * Build a JSON error response
+ *
+ * @param status - HTTP status code
+ * @param message - Error message
+ */
+export function jsonError(status: number, message: string): NextResponse {
+  return NextResponse.json({ error: message }, { status });
+}
+
+/**
+ * Read and verify the portal token from the Authorization header
+ *
+ * @param request - Incoming request
+ * @returns Verified token payload or null
+ */
+export function getPortalSession(request: NextRequest): PortalTokenPayload | null {
+  const header = request.headers.get('authorization');
+  if (!header?.startsWith('Bearer ')) return null;
+  return verifyPortalToken(header.slice('Bearer '.length));
+}
+
+/**
+ * Wrap a route handler with portal authentication and error handling.
+ * Odoo errors are reported as 502 so callers can tell them apart from
+ * portal-side failures; their details stay in the server log. Refused
+ * order actions are reported as 403 (role) or 409 (order status).
+ *
+ * @param handler - Route handler to protect
+ * @returns Next.js route handler
+ */
+export function withPortalAuth(handler: AuthenticatedHandler) {
+  return async (request: NextRequest, context: RouteContext): Promise<Response> => {
+    const token = getPortalSession(request);
+    if (!token) {
+      return jsonError(401, 'Invalid or expired portal token');
+    }
+    const companyId = parsePositiveInt(request.headers.get(COMPANY_CONFIG.header), 0);
+    const session: PortalSession = { ...token, companyId: companyId || undefined };
+
+    try {
+      return await handler(request, context, session);
+    } catch (error) {
+      if (error instanceof OrderTransitionError) {
+        return jsonError(error.reason === 'role' ? 403 : 409, error.message);
+      }
+      console.error(`API error on ${request.method} ${request.nextUrl.pathname}:`, error);
+      if (error instanceof OdooRpcError) {
+        return jsonError(502, 'Odoo request failed');
+      }
+      return jsonError(500, error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+}
+
+/**
+ * Parse a positive integer route/query value
+ *
+ * @param value - Raw value
+ * @param fallback - Value used when missing or invalid
+ */
+export function parsePositiveInt(value: string | null | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) || parsed < 1 ? fallback : parsed;
+}
@@ -2,13 +2,15 @@
  * Authentication Service
  * 
  * Handles user authentication, token management, and session handling.
- * Integrates with Odoo authentication system (placeholder for now).
+ * Authenticates against Odoo through /api/auth/login, which signs in to the
+ * chosen Odoo database with the user's own credentials, or against mock
+ * users while ODOO_CONFIG.mockMode is enabled.
  * 
  * @module lib/auth/authService
  */
 
 import { User, LoginCredentials, AuthResponse } from '@/types';
-import { AUTH_CONFIG } from '@/lib/config';
+import { AUTH_CONFIG, API_CONFIG, ODOO_CONFIG } from '@/lib/config';
 import { getFromStorage, setToStorage, removeFromStorage } from '@/lib/utils';
 import { generateMockUsers, simulateApiDelay } from '@/lib/mockData';
 
@@ -82,9 +84,35 @@ class AuthService {
     this.currentUser = null;
   }
 
+  /**
+   * List the Odoo databases users may sign in to
+   *
+   * @returns Database names (just the configured one in mock mode)
+   */
+  public async getDatabases(): Promise<string[]> {
+    if (ODOO_CONFIG.mockMode) {
+      return [ODOO_CONFIG.database];
+    }
+
+    const response = await fetch(`${API_CONFIG.baseUrl}/auth/databases`);
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status} ${response.statusText}`);
+    }
+    const body: { databases: string[] } = await response.json();
+    return body.databases;
+  }
+
+  /**
+   * Get the Odoo database last signed in to
+   */
+  public getLastDatabase(): string | null {
+    return getFromStorage<string | null>(AUTH_CONFIG.databaseKey, null);
+  }
+
   /**
    * Login with Odoo credentials
-   * Currently using mock authentication - will be replaced with actual Odoo API
+   * The server signs in to the chosen Odoo database (the default one when
+   * omitted) and returns a signed portal token
    * 
    * @param credentials - Login credentials
    * @returns Authentication response with token and user data
@@ -92,16 +120,31 @@ class AuthService {
    */
   public async login(credentials: LoginCredentials): Promise<AuthResponse> {
     try {
+      if (!ODOO_CONFIG.mockMode) {
+        const response = await fetch(`${API_CONFIG.baseUrl}/auth/login`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(credentials),
+        });
+        const body = await response.json();
+
+        if (!response.ok) {
+          throw new Error(body.error || 'Invalid username or password');
+        }
+
+        const authResponse: AuthResponse = body;
+        this.authToken = authResponse.token;
+        this.currentUser = authResponse.user;
+        this.saveToStorage(authResponse.token, authResponse.user);
+        if (authResponse.database) {
+          setToStorage(AUTH_CONFIG.databaseKey, authResponse.database);
+        }
+        return authResponse;
+      }
+
       // Simulate API delay
       await simulateApiDelay(1000);
 
-      // TODO: Replace with actual Odoo authentication
-      // const response = await fetch('/api/auth/login', {
-      //   method: 'POST',
-      //   headers: { 'Content-Type': 'application/json' },
-      //   body: JSON.stringify(credentials),
-      // });
-
       // Mock authentication logic
       const mockUsers = generateMockUsers();
       const user = mockUsers.find(u => u.email === credentials.username);
@@ -141,20 +184,19 @@ class AuthService {
 
   /**
    * Logout current user
-   * Clears all authentication data and session
+   * Signs out of the Odoo session and clears all authentication data
    */
   public async logout(): Promise<void> {
     try {
-      // TODO: Call Odoo logout endpoint if needed
-      // await fetch('/api/auth/logout', {
-      //   method: 'POST',
-      //   headers: {
-      //     'Authorization': `Bearer ${this.authToken}`,
-      //   },
-      // });
-
-      // Simulate API delay
-      await simulateApiDelay(300);
+      if (!ODOO_CONFIG.mockMode && this.authToken) {
+        await fetch(`${API_CONFIG.baseUrl}/auth/logout`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${this.authToken}` },
+        });
+      } else {
+        // Simulate API delay
+        await simulateApiDelay(300);
+      }
 
       // Clear authentication data
       this.clearStorage();
@@ -329,7 +371,8 @@ class AuthService {
       const parts = token.split('.');
       if (parts.length !== 3) return null;
 
-      const payload = JSON.parse(atob(parts[1]));
+      // JWT segments are base64url encoded
+      const payload = JSON.parse(atob(parts[1].replace(/-/g, '+').replace(/_/g, '/')));
       return payload;
     } catch (error) {
       console.error('Token decode error:', error);
@@ -0,0 +1,147 @@
+/**
+ * Portal Token
+ *
+ * Issues and verifies the HS256-signed JWTs that authenticate portal users
+ * against the Next.js API routes. Server-side only: relies on Node's crypto
+ * module and AUTH_CONFIG.jwtSecret, which must never reach the browser.
+ *
+ * A token also carries the user's Odoo credentials, sealed with AES-256-GCM
+ * so the browser cannot read them, which lets the server sign in to Odoo
+ * again when the user's web session expires. The sealing key is derived
+ * from the secret with HKDF, so it is never the key tokens are signed with.
+ *
+ * @module lib/auth/portalToken
+ */
+
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes, timingSafeEqual } from 'crypto';
+import { AUTH_CONFIG } from '@/lib/config';
+import { UserRole } from '@/types';
+
+/**
+ * Claims carried by a portal token
+ */
+export interface PortalTokenPayload {
+  sub: string;
+  email: string;
+  role: UserRole;
+  odooUid?: number;
+  // Odoo database the user signed in to
+  odooDb?: string;
+  // Sealed OdooCredentials
+  odooCredentials?: string;
+  iat: number;
+  exp: number;
+}
+
+/**
+ * Odoo sign-in credentials sealed into a portal token
+ */
+export interface OdooCredentials {
+  login: string;
+  password: string;
+}
+
+function base64UrlEncode(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Secret portal tokens are signed with
+ *
+ * @throws Error if JWT_SECRET is not set outside development
+ */
+export function portalSecret(): string {
+  if (!AUTH_CONFIG.jwtSecret) {
+    throw new Error('JWT_SECRET must be set outside development');
+  }
+  return AUTH_CONFIG.jwtSecret;
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', portalSecret()).update(data).digest('base64url');
+}
+
+let derivedSealingKey: Buffer | null = null;
+
+function sealingKey(): Buffer {
+  if (!derivedSealingKey) {
+    derivedSealingKey = Buffer.from(hkdfSync('sha256', portalSecret(), 'mmm-portal-token', 'odoo-credentials', 32));
+  }
+  return derivedSealingKey;
+}
+
+/**
+ * Seal Odoo credentials for a portal token
+ *
+ * @param credentials - Login and password
+ * @returns Encrypted, authenticated credentials (base64url)
+ */
+export function sealOdooCredentials(credentials: OdooCredentials): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', sealingKey(), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf8'), cipher.final()]);
+  return base64UrlEncode(Buffer.concat([iv, cipher.getAuthTag(), data]));
+}
+
+/**
+ * Open credentials sealed by sealOdooCredentials
+ *
+ * @param sealed - Sealed credentials
+ * @returns Credentials, or null if they were tampered with
+ */
+export function unsealOdooCredentials(sealed: string): OdooCredentials | null {
+  try {
+    const bytes = Buffer.from(sealed, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', sealingKey(), bytes.subarray(0, 12));
+    decipher.setAuthTag(bytes.subarray(12, 28));
+    const data = Buffer.concat([decipher.update(bytes.subarray(28)), decipher.final()]);
+    return JSON.parse(data.toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sign a portal token
+ *
+ * @param claims - User claims (issued-at and expiry are added)
+ * @returns Signed JWT string
+ */
+export function signPortalToken(claims: Omit<PortalTokenPayload, 'iat' | 'exp'>): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: PortalTokenPayload = {
+    ...claims,
+    iat: now,
+    exp: now + Math.floor(AUTH_CONFIG.sessionTimeout / 1000),
+  };
+
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64UrlEncode(JSON.stringify(payload));
+  return `${header}.${body}.${sign(`${header}.${body}`)}`;
+}
+
+/**
+ * Verify a portal token's signature and expiry
+ *
+ * @param token - JWT string
+ * @returns Token payload, or null if invalid or expired
+ */
+export function verifyPortalToken(token: string): PortalTokenPayload | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [header, body, signature] = parts;
+  const expected = Buffer.from(sign(`${header}.${body}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload: PortalTokenPayload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (!payload.exp || payload.exp * 1000 <= Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
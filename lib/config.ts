@@ -14,6 +14,8 @@ export const APP_CONFIG = {
   name: process.env.NEXT_PUBLIC_APP_NAME || 'Mauritius Meat Market',
   version: process.env.NEXT_PUBLIC_APP_VERSION || '1.0.0',
   description: 'Salesman Portal for Odoo 18 Integration',
+  // Time zone of the portal's users; order dates are local days in it
+  timeZone: process.env.NEXT_PUBLIC_APP_TIMEZONE || 'Indian/Mauritius',
 } as const;
 
 /**
@@ -23,26 +25,135 @@ export const APP_CONFIG = {
 export const ODOO_CONFIG = {
   url: process.env.NEXT_PUBLIC_ODOO_URL || 'https://demo.odoo.com',
   database: process.env.NEXT_PUBLIC_ODOO_DATABASE || 'demo',
+  // Databases users may sign in to (comma-separated); when unset, the list
+  // comes from Odoo's database manager, or just `database` if listing is disabled
+  databases: (process.env.ODOO_DATABASES || '').split(',').map((name) => name.trim()).filter(Boolean),
+  // Server-side service account (never exposed to the browser), only used
+  // for portal tokens issued without an Odoo web session
+  login: process.env.ODOO_LOGIN || '',
   apiKey: process.env.ODOO_API_KEY || '',
   
+  // Serve generated mock data instead of calling Odoo (set to 'false' to go live)
+  mockMode: process.env.NEXT_PUBLIC_ODOO_MOCK_MODE !== 'false',
+  
   // Odoo API endpoints
   endpoints: {
     authenticate: '/web/session/authenticate',
+    destroySession: '/web/session/destroy',
+    databaseList: '/web/database/list',
     call: '/web/dataset/call_kw',
     search: '/web/dataset/search_read',
+    jsonrpc: '/jsonrpc',
+  },
+  
+  // Odoo models used by the portal
+  models: {
+    order: 'sale.order',
+    orderLine: 'sale.order.line',
+    partner: 'res.partner',
+    product: 'product.product',
+    pricelist: 'product.pricelist',
+    pricelistItem: 'product.pricelist.item',
+  },
+} as const;
+
+/**
+ * MRA e-Invoicing (fiscalisation) Configuration
+ * Credentials are server-side only; point MRA_EINVOICE_URL at a local
+ * stand-in of the MRA endpoint for testing. In mock mode nothing is
+ * submitted: fiscalisation is only simulated, and only when
+ * NEXT_PUBLIC_MRA_MOCK_FISCALISATION is set.
+ * The result is stored in custom fields of account.move (see README).
+ */
+export const MRA_CONFIG = {
+  enabled: process.env.NEXT_PUBLIC_MRA_ENABLED === 'true',
+  mockFiscalisation: process.env.NEXT_PUBLIC_MRA_MOCK_FISCALISATION === 'true',
+  url: process.env.MRA_EINVOICE_URL || 'https://vfisc.mra.mu/realtime',
+  username: process.env.MRA_USERNAME || '',
+  password: process.env.MRA_PASSWORD || '',
+  ebsMraId: process.env.MRA_EBS_ID || '',
+  areaCode: process.env.MRA_AREA_CODE || '',
+  
+  endpoints: {
+    token: '/generate-token',
+    transmit: '/transmit-submit',
   },
+  
+  // Retries for network errors and 5xx responses (rejections are final)
+  maxRetries: 3,
+  retryDelayMs: 2000,
+  
+  // Seller identity printed on every e-invoice (public, also used for PDFs)
+  seller: {
+    name: process.env.NEXT_PUBLIC_MRA_SELLER_NAME || 'Mauritius Meat Market Ltd',
+    tradeName: process.env.NEXT_PUBLIC_MRA_SELLER_TRADE_NAME || 'Mauritius Meat Market',
+    tan: process.env.NEXT_PUBLIC_MRA_SELLER_TAN || '',
+    brn: process.env.NEXT_PUBLIC_MRA_SELLER_BRN || '',
+    businessAddr: process.env.NEXT_PUBLIC_MRA_SELLER_ADDRESS || 'Port Louis, Mauritius',
+  },
+} as const;
+
+/**
+ * Stock Availability Configuration
+ */
+export const STOCK_CONFIG = {
+  // Hold stock for lines being entered, so two salesmen cannot sell the same units
+  softReservations: process.env.NEXT_PUBLIC_ENABLE_SOFT_RESERVATIONS === 'true',
+  
+  // Holds expire if the order is never submitted (15 minutes)
+  reservationTtlMs: 15 * 60 * 1000,
+} as const;
+
+/**
+ * Customer Credit Configuration
+ * Applied when an order is submitted (see lib/orders/creditCheck)
+ */
+export const CREDIT_CONFIG = {
+  // Warn once an order takes the customer past this share of their credit limit
+  warnRatio: parseFloat(process.env.NEXT_PUBLIC_CREDIT_WARN_RATIO || '0.9'),
+
+  // Block new orders once an invoice is this many days past due (warn before that)
+  overdueBlockDays: parseInt(process.env.NEXT_PUBLIC_CREDIT_OVERDUE_BLOCK_DAYS || '30'),
+} as const;
+
+/**
+ * Payment Collection Configuration
+ * Codes of the Odoo journals (account.journal) each payment method posts to
+ */
+export const PAYMENT_CONFIG = {
+  journals: {
+    cash: process.env.ODOO_CASH_JOURNAL_CODE || 'CSH1',
+    cheque: process.env.ODOO_CHEQUE_JOURNAL_CODE || 'BNK1',
+    mcb_juice: process.env.ODOO_JUICE_JOURNAL_CODE || 'BNK1',
+  },
+} as const;
+
+/**
+ * Multi-company Configuration
+ * The active company travels with each API request in `header`
+ */
+export const COMPANY_CONFIG = {
+  header: 'X-Company-Id',
+  // Active company and the user's companies, kept in localStorage
+  activeKey: 'mmm_active_company',
+  companiesKey: 'mmm_companies',
 } as const;
 
 /**
  * Authentication Configuration
  */
 export const AUTH_CONFIG = {
-  jwtSecret: process.env.JWT_SECRET || 'default-dev-secret-change-in-production',
+  // Signs portal tokens (server only). Required outside development: the
+  // server refuses to start without it (see instrumentation.ts)
+  jwtSecret: process.env.JWT_SECRET
+    || (process.env.NODE_ENV === 'production' ? '' : 'default-dev-secret-change-in-production'),
   jwtExpiresIn: process.env.JWT_EXPIRES_IN || '7d',
   
   // Token storage key in localStorage
   tokenKey: 'mmm_auth_token',
   userKey: 'mmm_user_data',
+  // Odoo database last signed in to, preselected on the login page
+  databaseKey: 'mmm_auth_database',
   
   // Session timeout (7 days in milliseconds)
   sessionTimeout: 7 * 24 * 60 * 60 * 1000,
@@ -63,12 +174,26 @@ export const AUTH_CONFIG = {
 export const API_CONFIG = {
   baseUrl: process.env.NEXT_PUBLIC_API_BASE_URL || '/api',
   timeout: parseInt(process.env.API_TIMEOUT || '30000'),
+  // Timeout of the lookups made while submitting an order (customer,
+  // pricelist, products), which fall back to cached data instead of retrying
+  submitLookupTimeout: parseInt(process.env.NEXT_PUBLIC_API_SUBMIT_LOOKUP_TIMEOUT || '5000'),
   
   // API rate limiting
   rateLimit: {
     maxRequests: 100,
     windowMs: 60000, // 1 minute
   },
+  
+  // Retries of idempotent reads (GET/HEAD) after network errors, timeouts, 429 and 5xx
+  retry: {
+    maxRetries: 3,
+    retryDelayMs: 1000,
+    maxDelayMs: 15000,
+  },
+  
+  // Header carrying the client-generated key of an order submission, so a
+  // retried submission returns the order already created
+  idempotencyKeyHeader: 'Idempotency-Key',
 } as const;
 
 /**
@@ -80,12 +205,23 @@ export const SYNC_CONFIG = {
   // Sync interval in milliseconds (5 minutes default)
   interval: parseInt(process.env.NEXT_PUBLIC_SYNC_INTERVAL || '300000'),
   
-  // Maximum retry attempts for failed syncs
+  // Maximum retry attempts for failed syncs; items past it are left for
+  // the user to retry, edit or discard (Settings > Sync & Offline)
   maxRetryAttempts: parseInt(process.env.NEXT_PUBLIC_MAX_RETRY_ATTEMPTS || '3'),
   
+  // Delay before a failed item is retried, doubled after each failure
+  retryDelay: parseInt(process.env.NEXT_PUBLIC_SYNC_RETRY_DELAY || '30000'),
+  maxRetryDelay: parseInt(process.env.NEXT_PUBLIC_SYNC_MAX_RETRY_DELAY || '1800000'),
+  
+  // Days synced items stay in the queue for inspection
+  completedRetentionDays: parseInt(process.env.NEXT_PUBLIC_SYNC_RETENTION_DAYS || '7'),
+  
+  // Records downloaded per request by delta sync
+  pageSize: parseInt(process.env.NEXT_PUBLIC_SYNC_PAGE_SIZE || '200'),
+  
   // IndexedDB configuration
   dbName: 'mmm_offline_db',
-  dbVersion: 1,
+  dbVersion: 5,
   
   // Store names in IndexedDB
   stores: {
@@ -93,9 +229,37 @@ export const SYNC_CONFIG = {
     customers: 'customers',
     products: 'products',
     queue: 'sync_queue',
+    invoicePdfs: 'invoice_pdfs',
+    pricelists: 'pricelists',
+    payments: 'payments',
+    syncState: 'sync_state',
   },
 } as const;
 
+/**
+ * Real-time Updates Configuration
+ * The portal listens on an Odoo bus channel for `portal/record_changed`
+ * messages ({ model, id }) sent by automated actions in Odoo whenever a
+ * sale order, customer, stock quant or product forecast changes (set up as
+ * described in the README, Real-time updates). Point NEXT_PUBLIC_ODOO_URL
+ * at a local stand-in to test; mock mode simulates the events.
+ */
+export const BUS_CONFIG = {
+  enabled: process.env.NEXT_PUBLIC_ENABLE_REALTIME === 'true',
+  channel: process.env.ODOO_BUS_CHANNEL || 'salesman_portal',
+  endpoint: '/websocket/peek_notifications',
+  
+  // How long the API route holds a poll open, and how often it checks the bus meanwhile
+  pollTimeoutMs: 25000,
+  peekIntervalMs: 2000,
+  
+  // Wait before polling again after a failure
+  retryDelayMs: 10000,
+  
+  // Average gap between simulated events in mock mode
+  mockIntervalMs: 45000,
+} as const;
+
 /**
  * Feature Flags
  * Enable/disable features without code changes
@@ -0,0 +1,125 @@
+/**
+ * Customer Statement
+ *
+ * Builds a customer's statement of account from their receivable entries
+ * (invoices, credit notes and payments): a running balance over a date
+ * range and the age of whatever is still unpaid at the end of it.
+ *
+ * @module lib/customers/statement
+ */
+
+import { daysOverdue } from '@/lib/orders/creditCheck';
+import { AgingBucket, Customer, CustomerStatement, StatementEntry } from '@/types';
+
+/**
+ * Display labels of aging buckets
+ */
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: 'Current',
+  days30: '30+ Days',
+  days60: '60+ Days',
+  days90: '90+ Days',
+};
+
+/**
+ * Display labels of statement entry types
+ */
+export const STATEMENT_ENTRY_LABELS: Record<StatementEntry['type'], string> = {
+  invoice: 'Invoice',
+  credit_note: 'Credit Note',
+  payment: 'Payment',
+  other: 'Adjustment',
+};
+
+/**
+ * Amount still unpaid on a receivable entry (negative for unapplied
+ * credit notes and payments)
+ */
+export interface StatementOpenItem {
+  date: string;
+  dueDate?: string;
+  amountResidual: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Whether a value is a calendar date (YYYY-MM-DD)
+ */
+export function isStatementDate(value: string | null | undefined): value is string {
+  return !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(value).getTime());
+}
+
+/**
+ * Default statement period: the start of the month two months back to today
+ */
+export function defaultStatementPeriod(today: Date = new Date()): { dateFrom: string; dateTo: string } {
+  const start = new Date(Date.UTC(today.getFullYear(), today.getMonth() - 2, 1));
+  return {
+    dateFrom: start.toISOString().split('T')[0],
+    dateTo: today.toISOString().split('T')[0],
+  };
+}
+
+/**
+ * Bucket an unpaid amount by how late it is
+ *
+ * @param dueDate - Due date (the entry date when it has none)
+ * @param asOf - Date the age is measured at
+ */
+export function agingBucket(dueDate: string, asOf: Date): AgingBucket {
+  const days = daysOverdue(dueDate, asOf);
+  if (days >= 90) return 'days90';
+  if (days >= 60) return 'days60';
+  if (days >= 30) return 'days30';
+  return 'current';
+}
+
+/**
+ * Build a statement of account.
+ * Unapplied credits count as current, so the buckets add up to what the
+ * customer owes.
+ *
+ * @param customer - Customer the statement is for
+ * @param dateFrom - First day of the period (YYYY-MM-DD)
+ * @param dateTo - Last day of the period (YYYY-MM-DD)
+ * @param openingBalance - Balance before the period
+ * @param lines - Entries of the period, oldest first
+ * @param openItems - Entries up to the end of the period not fully paid
+ * @returns Statement with running balances and aging
+ */
+export function buildStatement(
+  customer: Pick<Customer, 'id' | 'name'>,
+  dateFrom: string,
+  dateTo: string,
+  openingBalance: number,
+  lines: Omit<StatementEntry, 'balance'>[],
+  openItems: StatementOpenItem[]
+): CustomerStatement {
+  let balance = round(openingBalance);
+  const entries = lines.map((line) => {
+    balance = round(balance + line.debit - line.credit);
+    return { ...line, balance };
+  });
+
+  const asOf = new Date(dateTo);
+  const aging: Record<AgingBucket, number> = { current: 0, days30: 0, days60: 0, days90: 0 };
+  for (const item of openItems) {
+    const bucket = item.amountResidual > 0 ? agingBucket(item.dueDate || item.date, asOf) : 'current';
+    aging[bucket] = round(aging[bucket] + item.amountResidual);
+  }
+
+  return {
+    customerId: customer.id,
+    customerName: customer.name,
+    dateFrom,
+    dateTo,
+    openingBalance: round(openingBalance),
+    entries,
+    closingBalance: balance,
+    aging,
+    generatedAt: new Date().toISOString(),
+  };
+}
@@ -17,7 +17,13 @@ import {
   CustomerAnalytics,
   SalesDistribution,
   OrderStatus,
+  OrderLine,
+  OrderDelivery,
+  OrderReturn,
   ProductCategory,
+  Pricelist,
+  PortalEvent,
+  Company,
 } from '@/types';
 
 /**
@@ -56,6 +62,35 @@ export function generateMockUsers(): User[] {
   ];
 }
 
+/**
+ * Generate mock companies
+ * The group's trading and retail entities, the default company first
+ */
+export function generateMockCompanies(): Company[] {
+  return [
+    {
+      id: '1',
+      name: 'Mauritius Meat Market Ltd',
+      address: 'Port Louis, Mauritius',
+      phone: '+230 212 3456',
+      email: 'sales@mmm.mu',
+      vat: 'VAT20123456',
+      registry: 'C07012345',
+      currency: 'MUR',
+    },
+    {
+      id: '2',
+      name: 'MMM Retail Ltd',
+      address: 'Curepipe, Mauritius',
+      phone: '+230 670 1234',
+      email: 'retail@mmm.mu',
+      vat: 'VAT20987654',
+      registry: 'C15098765',
+      currency: 'MUR',
+    },
+  ];
+}
+
 /**
  * Generate mock product categories
  */
@@ -192,6 +227,71 @@ export function generateMockProducts(): Product[] {
   ];
 }
 
+/**
+ * Generate mock pricelists
+ * Simulates Odoo product.pricelist records with their rules
+ */
+export function generateMockPricelists(): Pricelist[] {
+  return [
+    {
+      id: 'pl-001',
+      name: 'Restaurant Partners',
+      rules: [
+        {
+          id: 'rule-001',
+          scope: 'product',
+          productId: 'prod-001',
+          minQuantity: 10,
+          computePrice: 'fixed',
+          fixedPrice: 395,
+        },
+        {
+          id: 'rule-002',
+          scope: 'category',
+          categoryId: 'cat-001',
+          minQuantity: 0,
+          computePrice: 'percentage',
+          percentOff: 8,
+        },
+      ],
+      updatedAt: '2024-09-01',
+    },
+    {
+      id: 'pl-002',
+      name: 'Hotel Contract 2025-2026',
+      rules: [
+        {
+          id: 'rule-003',
+          scope: 'product',
+          productId: 'prod-002',
+          minQuantity: 20,
+          computePrice: 'percentage',
+          percentOff: 15,
+        },
+        {
+          id: 'rule-004',
+          scope: 'all',
+          minQuantity: 0,
+          computePrice: 'percentage',
+          percentOff: 5,
+          dateStart: '2025-01-01T00:00:00.000Z',
+          dateEnd: '2026-12-31T23:59:59.000Z',
+        },
+      ],
+      updatedAt: '2024-12-15',
+    },
+  ];
+}
+
+/**
+ * ISO date a number of days before today
+ */
+function daysBefore(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date.toISOString().split('T')[0];
+}
+
 /**
  * Generate mock customers
  * Simulates Odoo res.partner records
@@ -209,12 +309,16 @@ export function generateMockCustomers(): Customer[] {
       status: 'active',
       totalOrders: 45,
       totalSpent: 125000,
+      balance: 18500,
+      creditLimit: 75000,
+      overdueAmount: 0,
       lastOrderDate: '2024-09-28',
       billingAddress: '123 Royal Road, Port Louis',
       shippingAddress: '123 Royal Road, Port Louis',
       company: 'Le Gourmet Ltd',
       taxId: 'MU12345678',
       notes: 'Premium customer - weekly orders',
+      pricelistId: 'pl-001',
       odooPartnerId: 201,
       createdAt: '2023-01-15',
       updatedAt: '2024-09-28',
@@ -230,12 +334,14 @@ export function generateMockCustomers(): Customer[] {
       status: 'active',
       totalOrders: 32,
       totalSpent: 89000,
+      balance: 0,
       lastOrderDate: '2024-09-25',
       billingAddress: '456 Coastal Road, Flic en Flac',
       shippingAddress: '456 Coastal Road, Flic en Flac',
       company: 'Ocean View Hotels Ltd',
       taxId: 'MU23456789',
       notes: 'Large orders, monthly contract',
+      pricelistId: 'pl-002',
       odooPartnerId: 202,
       createdAt: '2023-03-20',
       updatedAt: '2024-09-25',
@@ -251,6 +357,10 @@ export function generateMockCustomers(): Customer[] {
       status: 'active',
       totalOrders: 78,
       totalSpent: 234000,
+      balance: 42750,
+      creditLimit: 50000,
+      overdueAmount: 18600,
+      oldestOverdueDate: daysBefore(45),
       lastOrderDate: '2024-09-30',
       billingAddress: '789 Market Street, Curepipe',
       shippingAddress: 'Multiple locations',
@@ -272,12 +382,17 @@ export function generateMockCustomers(): Customer[] {
       status: 'active',
       totalOrders: 28,
       totalSpent: 56000,
+      balance: 6200,
+      creditLimit: 25000,
+      overdueAmount: 6200,
+      oldestOverdueDate: daysBefore(12),
       lastOrderDate: '2024-09-29',
       billingAddress: '321 Beach Road, Grand Baie',
       shippingAddress: '321 Beach Road, Grand Baie',
       company: 'Island Bistro SARL',
       taxId: 'MU45678901',
       notes: 'Specialty items preferred',
+      pricelistId: 'pl-001',
       odooPartnerId: 204,
       createdAt: '2023-06-05',
       updatedAt: '2024-09-29',
@@ -293,6 +408,9 @@ export function generateMockCustomers(): Customer[] {
       status: 'active',
       totalOrders: 52,
       totalSpent: 142000,
+      balance: 12900,
+      creditLimit: 40000,
+      overdueAmount: 0,
       lastOrderDate: '2024-09-27',
       billingAddress: '654 Main Street, Quatre Bornes',
       shippingAddress: '654 Main Street, Quatre Bornes',
@@ -314,12 +432,14 @@ export function generateMockCustomers(): Customer[] {
       status: 'active',
       totalOrders: 38,
       totalSpent: 168000,
+      balance: 0,
       lastOrderDate: '2024-09-26',
       billingAddress: '987 Coastal Highway, Belle Mare',
       shippingAddress: '987 Coastal Highway, Belle Mare',
       company: 'Paradise Resort Group',
       taxId: 'MU67890123',
       notes: 'High-end cuts preferred, VIP customer',
+      pricelistId: 'pl-002',
       odooPartnerId: 206,
       createdAt: '2022-09-20',
       updatedAt: '2024-09-26',
@@ -327,6 +447,93 @@ export function generateMockCustomers(): Customer[] {
   ];
 }
 
+/**
+ * Generate mock deliveries for an order
+ * Simulates Odoo stock.picking records: partially delivered orders shipped
+ * about half of each line and have an open backorder for the rest.
+ */
+function generateMockDeliveries(
+  orderNumber: string,
+  items: OrderLine[],
+  status: OrderStatus,
+  date: string
+): OrderDelivery[] {
+  if (status === 'quotation' || status === 'cancelled') return [];
+
+  const name = `WH/OUT/${orderNumber.replace(/\D/g, '')}`;
+  if (status === 'confirmed') {
+    return [{
+      id: `pick-${orderNumber}`,
+      name,
+      state: 'ready',
+      scheduledDate: date,
+      lines: items.map(item => ({ orderLineId: item.id, productName: item.productName, quantity: item.quantity })),
+    }];
+  }
+
+  const partial = status === 'partially_delivered';
+  const delivery: OrderDelivery = {
+    id: `pick-${orderNumber}`,
+    name,
+    state: 'done',
+    scheduledDate: date,
+    doneDate: date,
+    lines: items.map(item => ({
+      orderLineId: item.id,
+      productName: item.productName,
+      quantity: item.quantity,
+      doneQuantity: partial ? Math.floor(item.quantity / 2) : item.quantity,
+    })),
+  };
+  if (!partial) return [delivery];
+
+  return [delivery, {
+    id: `pick-${orderNumber}-bo`,
+    name: `${name}-BO`,
+    state: 'ready',
+    scheduledDate: date,
+    backorderOf: name,
+    lines: items.map(item => ({
+      orderLineId: item.id,
+      productName: item.productName,
+      quantity: item.quantity - Math.floor(item.quantity / 2),
+    })),
+  }];
+}
+
+/**
+ * Generate mock returns for an invoiced order
+ * Simulates Odoo out_refund account.move records: about one invoiced order
+ * in five had part of its first line sent back.
+ */
+function generateMockReturns(orderNumber: string, items: OrderLine[], date: string): OrderReturn[] {
+  if (Math.random() > 0.2) return [];
+
+  const item = items[0];
+  const quantity = Math.max(1, Math.floor(item.quantity / 3));
+  const subtotal = quantity * item.unitPrice * (1 - (item.discount || 0) / 100);
+  const reasons: OrderReturn['reason'][] = ['spoiled', 'wrong_cut', 'damaged'];
+
+  return [{
+    id: `refund-${orderNumber}`,
+    creditNoteName: `RINV-2025-${orderNumber.replace(/\D/g, '').padStart(5, '0')}-1`,
+    state: 'posted',
+    reason: reasons[Math.floor(Math.random() * reasons.length)],
+    date: date.split('T')[0],
+    lines: [{
+      orderLineId: item.id,
+      productId: item.productId,
+      productName: item.productName,
+      quantity,
+      unitPrice: item.unitPrice,
+      discount: item.discount,
+      subtotal,
+    }],
+    amountTotal: subtotal * 1.15, // 15% VAT
+    photoCount: 1,
+  }];
+}
+
 /**
  * Generate mock orders
  * Simulates Odoo sale.order records
@@ -336,7 +543,15 @@ export function generateMockOrders(): Order[] {
   const customers = generateMockCustomers();
   const users = generateMockUsers();
   
-  const statuses: OrderStatus[] = ['shipping', 'received', 'pending', 'cancelled'];
+  const statuses: OrderStatus[] = [
+    'quotation',
+    'confirmed',
+    'partially_delivered',
+    'delivered',
+    'invoiced',
+    'paid',
+    'cancelled',
+  ];
   
   const orders: Order[] = [];
   
@@ -348,7 +563,7 @@ export function generateMockOrders(): Order[] {
     
     // Random number of items per order (1-4 items)
     const itemCount = Math.floor(Math.random() * 4) + 1;
-    const items = [];
+    const items: OrderLine[] = [];
     let subtotal = 0;
     
     for (let j = 0; j < itemCount; j++) {
@@ -397,6 +612,26 @@ export function generateMockOrders(): Order[] {
       salespersonName: salesperson.name,
       deliveryAddress: customer.shippingAddress,
       notes: '',
+      // Invoiced and paid orders carry their posted invoice
+      invoice: status === 'invoiced' || status === 'paid'
+        ? {
+            id: `inv-${i}`,
+            name: `INV-2025-${String(i).padStart(5, '0')}`,
+            state: 'posted',
+            paymentState: status === 'paid' ? 'paid' : 'not_paid',
+            amountTotal: total,
+            fiscalisation: { status: 'pending' },
+          }
+        : undefined,
+      deliveries: generateMockDeliveries(
+        `SO${String(i).padStart(4, '0')}`,
+        items,
+        status,
+        orderDate.toISOString()
+      ),
+      returns: status === 'invoiced' || status === 'paid'
+        ? generateMockReturns(`SO${String(i).padStart(4, '0')}`, items, orderDate.toISOString())
+        : undefined,
       createdAt: orderDate.toISOString(),
       updatedAt: orderDate.toISOString(),
       syncStatus: 'synced',
@@ -445,6 +680,45 @@ export function generateMockCustomerAnalytics(): CustomerAnalytics[] {
   }));
 }
 
+/**
+ * Generate a mock change pushed from Odoo
+ * Simulates the Odoo bus: mostly orders moving on to their next status,
+ * some stock movements and the odd customer balance change.
+ */
+export function generateMockPortalEvent(): PortalEvent {
+  const pick = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+  const roll = Math.random();
+
+  if (roll < 0.6) {
+    const next: Partial<Record<OrderStatus, OrderStatus>> = {
+      confirmed: 'delivered',
+      partially_delivered: 'delivered',
+      delivered: 'invoiced',
+      invoiced: 'paid',
+    };
+    const order = pick(generateMockOrders().filter((candidate) => next[candidate.status]));
+    return {
+      type: 'order',
+      order: { ...order, status: next[order.status]!, updatedAt: new Date().toISOString() },
+    };
+  }
+
+  if (roll < 0.9) {
+    const product = pick(generateMockProducts());
+    const onHand = Math.random() < 0.2 ? 0 : Math.floor(Math.random() * 50);
+    return {
+      type: 'stock',
+      stock: { productId: product.id, onHand, reserved: 0, softReserved: 0, available: onHand },
+    };
+  }
+
+  const customer = pick(generateMockCustomers());
+  return {
+    type: 'customer',
+    customer: { ...customer, balance: Math.round((customer.balance ?? 0) * (0.5 + Math.random())) },
+  };
+}
+
 /**
  * Generate mock KPIs for dashboard
  */
@@ -0,0 +1,34 @@
+/**
+ * Order Fiscalisation
+ *
+ * Server-side glue between Odoo and the MRA client: fiscalises an Odoo order's
+ * invoice and stores the returned IRN, QR code and status back on the invoice.
+ *
+ * @module lib/mra/fiscalisation
+ */
+
+import { mraClient } from '@/lib/mra/mraClient';
+import { OdooRepository } from '@/lib/odoo/odooRepository';
+import { toRecordId } from '@/lib/odoo/mappers';
+import { Order, MraFiscalisation } from '@/types';
+
+/**
+ * Fiscalise the invoice of an order stored in Odoo
+ *
+ * @param order - Order loaded from Odoo, with its invoice
+ * @param repository - Repository of the Odoo session the order was loaded with
+ * @returns Fiscalisation result (also written to the Odoo invoice)
+ */
+export async function fiscaliseOdooOrder(order: Order, repository: OdooRepository): Promise<MraFiscalisation> {
+  const invoiceId = toRecordId(order.invoice?.id);
+  if (!invoiceId) {
+    throw new Error(`Order ${order.orderNumber} has no invoice to fiscalise`);
+  }
+
+  const partnerId = toRecordId(order.customerId);
+  const buyer = partnerId ? await repository.fetchCustomerById(partnerId) : null;
+
+  const fiscalisation = await mraClient.fiscalise(order, buyer ?? undefined);
+  await repository.saveFiscalisation(invoiceId, fiscalisation);
+  return fiscalisation;
+}
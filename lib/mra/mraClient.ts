@@ -0,0 +1,222 @@
+/**
+ * MRA e-Invoicing Client
+ *
+ * Submits invoices to the MRA fiscalisation API and returns the Invoice
+ * Reference Number (IRN) and QR code issued for them. Server-side only:
+ * the MRA credentials come from MRA_CONFIG and never reach the browser.
+ *
+ * Network errors and 5xx responses are retried with exponential backoff;
+ * an invoice the MRA rejects is final and reported as `rejected`. If every
+ * attempt fails the invoice stays `pending` so it can be submitted again.
+ *
+ * The base URL is injectable, so the client can be pointed at a local
+ * stand-in of the MRA endpoint.
+ *
+ * @module lib/mra/mraClient
+ */
+
+import { MRA_CONFIG, API_CONFIG } from '@/lib/config';
+import { sleep } from '@/lib/utils';
+import { buildMraInvoicePayload, toMraDateTime, MraInvoicePayload } from '@/lib/mra/payload';
+import { Order, Customer, MraFiscalisation } from '@/types';
+
+/**
+ * Error raised for a failed MRA request
+ */
+export class MraRequestError extends Error {
+  public readonly status: number;
+  public readonly retryable: boolean;
+
+  constructor(message: string, status: number, retryable: boolean) {
+    super(message);
+    this.name = 'MraRequestError';
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Client construction options
+ */
+export interface MraClientOptions {
+  baseUrl: string;
+  username: string;
+  password: string;
+  ebsMraId: string;
+  areaCode: string;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  timeout?: number;
+}
+
+/**
+ * Per-invoice result returned by the transmit endpoint
+ */
+interface MraFiscalisedInvoice {
+  invoiceIdentifier: string;
+  irn?: string;
+  qrCode?: string;
+  status: 'SUCCESS' | 'ERROR';
+  errorMessages?: Array<{ code: string; description: string }>;
+}
+
+/**
+ * Response of the transmit endpoint
+ */
+interface MraTransmitResponse {
+  responseId: string;
+  responseDateTime: string;
+  requestId: string;
+  status: 'SUCCESS' | 'ERROR';
+  fiscalisedInvoices?: MraFiscalisedInvoice[];
+  errorMessages?: Array<{ code: string; description: string }>;
+}
+
+/**
+ * Response of the token endpoint
+ */
+interface MraTokenResponse {
+  token: string;
+  expiryDate?: string;
+}
+
+/**
+ * MRA e-Invoicing Client Class
+ */
+export class MraClient {
+  private baseUrl: string;
+  private options: MraClientOptions;
+  private token: string | null = null;
+  private tokenExpiry: number = 0;
+  private requestCounter: number = 0;
+
+  constructor(options: MraClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.options = options;
+  }
+
+  /**
+   * Fiscalise an invoiced order
+   *
+   * @param order - Order with its posted invoice
+   * @param buyer - Customer record for the buyer's tax identifiers
+   * @returns Fiscalisation result
+   */
+  public async fiscalise(order: Order, buyer?: Customer): Promise<MraFiscalisation> {
+    if (!order.invoice) {
+      throw new Error(`Order ${order.orderNumber} has no invoice to fiscalise`);
+    }
+
+    const payload = buildMraInvoicePayload(order, order.invoice, buyer);
+    const maxRetries = this.options.maxRetries ?? MRA_CONFIG.maxRetries;
+    const retryDelayMs = this.options.retryDelayMs ?? MRA_CONFIG.retryDelayMs;
+    let lastError = 'MRA submission failed';
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        const result = await this.transmit(payload);
+        return {
+          status: result.status === 'SUCCESS' && result.irn ? 'accepted' : 'rejected',
+          irn: result.irn,
+          qrCode: result.qrCode,
+          submittedAt: new Date().toISOString(),
+          attempts: attempt,
+          error: result.errorMessages?.map((message) => message.description).join('; ') || undefined,
+        };
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+        const retryable = !(error instanceof MraRequestError) || error.retryable;
+        if (!retryable) {
+          return { status: 'rejected', attempts: attempt, error: lastError };
+        }
+        if (attempt < maxRetries) {
+          await sleep(retryDelayMs * 2 ** (attempt - 1));
+        }
+      }
+    }
+
+    return { status: 'pending', attempts: maxRetries, error: lastError };
+  }
+
+  /**
+   * Submit a single invoice and return its fiscalisation entry
+   */
+  private async transmit(payload: MraInvoicePayload): Promise<MraFiscalisedInvoice> {
+    const response = await this.post<MraTransmitResponse>(MRA_CONFIG.endpoints.transmit, {
+      requestId: this.nextRequestId(),
+      requestDateTime: toMraDateTime(new Date()),
+      invoices: [payload],
+    }, { token: await this.getToken() });
+
+    const result = response.fiscalisedInvoices?.find(
+      (invoice) => invoice.invoiceIdentifier === payload.invoiceIdentifier
+    );
+    if (!result) {
+      const reason = response.errorMessages?.map((message) => message.description).join('; ');
+      throw new MraRequestError(reason || 'MRA response did not include the invoice', 422, false);
+    }
+    return result;
+  }
+
+  /**
+   * Get a valid access token, requesting a new one when expired
+   */
+  private async getToken(): Promise<string> {
+    if (this.token && Date.now() < this.tokenExpiry) {
+      return this.token;
+    }
+
+    const response = await this.post<MraTokenResponse>(MRA_CONFIG.endpoints.token, {
+      requestId: this.nextRequestId(),
+      username: this.options.username,
+      password: this.options.password,
+    });
+
+    this.token = response.token;
+    // Renew a minute early; tokens without an expiry are kept for an hour
+    this.tokenExpiry = (response.expiryDate ? Date.parse(response.expiryDate) : Date.now() + 3600000) - 60000;
+    return this.token;
+  }
+
+  /**
+   * POST a JSON body to an MRA endpoint
+   */
+  private async post<T>(endpoint: string, body: unknown, headers: Record<string, string> = {}): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        username: this.options.username,
+        ebsMraId: this.options.ebsMraId,
+        areaCode: this.options.areaCode,
+        ...headers,
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.options.timeout ?? API_CONFIG.timeout),
+    });
+
+    if (response.status === 401) {
+      this.token = null;
+    }
+    if (!response.ok) {
+      // 401 is retryable: the next attempt requests a fresh token
+      const retryable = response.status >= 500 || response.status === 401 || response.status === 429;
+      throw new MraRequestError(`MRA error: ${response.status} ${response.statusText}`, response.status, retryable);
+    }
+
+    return response.json();
+  }
+
+  private nextRequestId(): string {
+    return `${this.options.ebsMraId || 'MMM'}-${Date.now()}-${++this.requestCounter}`;
+  }
+}
+
+// Export client configured from environment
+export const mraClient = new MraClient({
+  baseUrl: MRA_CONFIG.url,
+  username: MRA_CONFIG.username,
+  password: MRA_CONFIG.password,
+  ebsMraId: MRA_CONFIG.ebsMraId,
+  areaCode: MRA_CONFIG.areaCode,
+});
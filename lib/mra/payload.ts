@@ -0,0 +1,162 @@
+/**
+ * MRA e-Invoice Payload
+ *
+ * Builds the invoice document expected by the MRA e-invoicing (fiscalisation)
+ * API from a portal order and its Odoo invoice. Amounts are sent as strings
+ * with two decimals, as required by the MRA specification.
+ *
+ * @module lib/mra/payload
+ */
+
+import { MRA_CONFIG } from '@/lib/config';
+import { billableQuantity, VAT_RATE } from '@/lib/pricing/orderTotals';
+import { Order, OrderInvoice, Customer } from '@/types';
+
+/**
+ * Seller or buyer block of an e-invoice
+ */
+export interface MraParty {
+  name: string;
+  tradeName?: string;
+  tan: string;
+  brn: string;
+  businessAddr: string;
+  buyerType?: 'VATR' | 'NVTR';
+}
+
+/**
+ * Invoice line of an e-invoice
+ */
+export interface MraInvoiceItem {
+  itemNo: string;
+  taxCode: 'TC01';
+  nature: 'GOODS';
+  currency: string;
+  itemDesc: string;
+  quantity: string;
+  unitPrice: string;
+  discount: string;
+  discountedValue: string;
+  amtWoVatCur: string;
+  amtWoVatMur: string;
+  vatAmt: string;
+  totalPrice: string;
+  productCodeOwn: string;
+}
+
+/**
+ * e-Invoice document submitted to the MRA
+ */
+export interface MraInvoicePayload {
+  invoiceCounter: string;
+  transactionType: 'B2B' | 'B2C';
+  personType: 'VATR';
+  invoiceTypeDesc: 'STD';
+  currency: string;
+  invoiceIdentifier: string;
+  invoiceRefIdentifier: string;
+  previousNoteHash: string;
+  totalVatAmount: string;
+  totalAmtWoVatCur: string;
+  totalAmtWoVatMur: string;
+  invoiceTotal: string;
+  discountTotalAmount: string;
+  totalAmtPaid: string;
+  dateTimeInvoiceIssued: string;
+  seller: MraParty;
+  buyer: MraParty;
+  itemList: MraInvoiceItem[];
+  salesTransactions: 'CASH' | 'CREDIT';
+}
+
+/**
+ * MRA invoices are issued in Mauritian rupees
+ */
+const MRA_CURRENCY = 'MUR';
+
+function amount(value: number): string {
+  return value.toFixed(2);
+}
+
+/**
+ * Format a date as the MRA "yyyyMMdd HH:mm:ss" timestamp (Mauritius time, UTC+4)
+ *
+ * @example
+ * toMraDateTime(new Date('2025-01-15T06:30:00Z')) // "20250115 10:30:00"
+ */
+export function toMraDateTime(date: Date): string {
+  const local = new Date(date.getTime() + 4 * 60 * 60 * 1000).toISOString();
+  return `${local.slice(0, 10).replace(/-/g, '')} ${local.slice(11, 19)}`;
+}
+
+/**
+ * Build the e-invoice payload for an invoiced order
+ *
+ * @param order - Portal order
+ * @param invoice - The order's posted invoice
+ * @param buyer - Customer record, used for the buyer's tax identifiers
+ * @returns MRA e-invoice payload
+ */
+export function buildMraInvoicePayload(
+  order: Order,
+  invoice: OrderInvoice,
+  buyer?: Customer
+): MraInvoicePayload {
+  // Registered buyers (with a VAT number) are B2B; everyone else is B2C
+  const isRegisteredBuyer = Boolean(buyer?.taxId);
+
+  const itemList = order.items.map((item, index): MraInvoiceItem => {
+    const quantity = billableQuantity(item);
+    const grossAmount = quantity * item.unitPrice;
+    const vatAmount = item.tax ?? item.subtotal * VAT_RATE;
+    return {
+      itemNo: String(index + 1),
+      taxCode: 'TC01',
+      nature: 'GOODS',
+      currency: MRA_CURRENCY,
+      itemDesc: item.productName,
+      quantity: String(quantity),
+      unitPrice: amount(item.unitPrice),
+      discount: amount(grossAmount - item.subtotal),
+      discountedValue: amount(item.subtotal),
+      amtWoVatCur: amount(item.subtotal),
+      amtWoVatMur: amount(item.subtotal),
+      vatAmt: amount(vatAmount),
+      totalPrice: amount(item.subtotal + vatAmount),
+      productCodeOwn: item.productId,
+    };
+  });
+
+  const discountTotal = order.items.reduce(
+    (sum, item) => sum + billableQuantity(item) * item.unitPrice - item.subtotal,
+    0
+  );
+
+  return {
+    invoiceCounter: invoice.id,
+    transactionType: isRegisteredBuyer ? 'B2B' : 'B2C',
+    personType: 'VATR',
+    invoiceTypeDesc: 'STD',
+    currency: MRA_CURRENCY,
+    invoiceIdentifier: invoice.name,
+    invoiceRefIdentifier: order.orderNumber,
+    previousNoteHash: 'prevNote',
+    totalVatAmount: amount(order.tax),
+    totalAmtWoVatCur: amount(order.subtotal),
+    totalAmtWoVatMur: amount(order.subtotal),
+    invoiceTotal: amount(order.total),
+    discountTotalAmount: amount(discountTotal),
+    totalAmtPaid: '0.00',
+    dateTimeInvoiceIssued: toMraDateTime(new Date()),
+    seller: { ...MRA_CONFIG.seller },
+    buyer: {
+      name: buyer?.company || buyer?.name || order.customerName,
+      tan: buyer?.taxId || '',
+      brn: '',
+      businessAddr: [buyer?.address, buyer?.city].filter(Boolean).join(', ') || order.deliveryAddress || '',
+      buyerType: isRegisteredBuyer ? 'VATR' : 'NVTR',
+    },
+    itemList,
+    salesTransactions: 'CREDIT',
+  };
+}
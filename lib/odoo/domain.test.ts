@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { andDomains, buildOrderDomain, normalizeDomain, orDomains, ORDER_STATUS_DOMAINS } from '@/lib/odoo/domain';
+
+describe('normalizeDomain', () => {
+  it('leaves a single expression as is', () => {
+    expect(normalizeDomain([['state', '=', 'sale']])).toEqual([['state', '=', 'sale']]);
+    expect(normalizeDomain(['|', ['a', '=', 1], ['b', '=', 2]])).toEqual(['|', ['a', '=', 1], ['b', '=', 2]]);
+  });
+
+  it('makes the implicit AND between top-level expressions explicit', () => {
+    expect(normalizeDomain([['a', '=', 1], ['b', '=', 2], ['c', '=', 3]])).toEqual([
+      '&', '&', ['a', '=', 1], ['b', '=', 2], ['c', '=', 3],
+    ]);
+  });
+
+  it('counts negated and nested expressions as one', () => {
+    expect(normalizeDomain(['!', ['a', '=', 1], '|', ['b', '=', 2], ['c', '=', 3]])).toEqual([
+      '&', '!', ['a', '=', 1], '|', ['b', '=', 2], ['c', '=', 3],
+    ]);
+  });
+});
+
+describe('andDomains / orDomains', () => {
+  it('skips empty domains', () => {
+    expect(andDomains([], [['a', '=', 1]], [])).toEqual([['a', '=', 1]]);
+    expect(orDomains([], [])).toEqual([]);
+  });
+
+  it('normalizes each part before combining', () => {
+    expect(orDomains([['a', '=', 1], ['b', '=', 2]], [['c', '=', 3]])).toEqual([
+      '|', '&', ['a', '=', 1], ['b', '=', 2], ['c', '=', 3],
+    ]);
+  });
+});
+
+describe('buildOrderDomain', () => {
+  it('is empty without filters', () => {
+    expect(buildOrderDomain()).toEqual([]);
+    expect(buildOrderDomain({})).toEqual([]);
+  });
+
+  it('ORs the selected statuses', () => {
+    expect(buildOrderDomain({ status: ['quotation', 'cancelled'] })).toEqual([
+      '|', ...ORDER_STATUS_DOMAINS.quotation, ...ORDER_STATUS_DOMAINS.cancelled,
+    ]);
+  });
+
+  it('widens the date bounds to whole local days, in UTC', () => {
+    // Mauritius is UTC+4
+    expect(buildOrderDomain({ dateFrom: '2025-03-01', dateTo: '2025-03-31' })).toEqual([
+      '&',
+      ['date_order', '>=', '2025-02-28 20:00:00'],
+      ['date_order', '<=', '2025-03-31 19:59:59'],
+    ]);
+  });
+
+  it('ANDs the customer, amounts and search query', () => {
+    expect(buildOrderDomain({ customerId: '7', minAmount: 100, searchQuery: ' LOCAL-2025 ' })).toEqual([
+      '&', '&',
+      ['partner_id', '=', 7],
+      ['amount_total', '>=', 100],
+      '|', '|',
+      ['name', 'ilike', 'LOCAL-2025'],
+      ['origin', 'ilike', 'LOCAL-2025'],
+      ['partner_id.name', 'ilike', 'LOCAL-2025'],
+    ]);
+  });
+
+  it('keeps a status with several conditions together inside the OR', () => {
+    const domain = buildOrderDomain({ status: ['confirmed', 'quotation'] });
+    expect(domain).toEqual(['|', ...ORDER_STATUS_DOMAINS.confirmed, ...ORDER_STATUS_DOMAINS.quotation]);
+    expect(domain[1]).toBe('&');
+  });
+});
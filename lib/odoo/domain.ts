@@ -0,0 +1,245 @@
+/**
+ * Odoo Domain Builder
+ *
+ * Typed helpers for composing Odoo search domains (Polish/prefix notation)
+ * and translating portal filter objects into them, so filtering and
+ * pagination run server-side in Odoo.
+ *
+ * @module lib/odoo/domain
+ */
+
+import { OrderFilters, CustomerFilters, OrderStatus, CustomerStatus } from '@/types';
+import { localToOdooDatetime } from '@/lib/odoo/mappers';
+
+/**
+ * Comparison operators supported in domain leaves
+ */
+export type DomainOperator =
+  | '='
+  | '!='
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | '=?'
+  | 'like'
+  | 'ilike'
+  | 'not ilike'
+  | 'in'
+  | 'not in'
+  | 'child_of'
+  | 'any';
+
+/**
+ * Logical operators (prefix notation)
+ */
+export type DomainLogicalOperator = '&' | '|' | '!';
+
+/**
+ * Single condition: `[field, operator, value]`
+ */
+export type DomainLeaf = [string, DomainOperator, unknown];
+
+/**
+ * Complete Odoo domain
+ */
+export type OdooDomain = Array<DomainLeaf | DomainLogicalOperator>;
+
+/**
+ * Count the top-level expressions of a domain.
+ * Odoo implicitly ANDs top-level expressions, so `[A, B]` counts as two.
+ */
+function countExpressions(domain: OdooDomain): number {
+  let stack = 0;
+  for (let i = domain.length - 1; i >= 0; i--) {
+    const term = domain[i];
+    if (term === '&' || term === '|') {
+      stack -= 1;
+    } else if (term !== '!') {
+      stack += 1;
+    }
+  }
+  return stack;
+}
+
+/**
+ * Make the implicit AND between top-level expressions explicit,
+ * so the domain can be nested safely inside another operator
+ */
+export function normalizeDomain(domain: OdooDomain): OdooDomain {
+  const count = countExpressions(domain);
+  if (count <= 1) return domain;
+  return [...Array<DomainLogicalOperator>(count - 1).fill('&'), ...domain];
+}
+
+/**
+ * Combine domains with a logical operator, skipping empty ones
+ */
+function combine(operator: '&' | '|', domains: OdooDomain[]): OdooDomain {
+  const parts = domains.filter((domain) => domain.length > 0).map(normalizeDomain);
+  if (parts.length === 0) return [];
+  return [...Array<DomainLogicalOperator>(parts.length - 1).fill(operator), ...parts.flat()];
+}
+
+/**
+ * AND several domains together
+ *
+ * @example
+ * andDomains([['state', '=', 'sale']], [['amount_total', '>=', 100]])
+ * // ['&', ['state', '=', 'sale'], ['amount_total', '>=', 100]]
+ */
+export function andDomains(...domains: OdooDomain[]): OdooDomain {
+  return combine('&', domains);
+}
+
+/**
+ * OR several domains together
+ *
+ * @example
+ * orDomains([['name', 'ilike', 'beef']], [['default_code', 'ilike', 'beef']])
+ * // ['|', ['name', 'ilike', 'beef'], ['default_code', 'ilike', 'beef']]
+ */
+export function orDomains(...domains: OdooDomain[]): OdooDomain {
+  return combine('|', domains);
+}
+
+/**
+ * Match a text query against any of the given fields (case-insensitive)
+ */
+export function searchDomain(query: string | undefined, fields: string[]): OdooDomain {
+  const term = query?.trim();
+  if (!term) return [];
+  return orDomains(...fields.map((field): OdooDomain => [[field, 'ilike', term]]));
+}
+
+// ==================== ORDERS ====================
+
+/**
+ * sale.order conditions for each portal order status
+ */
+export const ORDER_STATUS_DOMAINS: Record<OrderStatus, OdooDomain> = {
+  quotation: [['state', 'in', ['draft', 'sent']]],
+  confirmed: ['&', ['state', '=', 'sale'], ['delivery_status', 'not in', ['started', 'partial', 'full']]],
+  partially_delivered: ['&', ['state', '=', 'sale'], ['delivery_status', 'in', ['started', 'partial']]],
+  delivered: andDomains(
+    [['state', '=', 'sale'], ['delivery_status', '=', 'full']],
+    [['invoice_status', '!=', 'invoiced']]
+  ),
+  invoiced: andDomains(
+    [['state', '=', 'sale'], ['delivery_status', '=', 'full'], ['invoice_status', '=', 'invoiced']],
+    [['invoice_ids.payment_state', 'not in', ['paid', 'in_payment']]]
+  ),
+  paid: andDomains(
+    [['state', '=', 'sale'], ['delivery_status', '=', 'full']],
+    [['invoice_ids.payment_state', 'in', ['paid', 'in_payment']]]
+  ),
+  cancelled: [['state', '=', 'cancel']],
+};
+
+/**
+ * Build a sale.order domain from order filters
+ *
+ * @param filters - Portal order filters
+ * @returns Odoo domain (empty when no filter is set)
+ */
+export function buildOrderDomain(filters?: OrderFilters): OdooDomain {
+  if (!filters) return [];
+
+  const domains: OdooDomain[] = [];
+
+  if (filters.status && filters.status.length > 0) {
+    domains.push(orDomains(...filters.status.map((status) => ORDER_STATUS_DOMAINS[status])));
+  }
+
+  if (filters.customerId) {
+    domains.push([['partner_id', '=', parseInt(filters.customerId)]]);
+  }
+
+  // date_order is a UTC datetime: widen the bounds to whole local days
+  if (filters.dateFrom) {
+    domains.push([['date_order', '>=', localToOdooDatetime(`${filters.dateFrom} 00:00:00`)]]);
+  }
+
+  if (filters.dateTo) {
+    domains.push([['date_order', '<=', localToOdooDatetime(`${filters.dateTo} 23:59:59`)]]);
+  }
+
+  if (filters.minAmount !== undefined) {
+    domains.push([['amount_total', '>=', filters.minAmount]]);
+  }
+
+  if (filters.maxAmount !== undefined) {
+    domains.push([['amount_total', '<=', filters.maxAmount]]);
+  }
+
+  // Same picking must be a backorder and still open, hence `any`
+  if (filters.openBackorders) {
+    domains.push([['picking_ids', 'any', [
+      ['backorder_id', '!=', false],
+      ['state', 'not in', ['done', 'cancel']],
+    ]]]);
+  }
+
+  // origin holds the LOCAL- number of orders taken offline
+  domains.push(searchDomain(filters.searchQuery, ['name', 'origin', 'partner_id.name']));
+
+  return andDomains(...domains);
+}
+
+// ==================== CUSTOMERS ====================
+
+/**
+ * res.partner conditions for each portal customer status
+ */
+export const CUSTOMER_STATUS_DOMAINS: Record<CustomerStatus, OdooDomain> = {
+  active: ['&', ['active', '=', true], ['sale_warn', '!=', 'block']],
+  inactive: [['active', '=', false]],
+  blocked: ['&', ['active', '=', true], ['sale_warn', '=', 'block']],
+};
+
+/**
+ * Build a res.partner domain from customer filters
+ *
+ * `minOrders`/`minSpent` rely on non-stored Odoo fields, so callers resolve
+ * them to partner IDs beforehand (see OdooRepository.findPartnerIdsBySales)
+ * and pass the result as `salesPartnerIds`.
+ *
+ * @param filters - Portal customer filters
+ * @param salesPartnerIds - Partners meeting the minOrders/minSpent thresholds
+ * @returns Odoo domain restricted to customers
+ */
+export function buildCustomerDomain(
+  filters?: CustomerFilters,
+  salesPartnerIds?: number[]
+): OdooDomain {
+  const domains: OdooDomain[] = [[['customer_rank', '>', 0]]];
+
+  if (filters?.status && filters.status.length > 0) {
+    domains.push(orDomains(...filters.status.map((status) => CUSTOMER_STATUS_DOMAINS[status])));
+  }
+
+  if (salesPartnerIds) {
+    domains.push([['id', 'in', salesPartnerIds]]);
+  }
+
+  domains.push(searchDomain(filters?.searchQuery, ['name', 'email', 'phone', 'mobile']));
+
+  return andDomains(...domains);
+}
+
+// ==================== PRODUCTS ====================
+
+/**
+ * Build a product.product domain for saleable products
+ *
+ * @param searchQuery - Optional name/SKU query
+ * @param productIds - Optional product IDs to restrict to
+ * @returns Odoo domain
+ */
+export function buildProductDomain(searchQuery?: string, productIds?: number[]): OdooDomain {
+  return andDomains(
+    [['sale_ok', '=', true]],
+    searchDomain(searchQuery, ['name', 'default_code']),
+    productIds ? [['id', 'in', productIds]] : []
+  );
+}
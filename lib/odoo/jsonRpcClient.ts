@@ -0,0 +1,508 @@
+/**
+ * Odoo JSON-RPC Client
+ *
+ * Low-level transport for Odoo 18's JSON-RPC web endpoints.
+ * Wraps `/web/dataset/call_kw` so callers can invoke any model method
+ * (search_read, create, write, ...) without building envelopes by hand.
+ *
+ * The base URL and database are injectable, so the client can be pointed
+ * at a local JSON-RPC stand-in server instead of a real Odoo instance.
+ *
+ * When constructed with a login and API key (server-side only), model calls
+ * go through Odoo's external `/jsonrpc` API instead of the web session.
+ * When constructed with a login and password (server-side only), the client
+ * signs in through /web/session/authenticate on first use and signs in again
+ * whenever Odoo reports the session expired.
+ *
+ * @module lib/odoo/jsonRpcClient
+ */
+
+import { ODOO_CONFIG, API_CONFIG } from '@/lib/config';
+import { OdooSessionInfo } from '@/lib/odoo/types';
+
+/**
+ * Error raised when Odoo answers with a JSON-RPC error payload
+ */
+export class OdooRpcError extends Error {
+  public readonly code: number;
+  public readonly data?: {
+    name?: string;
+    debug?: string;
+    message?: string;
+    arguments?: unknown[];
+  };
+
+  constructor(message: string, code: number, data?: OdooRpcError['data']) {
+    super(message);
+    this.name = 'OdooRpcError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/**
+ * Options for search_read calls
+ */
+export interface SearchReadOptions {
+  fields?: string[];
+  limit?: number;
+  offset?: number;
+  order?: string;
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Client construction options
+ */
+export interface OdooClientOptions {
+  baseUrl: string;
+  database: string;
+  sessionId?: string | null;
+  login?: string;
+  apiKey?: string;
+  password?: string;
+  timeout?: number;
+}
+
+/**
+ * Endpoints that work without a web session
+ */
+const SESSIONLESS_ENDPOINTS: string[] = [
+  ODOO_CONFIG.endpoints.authenticate,
+  ODOO_CONFIG.endpoints.databaseList,
+  ODOO_CONFIG.endpoints.jsonrpc,
+];
+
+/**
+ * Whether an error is Odoo reporting that the web session has expired
+ */
+function isSessionExpired(error: unknown): boolean {
+  return error instanceof OdooRpcError
+    && (error.code === 100 || error.data?.name === 'odoo.http.SessionExpiredException');
+}
+
+/**
+ * Shape of a JSON-RPC 2.0 response from Odoo
+ */
+interface JsonRpcResponse<T> {
+  jsonrpc: '2.0';
+  id: number | null;
+  result?: T;
+  error?: {
+    code: number;
+    message: string;
+    data?: OdooRpcError['data'];
+  };
+}
+
+/**
+ * Odoo JSON-RPC Client Class
+ */
+export class OdooJsonRpcClient {
+  private baseUrl: string;
+  private database: string;
+  // Shared with the clients derived through withContext
+  private session: { id: string | null; renewing: Promise<void> | null };
+  private login: string | null;
+  private apiKey: string | null;
+  private password: string | null;
+  private uid: number | null = null;
+  private context: Record<string, unknown> = {};
+  private timeout: number;
+  private requestId: number = 0;
+
+  constructor(options: OdooClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.database = options.database;
+    this.session = { id: options.sessionId ?? null, renewing: null };
+    this.login = options.login || null;
+    this.apiKey = options.apiKey || null;
+    this.password = options.password || null;
+    this.timeout = options.timeout ?? API_CONFIG.timeout;
+  }
+
+  /**
+   * Get the database this client targets
+   */
+  public getDatabase(): string {
+    return this.database;
+  }
+
+  /**
+   * Get the Odoo session ID currently in use
+   */
+  public getSessionId(): string | null {
+    return this.session.id;
+  }
+
+  /**
+   * Set the Odoo session ID sent with each request
+   *
+   * @param sessionId - Session ID returned by /web/session/authenticate
+   */
+  public setSessionId(sessionId: string | null): void {
+    this.session.id = sessionId;
+  }
+
+  /**
+   * Derive a client on the same session whose model calls run with extra
+   * context (e.g. allowed_company_ids)
+   *
+   * @param context - Context merged into every model call
+   * @returns Derived client
+   */
+  public withContext(context: Record<string, unknown>): OdooJsonRpcClient {
+    const scoped = new OdooJsonRpcClient({
+      baseUrl: this.baseUrl,
+      database: this.database,
+      login: this.login ?? undefined,
+      apiKey: this.apiKey ?? undefined,
+      password: this.password ?? undefined,
+      timeout: this.timeout,
+    });
+    scoped.session = this.session;
+    scoped.context = { ...this.context, ...context };
+    return scoped;
+  }
+
+  /**
+   * Send a raw JSON-RPC request to an Odoo endpoint.
+   * With a stored password, signs in first when there is no session yet and
+   * retries once on a fresh session when Odoo reports it expired.
+   *
+   * @param endpoint - Endpoint path (e.g. ODOO_CONFIG.endpoints.call)
+   * @param params - JSON-RPC params object
+   * @returns The `result` member of the response
+   * @throws OdooRpcError if Odoo returns an error payload
+   */
+  public async rpc<T>(endpoint: string, params: Record<string, unknown>): Promise<T> {
+    const renewable = this.canRenewSession() && !SESSIONLESS_ENDPOINTS.includes(endpoint);
+    if (renewable && !this.session.id) {
+      await this.renewSession();
+    }
+
+    try {
+      return await this.send<T>(endpoint, params);
+    } catch (error) {
+      if (!renewable || !isSessionExpired(error)) throw error;
+      await this.renewSession();
+      return this.send<T>(endpoint, params);
+    }
+  }
+
+  /**
+   * Post a JSON-RPC envelope, keeping the session ID Odoo sets in return
+   */
+  private async send<T>(endpoint: string, params: Record<string, unknown>): Promise<T> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    // Browsers manage the session cookie themselves; on the server we pass it explicitly
+    if (this.session.id && typeof window === 'undefined') {
+      headers.Cookie = `session_id=${this.session.id}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers,
+      credentials: 'include',
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'call',
+        params,
+        id: ++this.requestId,
+      }),
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Odoo HTTP error: ${response.status} ${response.statusText}`);
+    }
+
+    // Odoo issues a new session on sign-in and may rotate it later
+    const sessionCookie = response.headers.get('set-cookie')?.match(/(?:^|[\s,;])session_id=([^;,\s]+)/);
+    if (sessionCookie && typeof window === 'undefined') {
+      this.session.id = sessionCookie[1];
+    }
+
+    const payload: JsonRpcResponse<T> = await response.json();
+
+    if (payload.error) {
+      throw new OdooRpcError(
+        payload.error.data?.message || payload.error.message,
+        payload.error.code,
+        payload.error.data
+      );
+    }
+
+    return payload.result as T;
+  }
+
+  /**
+   * Sign in through /web/session/authenticate.
+   * The session ID is kept by the client for the calls that follow.
+   *
+   * @param login - Odoo user login
+   * @param password - Password
+   * @returns Session info, or null if the credentials are invalid
+   */
+  public async authenticate(login: string, password: string): Promise<OdooSessionInfo | null> {
+    this.session.id = null;
+    try {
+      const info = await this.send<OdooSessionInfo | null>(ODOO_CONFIG.endpoints.authenticate, {
+        db: this.database,
+        login,
+        password,
+      });
+      return info?.uid ? info : null;
+    } catch (error) {
+      if (error instanceof OdooRpcError && error.data?.name === 'odoo.exceptions.AccessDenied') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Sign out of the current web session
+   */
+  public async destroySession(): Promise<void> {
+    if (!this.session.id) return;
+    await this.send<unknown>(ODOO_CONFIG.endpoints.destroySession, {});
+    this.session.id = null;
+  }
+
+  /**
+   * List the databases of the Odoo server.
+   * Fails when the database manager is disabled (list_db = False).
+   *
+   * @returns Database names
+   */
+  public async listDatabases(): Promise<string[]> {
+    return this.rpc<string[]>(ODOO_CONFIG.endpoints.databaseList, {});
+  }
+
+  /**
+   * Whether the client can sign in again on its own (server-side, with a password)
+   */
+  private canRenewSession(): boolean {
+    return !!this.login && !!this.password && !this.apiKey && typeof window === 'undefined';
+  }
+
+  /**
+   * Sign in again with the stored password.
+   * Concurrent callers share a single sign-in.
+   */
+  private async renewSession(): Promise<void> {
+    if (!this.session.renewing) {
+      this.session.renewing = this.authenticate(this.login as string, this.password as string)
+        .then((info) => {
+          if (!info) {
+            throw new OdooRpcError('Odoo rejected the stored credentials', 401);
+          }
+        })
+        .finally(() => {
+          this.session.renewing = null;
+        });
+    }
+    return this.session.renewing;
+  }
+
+  /**
+   * Check login/password (or login/API key) against Odoo's common service
+   *
+   * @param login - Odoo user login
+   * @param password - Password or API key
+   * @returns Odoo user ID, or false if the credentials are invalid
+   */
+  public async authenticateCredentials(login: string, password: string): Promise<number | false> {
+    return this.rpc<number | false>(ODOO_CONFIG.endpoints.jsonrpc, {
+      service: 'common',
+      method: 'authenticate',
+      args: [this.database, login, password, {}],
+    });
+  }
+
+  /**
+   * Call a model method through /web/dataset/call_kw,
+   * or through /jsonrpc execute_kw when an API key is configured
+   *
+   * @param model - Odoo model name (e.g. 'sale.order')
+   * @param method - Model method name
+   * @param args - Positional arguments
+   * @param kwargs - Keyword arguments
+   * @returns Method result
+   */
+  public async callKw<T>(
+    model: string,
+    method: string,
+    args: unknown[] = [],
+    kwargs: Record<string, unknown> = {}
+  ): Promise<T> {
+    if (Object.keys(this.context).length > 0) {
+      kwargs = { ...kwargs, context: { ...this.context, ...(kwargs.context as Record<string, unknown>) } };
+    }
+
+    if (this.apiKey) {
+      const uid = await this.getApiKeyUid();
+      return this.rpc<T>(ODOO_CONFIG.endpoints.jsonrpc, {
+        service: 'object',
+        method: 'execute_kw',
+        args: [this.database, uid, this.apiKey, model, method, args, kwargs],
+      });
+    }
+
+    return this.rpc<T>(ODOO_CONFIG.endpoints.call, {
+      model,
+      method,
+      args,
+      kwargs,
+    });
+  }
+
+  /**
+   * Resolve (once) the Odoo user ID behind the configured API key
+   */
+  private async getApiKeyUid(): Promise<number> {
+    if (this.uid !== null) return this.uid;
+
+    if (!this.login || !this.apiKey) {
+      throw new Error('Odoo login and API key are required for API key authentication');
+    }
+
+    const uid = await this.authenticateCredentials(this.login, this.apiKey);
+    if (!uid) {
+      throw new OdooRpcError('Odoo rejected the configured API key', 401);
+    }
+
+    this.uid = uid;
+    return uid;
+  }
+
+  /**
+   * Download a rendered QWeb PDF report.
+   * Report routes only accept web sessions, so this needs a session ID.
+   *
+   * @param reportName - Report technical name (e.g. 'account.report_invoice')
+   * @param ids - Record IDs to render
+   * @returns PDF bytes
+   */
+  public async downloadReport(reportName: string, ids: number[]): Promise<ArrayBuffer> {
+    if (!this.session.id && this.canRenewSession()) {
+      await this.renewSession();
+    }
+    if (!this.session.id && typeof window === 'undefined') {
+      throw new Error('An Odoo web session is required to render reports');
+    }
+
+    const fetchReport = () => fetch(`${this.baseUrl}/report/pdf/${reportName}/${ids.join(',')}`, {
+      headers: this.session.id && typeof window === 'undefined'
+        ? { Cookie: `session_id=${this.session.id}` }
+        : undefined,
+      credentials: 'include',
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    let response = await fetchReport();
+    // An expired session is redirected to the login page
+    if (response.redirected && this.canRenewSession()) {
+      await this.renewSession();
+      response = await fetchReport();
+    }
+
+    if (!response.ok || !response.headers.get('content-type')?.includes('application/pdf')) {
+      throw new Error(`Odoo report error: ${response.status} ${response.statusText}`);
+    }
+
+    return response.arrayBuffer();
+  }
+
+  /**
+   * Search and read records matching a domain
+   *
+   * @param model - Odoo model name
+   * @param domain - Odoo search domain
+   * @param options - Fields, paging and ordering
+   * @returns Matching records
+   */
+  public async searchRead<T>(
+    model: string,
+    domain: unknown[] = [],
+    options: SearchReadOptions = {}
+  ): Promise<T[]> {
+    const { context, ...rest } = options;
+    return this.callKw<T[]>(model, 'search_read', [], {
+      domain,
+      ...rest,
+      ...(context && { context }),
+    });
+  }
+
+  /**
+   * Count records matching a domain
+   *
+   * @param model - Odoo model name
+   * @param domain - Odoo search domain
+   * @returns Number of matching records
+   */
+  public async searchCount(model: string, domain: unknown[] = []): Promise<number> {
+    return this.callKw<number>(model, 'search_count', [domain]);
+  }
+
+  /**
+   * Find the IDs of records matching a domain
+   *
+   * @param model - Odoo model name
+   * @param domain - Odoo search domain
+   * @returns Matching record IDs
+   */
+  public async search(model: string, domain: unknown[] = []): Promise<number[]> {
+    return this.callKw<number[]>(model, 'search', [domain]);
+  }
+
+  /**
+   * Read specific records by ID
+   *
+   * @param model - Odoo model name
+   * @param ids - Record IDs
+   * @param fields - Fields to read
+   * @returns Records in the order Odoo returns them
+   */
+  public async read<T>(model: string, ids: number[], fields?: string[]): Promise<T[]> {
+    if (ids.length === 0) return [];
+    return this.callKw<T[]>(model, 'read', [ids], fields ? { fields } : {});
+  }
+
+  /**
+   * Create a record
+   *
+   * @param model - Odoo model name
+   * @param values - Field values
+   * @returns ID of the created record
+   */
+  public async create(model: string, values: Record<string, unknown>): Promise<number> {
+    return this.callKw<number>(model, 'create', [values]);
+  }
+
+  /**
+   * Update records
+   *
+   * @param model - Odoo model name
+   * @param ids - Record IDs to update
+   * @param values - Field values
+   * @returns True on success
+   */
+  public async write(model: string, ids: number[], values: Record<string, unknown>): Promise<boolean> {
+    return this.callKw<boolean>(model, 'write', [ids, values]);
+  }
+}
+
+// Export default client configured from environment.
+// Login and API key are only defined server-side, where the API routes use this client.
+export const odooClient = new OdooJsonRpcClient({
+  baseUrl: ODOO_CONFIG.url,
+  database: ODOO_CONFIG.database,
+  login: ODOO_CONFIG.login,
+  apiKey: ODOO_CONFIG.apiKey,
+});
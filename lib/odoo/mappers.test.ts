@@ -0,0 +1,315 @@
+import { describe, it, expect } from 'vitest';
+import {
+  OdooMappingError,
+  createOrderDataToOdooValues,
+  customerToOdooValues,
+  localToOdooDatetime,
+  odooDatetimeToLocalDate,
+  odooOrderToOrder,
+  odooPartnerToCustomer,
+  odooPricelistItemToRule,
+  orderStatusFromOdoo,
+  orderToOdooValues,
+  weighedOrderedQuantities,
+  withCategoryPath,
+} from '@/lib/odoo/mappers';
+import { OdooPartner, OdooPricelistItem, OdooSaleOrder, OdooSaleOrderLine } from '@/lib/odoo/types';
+import { CreateOrderData } from '@/types';
+
+const saleOrder = (values: Partial<OdooSaleOrder> = {}): OdooSaleOrder => ({
+  id: 42,
+  name: 'S00042',
+  partner_id: [7, 'Le Méridien'],
+  user_id: [2, 'Ravi'],
+  date_order: '2025-03-14 08:30:00',
+  state: 'sale',
+  delivery_status: 'pending',
+  invoice_status: 'to invoice',
+  amount_untaxed: 100,
+  amount_tax: 15,
+  amount_total: 115,
+  order_line: [1],
+  note: false,
+  origin: false,
+  x_portal_delivery_address: false,
+  create_date: '2025-03-14 08:30:00',
+  write_date: '2025-03-14 09:00:00',
+  ...values,
+});
+
+const orderLine: OdooSaleOrderLine = {
+  id: 1,
+  order_id: [42, 'S00042'],
+  product_id: [5, 'Beef fillet'],
+  name: 'Beef fillet',
+  product_uom_qty: 2,
+  qty_delivered: 0,
+  price_unit: 50,
+  discount: 0,
+  price_subtotal: 100,
+  price_tax: 15,
+  tax_id: [],
+};
+
+const partner = (values: Partial<OdooPartner> = {}): OdooPartner => ({
+  id: 7,
+  name: 'Le Méridien',
+  email: 'orders@meridien.mu',
+  phone: false,
+  mobile: '+230 5700 0000',
+  street: 'Pointe aux Piments',
+  city: 'Pointe aux Piments',
+  country_id: [137, 'Mauritius'],
+  active: true,
+  vat: false,
+  comment: false,
+  company_name: false,
+  sale_warn: 'no-message',
+  property_product_pricelist: [3, 'Hotels'],
+  credit: 1200,
+  credit_limit: 0,
+  create_date: '2024-01-01 00:00:00',
+  write_date: '2025-03-01 10:00:00',
+  ...values,
+});
+
+describe('local datetimes', () => {
+  it('converts local times to UTC', () => {
+    expect(localToOdooDatetime('2025-03-14 00:00:00')).toBe('2025-03-13 20:00:00');
+    expect(localToOdooDatetime('2025-07-01 12:00:00', 'Europe/Paris')).toBe('2025-07-01 10:00:00');
+    expect(localToOdooDatetime('2025-01-01 12:00:00', 'Europe/Paris')).toBe('2025-01-01 11:00:00');
+  });
+
+  it('reads the local day of a UTC datetime', () => {
+    expect(odooDatetimeToLocalDate('2025-03-14 19:59:59')).toBe('2025-03-14');
+    expect(odooDatetimeToLocalDate('2025-03-14 20:00:00')).toBe('2025-03-15');
+  });
+});
+
+describe('orderStatusFromOdoo', () => {
+  it('follows delivery before invoicing', () => {
+    expect(orderStatusFromOdoo('draft')).toBe('quotation');
+    expect(orderStatusFromOdoo('sale', 'pending', 'invoiced')).toBe('confirmed');
+    expect(orderStatusFromOdoo('sale', 'partial')).toBe('partially_delivered');
+    expect(orderStatusFromOdoo('sale', 'full', 'to invoice')).toBe('delivered');
+    expect(orderStatusFromOdoo('sale', 'full', 'invoiced', 'not_paid')).toBe('invoiced');
+    expect(orderStatusFromOdoo('sale', 'full', 'invoiced', 'in_payment')).toBe('paid');
+    expect(orderStatusFromOdoo('cancel', 'full')).toBe('cancelled');
+  });
+});
+
+describe('odooOrderToOrder', () => {
+  it('maps a sale order and its lines', () => {
+    const order = odooOrderToOrder(saleOrder(), [orderLine]);
+    expect(order).toMatchObject({
+      id: '42',
+      orderNumber: 'S00042',
+      customerId: '7',
+      customerName: 'Le Méridien',
+      date: '2025-03-14',
+      status: 'confirmed',
+      total: 115,
+      salespersonId: '2',
+      deliveryAddress: undefined,
+      createdAt: '2025-03-14T08:30:00.000Z',
+      syncStatus: 'synced',
+    });
+    expect(order.items).toHaveLength(1);
+    expect(order.items[0]).toMatchObject({ productId: '5', quantity: 2, unitPrice: 50, deliveredWeight: undefined });
+  });
+
+  it('dates the order on the local day it was placed', () => {
+    expect(odooOrderToOrder(saleOrder({ date_order: '2025-03-14 21:30:00' }), []).date).toBe('2025-03-15');
+  });
+
+  it('reads the LOCAL- number of an order taken offline from its source document', () => {
+    expect(odooOrderToOrder(saleOrder({ origin: 'LOCAL-20250314-1234' }), []).localOrderNumber).toBe('LOCAL-20250314-1234');
+    expect(odooOrderToOrder(saleOrder({ origin: 'S00012' }), []).localOrderNumber).toBeUndefined();
+  });
+
+  it('rejects a record missing a required field', () => {
+    const record = saleOrder();
+    delete (record as Partial<OdooSaleOrder>).amount_total;
+    expect(() => odooOrderToOrder(record, [])).toThrow(OdooMappingError);
+  });
+});
+
+describe('order values', () => {
+  const orderData: CreateOrderData = {
+    customerId: '7',
+    customerName: 'Le Méridien',
+    items: [
+      { productId: '5', productName: 'Beef fillet', productImage: '🥩', quantity: 2, unitPrice: 50, discount: 10 },
+      { productId: '6', productName: 'Lamb rack', productImage: '🍖', quantity: 1, unitPrice: 80, pricedByOdoo: true },
+    ],
+    deliveryAddress: 'Kitchen entrance, Pointe aux Piments',
+    salespersonId: '2',
+    pricelistId: '3',
+    localOrderNumber: 'LOCAL-20250314-1234',
+  };
+
+  it('creates lines, leaving the price of lines priced by Odoo unset', () => {
+    const values = createOrderDataToOdooValues(orderData);
+    expect(values).toMatchObject({
+      partner_id: 7,
+      user_id: 2,
+      pricelist_id: 3,
+      origin: 'LOCAL-20250314-1234',
+      note: false,
+    });
+    expect(values.order_line).toEqual([
+      [0, 0, { product_id: 5, product_uom_qty: 2, price_unit: 50, discount: 10 }],
+      [0, 0, { product_id: 6, product_uom_qty: 1, discount: 0 }],
+    ]);
+  });
+
+  it('writes only the fields being updated', () => {
+    expect(orderToOdooValues({ notes: '' })).toEqual({ note: false });
+    expect(orderToOdooValues({ salespersonId: '9', date: '2025-03-15T00:00:00.000Z' })).toEqual({
+      user_id: 9,
+      date_order: '2025-03-15 00:00:00',
+    });
+  });
+
+  it('reads the delivery address back from the field it is written to', () => {
+    const created = createOrderDataToOdooValues(orderData);
+    const createdOrder = odooOrderToOrder(saleOrder(created as Partial<OdooSaleOrder>), []);
+    expect(createdOrder.deliveryAddress).toBe(orderData.deliveryAddress);
+
+    const updated = orderToOdooValues({ deliveryAddress: 'Main gate' });
+    expect(odooOrderToOrder(saleOrder(updated as Partial<OdooSaleOrder>), []).deliveryAddress).toBe('Main gate');
+
+    const cleared = orderToOdooValues({ deliveryAddress: '' });
+    expect(odooOrderToOrder(saleOrder(cleared as Partial<OdooSaleOrder>), []).deliveryAddress).toBeUndefined();
+  });
+});
+
+describe('weighedOrderedQuantities', () => {
+  const lines = [
+    { id: 1, product_id: [5, 'Beef fillet'] as [number, string], product_uom_qty: 2 },
+    { id: 2, product_id: [6, 'Lamb rack'] as [number, string], product_uom_qty: 3 },
+  ];
+
+  it('sets lines invoiced on ordered quantities to their weight', () => {
+    expect(weighedOrderedQuantities(lines, { 5: 'order', 6: 'order' }, { 1: 1.85, 2: 3 })).toEqual({ 1: 1.85 });
+  });
+
+  it('leaves lines invoiced on delivered quantities to follow the delivery', () => {
+    expect(weighedOrderedQuantities(lines, { 5: 'delivery', 6: 'delivery' }, { 1: 1.85, 2: 3.2 })).toEqual({});
+  });
+
+  it('only changes weighed lines', () => {
+    expect(weighedOrderedQuantities(lines, { 5: 'order', 6: 'order' }, { 2: 3.2 })).toEqual({ 2: 3.2 });
+  });
+});
+
+describe('customer mappers', () => {
+  it('maps a partner to a customer', () => {
+    expect(odooPartnerToCustomer(partner())).toMatchObject({
+      id: '7',
+      name: 'Le Méridien',
+      email: 'orders@meridien.mu',
+      phone: '+230 5700 0000',
+      country: 'Mauritius',
+      status: 'active',
+      balance: 1200,
+      creditLimit: undefined,
+      pricelistId: '3',
+      odooPartnerId: 7,
+      updatedAt: '2025-03-01T10:00:00.000Z',
+    });
+  });
+
+  it('derives the status from the active flag and sale warning', () => {
+    expect(odooPartnerToCustomer(partner({ sale_warn: 'block' })).status).toBe('blocked');
+    expect(odooPartnerToCustomer(partner({ active: false, sale_warn: 'block' })).status).toBe('inactive');
+  });
+
+  it('round-trips the editable fields', () => {
+    const values = customerToOdooValues({
+      name: 'Le Méridien Ile Maurice',
+      email: '',
+      phone: '+230 204 3000',
+      address: 'Village Hall Lane',
+      city: 'Pointe aux Piments',
+      notes: 'Deliver before 9am',
+      status: 'blocked',
+    });
+    expect(values).toMatchObject({ email: false, active: true, sale_warn: 'block' });
+
+    const customer = odooPartnerToCustomer(partner(values as Partial<OdooPartner>));
+    expect(customer).toMatchObject({
+      name: 'Le Méridien Ile Maurice',
+      email: '',
+      phone: '+230 204 3000',
+      address: 'Village Hall Lane',
+      notes: 'Deliver before 9am',
+      status: 'blocked',
+    });
+  });
+
+  it('leaves out the fields not being updated', () => {
+    expect(customerToOdooValues({ city: 'Port Louis' })).toEqual({ city: 'Port Louis' });
+  });
+});
+
+describe('withCategoryPath', () => {
+  it('places a category in the tree from its parent path', () => {
+    expect(withCategoryPath({ id: '4', name: 'Meat / Beef / Premium cuts' }, { id: 4, parent_path: '1/2/4/' })).toEqual({
+      id: '4',
+      name: 'Meat / Beef / Premium cuts',
+      parentId: '2',
+      path: ['1', '2', '4'],
+    });
+  });
+
+  it('leaves a category it could not read as is', () => {
+    expect(withCategoryPath({ id: '4', name: 'Premium cuts' }, undefined)).toEqual({ id: '4', name: 'Premium cuts' });
+  });
+});
+
+describe('odooPricelistItemToRule', () => {
+  const item = (values: Partial<OdooPricelistItem>): OdooPricelistItem => ({
+    id: 12,
+    pricelist_id: [3, 'Hotels'],
+    applied_on: '3_global',
+    product_id: false,
+    product_tmpl_id: false,
+    categ_id: false,
+    min_quantity: 0,
+    compute_price: 'fixed',
+    fixed_price: 0,
+    percent_price: 0,
+    base: 'list_price',
+    price_discount: 0,
+    price_surcharge: 0,
+    price_round: 0,
+    price_min_margin: 0,
+    price_max_margin: 0,
+    date_start: false,
+    date_end: false,
+    ...values,
+  });
+
+  it('keeps formula rules with their parameters', () => {
+    expect(odooPricelistItemToRule(item({
+      compute_price: 'formula',
+      base: 'standard_price',
+      price_discount: -20,
+      price_round: 5,
+      price_surcharge: -0.05,
+    }))).toMatchObject({
+      computePrice: 'formula',
+      base: 'cost',
+      discount: -20,
+      rounding: 5,
+      surcharge: -0.05,
+      minMargin: undefined,
+    });
+  });
+
+  it('keeps the base of rules based on another pricelist', () => {
+    expect(odooPricelistItemToRule(item({ compute_price: 'percentage', percent_price: 5, base: 'pricelist' })))
+      .toMatchObject({ computePrice: 'percentage', percentOff: 5, base: 'pricelist' });
+  });
+});
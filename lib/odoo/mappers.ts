@@ -0,0 +1,977 @@
+/**
+ * Odoo Field Mappers
+ *
+ * Bidirectional conversion between raw Odoo records and portal types.
+ * All functions are pure, so they can be exercised without a server.
+ * Missing required fields raise an OdooMappingError instead of producing
+ * half-empty objects, so schema drift in Odoo surfaces immediately.
+ *
+ * @module lib/odoo/mappers
+ */
+
+import {
+  Many2one,
+  OdooSaleOrder,
+  OdooSaleOrderLine,
+  OdooPartner,
+  OdooProduct,
+  OdooUser,
+  OdooInvoice,
+  OdooPricelist,
+  OdooPricelistItem,
+  OdooPicking,
+  OdooStockMove,
+  OdooInvoiceLine,
+  OdooReceivableLine,
+  OdooCompany,
+  OdooInvoicePolicy,
+  OdooProductCategory,
+} from '@/lib/odoo/types';
+import {
+  Order,
+  OrderLine,
+  OrderStatus,
+  Customer,
+  CustomerStatus,
+  Product,
+  ProductCategory,
+  CreateOrderData,
+  User,
+  UserRole,
+  OrderInvoice,
+  MraFiscalisation,
+  Pricelist,
+  PricelistRule,
+  PricelistRuleBase,
+  PricelistRuleScope,
+  OrderDelivery,
+  DeliveryState,
+  OrderReturn,
+  ReturnReason,
+  CreateReturnData,
+  OpenInvoice,
+  CreatePaymentData,
+  Payment,
+  CreditOverride,
+  StatementEntry,
+  StatementEntryType,
+  Company,
+} from '@/types';
+import { APP_CONFIG } from '@/lib/config';
+import { recalculateOrderTotals } from '@/lib/pricing/orderTotals';
+import { RETURN_REASON_LABELS } from '@/lib/orders/returns';
+
+/**
+ * Error raised when an Odoo record lacks a field the portal depends on
+ */
+export class OdooMappingError extends Error {
+  public readonly model: string;
+  public readonly field: string;
+
+  constructor(model: string, field: string) {
+    super(`Odoo ${model} record is missing required field "${field}"`);
+    this.name = 'OdooMappingError';
+    this.model = model;
+    this.field = field;
+  }
+}
+
+/**
+ * Assert that every listed field is present on a record
+ */
+function requireFields<T extends object>(model: string, record: T, fields: (keyof T)[]): void {
+  for (const field of fields) {
+    if (record[field] === undefined) {
+      throw new OdooMappingError(model, String(field));
+    }
+  }
+}
+
+/**
+ * Portal placeholder image (products are displayed with emoji icons)
+ */
+const DEFAULT_PRODUCT_IMAGE = '📦';
+
+// ==================== PRIMITIVES ====================
+
+/**
+ * Get the ID of a many2one value as a portal string ID
+ *
+ * @example
+ * many2oneId([7, 'Le Méridien']) // "7"
+ * many2oneId(false) // ""
+ */
+export function many2oneId(value: Many2one): string {
+  return value ? String(value[0]) : '';
+}
+
+/**
+ * Get the display name of a many2one value
+ */
+export function many2oneName(value: Many2one): string {
+  return value ? value[1] : '';
+}
+
+/**
+ * Build a many2one value from a portal ID and name
+ */
+export function toMany2one(id: string | undefined, name: string = ''): Many2one {
+  const recordId = toRecordId(id);
+  return recordId ? [recordId, name] : false;
+}
+
+/**
+ * Convert a portal string ID to an Odoo record ID, or `false` if empty/invalid
+ */
+export function toRecordId(id: string | undefined): number | false {
+  if (!id) return false;
+  const recordId = parseInt(id, 10);
+  return Number.isNaN(recordId) ? false : recordId;
+}
+
+/**
+ * Convert an Odoo datetime ("YYYY-MM-DD HH:MM:SS", naive UTC) to ISO 8601
+ */
+export function fromOdooDatetime(value: string | false): string {
+  if (!value) return '';
+  return new Date(value.replace(' ', 'T') + 'Z').toISOString();
+}
+
+/**
+ * Convert a date to an Odoo datetime string (naive UTC)
+ */
+export function toOdooDatetime(date: Date | string): string {
+  const dateObj = typeof date === 'string' ? new Date(date) : date;
+  return dateObj.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Wall-clock time of an instant in a time zone, as if it were UTC (ms)
+ */
+function wallClockTime(time: number, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(new Date(time)).map((part) => [part.type, Number(part.value)])
+  );
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/**
+ * Convert a local time ("YYYY-MM-DD HH:MM:SS" in the users' time zone) to
+ * an Odoo datetime (naive UTC)
+ */
+export function localToOdooDatetime(local: string, timeZone: string = APP_CONFIG.timeZone): string {
+  const asUtc = new Date(local.replace(' ', 'T') + 'Z').getTime();
+  // The offset at the guessed instant, corrected once for a DST change in between
+  let time = asUtc - (wallClockTime(asUtc, timeZone) - asUtc);
+  time = asUtc - (wallClockTime(time, timeZone) - time);
+  return toOdooDatetime(new Date(time));
+}
+
+/**
+ * Local day (YYYY-MM-DD in the users' time zone) of an Odoo datetime
+ */
+export function odooDatetimeToLocalDate(value: string, timeZone: string = APP_CONFIG.timeZone): string {
+  const time = new Date(value.replace(' ', 'T') + 'Z').getTime();
+  return new Date(wallClockTime(time, timeZone)).toISOString().split('T')[0];
+}
+
+/**
+ * Map empty portal strings to Odoo's `false`
+ */
+function orFalse(value: string | undefined): string | false {
+  return value ? value : false;
+}
+
+// ==================== ORDER STATUS ====================
+
+/**
+ * Derive the portal order status from the sale.order state, delivery
+ * progress and invoicing. Delivery comes first: an order invoiced upfront
+ * stays confirmed until its goods are delivered.
+ *
+ * @param state - sale.order state
+ * @param deliveryStatus - sale.order delivery_status (computed from its pickings)
+ * @param invoiceStatus - sale.order invoice_status
+ * @param paymentState - payment_state of the order's latest invoice
+ * @returns Portal order status
+ */
+export function orderStatusFromOdoo(
+  state: OdooSaleOrder['state'],
+  deliveryStatus?: OdooSaleOrder['delivery_status'],
+  invoiceStatus?: OdooSaleOrder['invoice_status'],
+  paymentState?: OdooInvoice['payment_state']
+): OrderStatus {
+  switch (state) {
+    case 'cancel':
+      return 'cancelled';
+    case 'sale':
+      if (deliveryStatus === 'partial' || deliveryStatus === 'started') return 'partially_delivered';
+      if (deliveryStatus !== 'full') return 'confirmed';
+      if (paymentState === 'paid' || paymentState === 'in_payment') return 'paid';
+      return invoiceStatus === 'invoiced' ? 'invoiced' : 'delivered';
+    default:
+      return 'quotation';
+  }
+}
+
+/**
+ * Derive the portal order status from the states of an order's pickings
+ *
+ * @param pickingStates - stock.picking states of the order's deliveries
+ * @returns Portal order status
+ */
+export function orderStatusFromPickingStates(pickingStates: string[]): OrderStatus {
+  const active = pickingStates.filter((state) => state !== 'cancel');
+  if (pickingStates.length > 0 && active.length === 0) return 'cancelled';
+  if (active.length === 0) return 'quotation';
+  if (active.every((state) => state === 'done')) return 'delivered';
+  return active.some((state) => state === 'done') ? 'partially_delivered' : 'confirmed';
+}
+
+// ==================== DELIVERIES ====================
+
+/**
+ * Portal delivery state of each stock.picking state
+ */
+const DELIVERY_STATES: Record<OdooPicking['state'], DeliveryState> = {
+  draft: 'waiting',
+  waiting: 'waiting',
+  confirmed: 'waiting',
+  assigned: 'ready',
+  done: 'done',
+  cancel: 'cancelled',
+};
+
+/**
+ * Convert a stock.picking record and its moves to an order delivery
+ *
+ * @param picking - stock.picking record
+ * @param moves - The picking's stock.move records
+ * @returns Order delivery
+ */
+export function odooPickingToDelivery(picking: OdooPicking, moves: OdooStockMove[]): OrderDelivery {
+  requireFields('stock.picking', picking, ['name', 'state', 'scheduled_date']);
+
+  return {
+    id: String(picking.id),
+    name: picking.name,
+    state: DELIVERY_STATES[picking.state],
+    scheduledDate: fromOdooDatetime(picking.scheduled_date),
+    doneDate: fromOdooDatetime(picking.date_done) || undefined,
+    backorderOf: many2oneName(picking.backorder_id) || undefined,
+    lines: moves
+      .filter((move) => move.state !== 'cancel')
+      .map((move) => ({
+        orderLineId: many2oneId(move.sale_line_id),
+        productName: many2oneName(move.product_id),
+        quantity: move.product_uom_qty,
+        doneQuantity: move.state === 'done' ? move.quantity : undefined,
+      })),
+  };
+}
+
+// ==================== ORDERS ====================
+
+/**
+ * Convert a sale.order.line record to a portal order line
+ */
+export function odooOrderLineToOrderLine(line: OdooSaleOrderLine): OrderLine {
+  requireFields('sale.order.line', line, ['product_id', 'product_uom_qty', 'price_unit', 'price_subtotal']);
+
+  return {
+    id: String(line.id),
+    productId: many2oneId(line.product_id),
+    productName: many2oneName(line.product_id) || line.name,
+    productImage: DEFAULT_PRODUCT_IMAGE,
+    quantity: line.product_uom_qty,
+    // Nothing delivered yet means the line has not been weighed
+    deliveredWeight: line.qty_delivered || undefined,
+    unitPrice: line.price_unit,
+    discount: line.discount || 0,
+    subtotal: line.price_subtotal,
+    tax: line.price_tax,
+  };
+}
+
+/**
+ * Convert a portal order line to sale.order.line values
+ */
+export function orderLineToOdooValues(
+  line: Pick<OrderLine, 'productId' | 'quantity' | 'unitPrice' | 'discount'>
+): Record<string, unknown> {
+  return {
+    product_id: toRecordId(line.productId),
+    product_uom_qty: line.quantity,
+    price_unit: line.unitPrice,
+    discount: line.discount || 0,
+  };
+}
+
+/**
+ * Convert a sale.order record and its lines to a portal order.
+ * Odoo's amounts are based on ordered quantities, so fully delivered orders
+ * with weighed lines are re-priced from their delivered weights. Partially
+ * delivered orders keep billing ordered quantities until the last backorder ships.
+ *
+ * @param record - sale.order record
+ * @param lines - The order's sale.order.line records
+ * @param invoice - The order's latest account.move, if invoiced
+ * @param deliveries - The order's deliveries
+ * @param returns - Returns credited against the order's invoices
+ * @returns Portal order
+ */
+export function odooOrderToOrder(
+  record: OdooSaleOrder,
+  lines: OdooSaleOrderLine[],
+  invoice?: OdooInvoice,
+  deliveries?: OrderDelivery[],
+  returns?: OrderReturn[]
+): Order {
+  requireFields('sale.order', record, [
+    'name', 'partner_id', 'date_order', 'state', 'amount_untaxed', 'amount_tax', 'amount_total',
+  ]);
+
+  const order: Order = {
+    id: String(record.id),
+    orderNumber: record.name,
+    customerId: many2oneId(record.partner_id),
+    customerName: many2oneName(record.partner_id),
+    date: odooDatetimeToLocalDate(record.date_order),
+    status: orderStatusFromOdoo(record.state, record.delivery_status, record.invoice_status, invoice?.payment_state),
+    items: lines.map((line) => {
+      const item = odooOrderLineToOrderLine(line);
+      return record.delivery_status === 'full' ? item : { ...item, deliveredWeight: undefined };
+    }),
+    subtotal: record.amount_untaxed,
+    tax: record.amount_tax,
+    total: record.amount_total,
+    salespersonId: many2oneId(record.user_id),
+    salespersonName: many2oneName(record.user_id),
+    deliveryAddress: record.x_portal_delivery_address || undefined,
+    notes: record.note || undefined,
+    localOrderNumber: localOrderNumberFromOrigin(record.origin),
+    invoice: invoice && odooInvoiceToOrderInvoice(invoice),
+    deliveries,
+    returns,
+    createdAt: fromOdooDatetime(record.create_date),
+    updatedAt: fromOdooDatetime(record.write_date),
+    syncStatus: 'synced',
+  };
+
+  return order.items.some((item) => item.deliveredWeight !== undefined)
+    ? recalculateOrderTotals(order)
+    : order;
+}
+
+/**
+ * Convert portal order updates to sale.order values.
+ * Only fields present in `updates` are written; the status changes
+ * through lifecycle actions only (see lib/orders/orderLifecycle).
+ *
+ * @param updates - Partial portal order
+ * @returns sale.order values for `write`
+ */
+export function orderToOdooValues(updates: Partial<Order>): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+
+  if (updates.customerId !== undefined) values.partner_id = toRecordId(updates.customerId);
+  if (updates.date !== undefined) values.date_order = toOdooDatetime(updates.date);
+  if (updates.salespersonId !== undefined) values.user_id = toRecordId(updates.salespersonId);
+  if (updates.deliveryAddress !== undefined) values.x_portal_delivery_address = orFalse(updates.deliveryAddress);
+  if (updates.notes !== undefined) values.note = orFalse(updates.notes);
+  if (updates.items !== undefined) {
+    // Replace all lines: (5) clears existing lines, (0, 0, vals) creates new ones
+    values.order_line = [[5, 0, 0], ...updates.items.map((item) => [0, 0, orderLineToOdooValues(item)])];
+  }
+
+  return values;
+}
+
+/**
+ * LOCAL- number of an order taken offline, from its source document
+ */
+export function localOrderNumberFromOrigin(origin: string | false | undefined): string | undefined {
+  return (origin && /^LOCAL-\S+/.exec(origin)?.[0]) || undefined;
+}
+
+/**
+ * Convert portal order creation data to sale.order values
+ *
+ * @param orderData - Order form data
+ * @returns sale.order values for `create`
+ */
+export function createOrderDataToOdooValues(orderData: CreateOrderData): Record<string, unknown> {
+  const salespersonId = toRecordId(orderData.salespersonId);
+
+  return {
+    partner_id: toRecordId(orderData.customerId),
+    order_line: orderData.items.map((item) => {
+      const values = orderLineToOdooValues(item);
+      // Without a price, Odoo computes it from the order's pricelist
+      if (item.pricedByOdoo) delete values.price_unit;
+      return [0, 0, values];
+    }),
+    note: orFalse(orderData.notes),
+    x_portal_delivery_address: orFalse(orderData.deliveryAddress),
+    // Source document of an order taken offline: the number it was taken under
+    ...(orderData.localOrderNumber && { origin: orderData.localOrderNumber }),
+    ...(orderData.pricelistId && { pricelist_id: toRecordId(orderData.pricelistId) }),
+    // Fall back to Odoo's default (the calling user) when no salesperson is given
+    ...(salespersonId && { user_id: salespersonId }),
+    ...(orderData.signature && {
+      signature: orderData.signature.replace(/^data:image\/\w+;base64,/, ''),
+      signed_by: orFalse(orderData.customerName),
+      signed_on: toOdooDatetime(new Date()),
+    }),
+  };
+}
+
+/**
+ * Ordered quantities to write on weighed sale lines, so every line is
+ * invoiced for the weight delivered. Lines invoiced on delivered quantities
+ * already follow the delivery; lines invoiced on ordered quantities are set
+ * to their weight, and the difference with what was invoiced is then
+ * invoiced or credited.
+ *
+ * @param lines - Weighed sale.order.line records
+ * @param invoicePolicies - Invoice policy per product.product ID
+ * @param weights - Delivered weight (kg) per sale.order.line ID
+ * @returns New ordered quantity per sale.order.line ID, for lines that change
+ */
+export function weighedOrderedQuantities(
+  lines: Pick<OdooSaleOrderLine, 'id' | 'product_id' | 'product_uom_qty'>[],
+  invoicePolicies: Record<number, OdooInvoicePolicy | undefined>,
+  weights: Record<string, number>
+): Record<number, number> {
+  const quantities: Record<number, number> = {};
+  for (const line of lines) {
+    const weight = weights[String(line.id)];
+    const productId = line.product_id ? line.product_id[0] : undefined;
+    if (weight === undefined || productId === undefined || invoicePolicies[productId] !== 'order') continue;
+    if (weight !== line.product_uom_qty) quantities[line.id] = weight;
+  }
+  return quantities;
+}
+
+// ==================== INVOICES ====================
+
+/**
+ * Convert an account.move record to a portal order invoice.
+ * Fiscalisation is only set when the MRA fields were read.
+ *
+ * @param record - account.move record
+ * @returns Portal order invoice
+ */
+export function odooInvoiceToOrderInvoice(record: OdooInvoice): OrderInvoice {
+  requireFields('account.move', record, ['name', 'state', 'amount_total']);
+
+  return {
+    id: String(record.id),
+    name: record.name,
+    state: record.state,
+    paymentState: record.payment_state || undefined,
+    amountTotal: record.amount_total,
+    fiscalisation: record.x_mra_status !== undefined
+      ? {
+          status: record.x_mra_status || 'pending',
+          irn: record.x_mra_irn || undefined,
+          qrCode: record.x_mra_qr_code || undefined,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Convert a fiscalisation result to account.move values
+ *
+ * @param fiscalisation - MRA fiscalisation result
+ * @returns account.move values for `write`
+ */
+export function fiscalisationToOdooValues(fiscalisation: MraFiscalisation): Record<string, unknown> {
+  return {
+    x_mra_status: fiscalisation.status,
+    x_mra_irn: orFalse(fiscalisation.irn),
+    x_mra_qr_code: orFalse(fiscalisation.qrCode),
+  };
+}
+
+// ==================== RETURNS ====================
+
+/**
+ * Credit notes carry their return reason in their reference, e.g. "Return (spoiled)"
+ */
+const RETURN_REF_PATTERN = /^Return \((\w+)\)/;
+
+/**
+ * Reference of the credit note for a return
+ */
+export function returnReference(reason: ReturnReason): string {
+  return `Return (${reason})`;
+}
+
+/**
+ * Convert a credit note (out_refund account.move) and its lines to an order return.
+ * Credit note lines are matched to the order line selling the same product.
+ *
+ * @param refund - account.move record
+ * @param lines - The credit note's account.move.line records
+ * @param orderLines - sale.order.line records of the credited order
+ * @returns Order return
+ */
+export function odooRefundToReturn(
+  refund: OdooInvoice,
+  lines: OdooInvoiceLine[],
+  orderLines: OdooSaleOrderLine[]
+): OrderReturn {
+  requireFields('account.move', refund, ['name', 'state', 'amount_total']);
+
+  const reason = refund.ref ? refund.ref.match(RETURN_REF_PATTERN)?.[1] : undefined;
+
+  return {
+    id: String(refund.id),
+    creditNoteName: refund.name,
+    state: refund.state,
+    reason: reason && reason in RETURN_REASON_LABELS ? (reason as ReturnReason) : 'other',
+    // narration is HTML
+    notes: refund.narration ? refund.narration.replace(/<[^>]*>/g, '').trim() || undefined : undefined,
+    date: refund.invoice_date || '',
+    lines: lines
+      .filter((line) => line.display_type === 'product')
+      .map((line) => {
+        const orderLine = orderLines.find((candidate) => many2oneId(candidate.product_id) === many2oneId(line.product_id));
+        return {
+          orderLineId: orderLine ? String(orderLine.id) : '',
+          productId: many2oneId(line.product_id),
+          productName: many2oneName(line.product_id) || line.name || '',
+          quantity: line.quantity,
+          unitPrice: line.price_unit,
+          discount: line.discount || 0,
+          subtotal: line.price_subtotal,
+        };
+      }),
+    amountTotal: refund.amount_total,
+    photoCount: refund.message_attachment_count,
+  };
+}
+
+/**
+ * Build the values of a credit note for returned goods.
+ * Lines are priced like the order lines they come from (price, discount
+ * and taxes), and are deliberately not linked to them: the return does
+ * not reopen the order for invoicing.
+ *
+ * @param order - Credited sale.order record
+ * @param invoiceId - account.move ID of the invoice being credited
+ * @param orderLines - The order's sale.order.line records
+ * @param data - Return form data
+ * @returns account.move values for `create`
+ */
+export function returnToOdooRefundValues(
+  order: Pick<OdooSaleOrder, 'name' | 'partner_id'>,
+  invoiceId: number,
+  orderLines: OdooSaleOrderLine[],
+  data: CreateReturnData
+): Record<string, unknown> {
+  const linesById = new Map(orderLines.map((line) => [String(line.id), line]));
+
+  return {
+    move_type: 'out_refund',
+    partner_id: order.partner_id ? order.partner_id[0] : false,
+    reversed_entry_id: invoiceId,
+    invoice_origin: order.name,
+    ref: returnReference(data.reason),
+    narration: orFalse(data.notes),
+    invoice_line_ids: data.lines
+      .filter((line) => line.quantity > 0 && linesById.has(line.orderLineId))
+      .map((line) => {
+        const orderLine = linesById.get(line.orderLineId) as OdooSaleOrderLine;
+        return [0, 0, {
+          product_id: orderLine.product_id ? orderLine.product_id[0] : false,
+          quantity: line.quantity,
+          price_unit: orderLine.price_unit,
+          discount: orderLine.discount,
+          ...(orderLine.tax_id && { tax_ids: [[6, 0, orderLine.tax_id]] }),
+        }];
+      }),
+  };
+}
+
+// ==================== PAYMENTS ====================
+
+/**
+ * Convert a posted account.move with an amount due to an open invoice
+ *
+ * @param record - account.move record
+ * @returns Open invoice
+ */
+export function odooInvoiceToOpenInvoice(record: OdooInvoice): OpenInvoice {
+  requireFields('account.move', record, ['name', 'amount_total', 'amount_residual']);
+
+  return {
+    id: String(record.id),
+    name: record.name,
+    orderNumber: record.invoice_origin || undefined,
+    date: record.invoice_date || '',
+    dueDate: record.invoice_date_due || undefined,
+    amountTotal: record.amount_total,
+    amountResidual: record.amount_residual as number,
+  };
+}
+
+/**
+ * Memo written on the account.payment records of a portal receipt
+ */
+export function paymentMemo(data: Pick<CreatePaymentData, 'receiptNumber' | 'reference'>): string {
+  return [data.receiptNumber, data.reference].filter(Boolean).join(' / ');
+}
+
+/**
+ * Convert the unallocated part of a payment to account.payment values
+ * (a customer advance, left to reconcile with later invoices)
+ *
+ * @param data - Payment form data
+ * @param amount - Unallocated amount
+ * @param journalId - account.journal the payment method posts to
+ * @returns account.payment values for `create`
+ */
+export function advancePaymentToOdooValues(
+  data: CreatePaymentData,
+  amount: number,
+  journalId: number
+): Record<string, unknown> {
+  return {
+    payment_type: 'inbound',
+    partner_type: 'customer',
+    partner_id: toRecordId(data.customerId),
+    amount,
+    journal_id: journalId,
+    date: data.date || toOdooDatetime(new Date()).split(' ')[0],
+    memo: paymentMemo(data),
+  };
+}
+
+/**
+ * Build the portal payment recorded for a receipt from its form data
+ *
+ * @param data - Payment form data, with its receipt number
+ * @param paymentIds - account.payment records posted for the receipt
+ * @returns Recorded payment
+ */
+export function paymentDataToPayment(
+  data: CreatePaymentData & { receiptNumber: string },
+  paymentIds: number[]
+): Payment {
+  return {
+    receiptNumber: data.receiptNumber,
+    customerId: data.customerId,
+    customerName: data.customerName,
+    method: data.method,
+    amount: data.amount,
+    reference: data.reference,
+    date: data.date || new Date().toISOString().split('T')[0],
+    allocations: data.allocations,
+    salespersonName: data.salespersonName,
+    paymentIds: paymentIds.map(String),
+    createdAt: new Date().toISOString(),
+    syncStatus: 'synced',
+  };
+}
+
+// ==================== STATEMENTS ====================
+
+/**
+ * Derive the statement entry type of a receivable line from its journal entry
+ */
+export function statementEntryType(record: Pick<OdooReceivableLine, 'move_type' | 'payment_id'>): StatementEntryType {
+  if (record.payment_id) return 'payment';
+  if (record.move_type === 'out_invoice') return 'invoice';
+  if (record.move_type === 'out_refund') return 'credit_note';
+  return 'other';
+}
+
+/**
+ * Convert a receivable account.move.line to a statement line.
+ * The running balance is added when the statement is built.
+ *
+ * @param record - account.move.line record
+ * @returns Statement line without its balance
+ */
+export function odooReceivableLineToStatementLine(record: OdooReceivableLine): Omit<StatementEntry, 'balance'> {
+  requireFields('account.move.line', record, ['date', 'move_name', 'debit', 'credit']);
+
+  return {
+    date: record.date,
+    type: statementEntryType(record),
+    reference: record.move_name,
+    description: record.ref || record.name || undefined,
+    dueDate: record.date_maturity || undefined,
+    debit: record.debit,
+    credit: record.credit,
+  };
+}
+
+// ==================== CUSTOMERS ====================
+
+/**
+ * Derive the portal customer status from res.partner flags
+ */
+export function customerStatusFromOdoo(record: Pick<OdooPartner, 'active' | 'sale_warn'>): CustomerStatus {
+  if (!record.active) return 'inactive';
+  return record.sale_warn === 'block' ? 'blocked' : 'active';
+}
+
+/**
+ * Convert a res.partner record to a portal customer
+ *
+ * @param record - res.partner record
+ * @returns Portal customer
+ */
+export function odooPartnerToCustomer(record: OdooPartner): Customer {
+  requireFields('res.partner', record, ['name', 'active', 'create_date', 'write_date']);
+
+  return {
+    id: String(record.id),
+    name: record.name,
+    email: record.email || '',
+    phone: record.phone || record.mobile || '',
+    address: record.street || '',
+    city: record.city || '',
+    country: many2oneName(record.country_id),
+    status: customerStatusFromOdoo(record),
+    totalOrders: record.sale_order_count ?? 0,
+    totalSpent: record.total_invoiced ?? 0,
+    balance: record.credit,
+    creditLimit: record.credit_limit || undefined,
+    lastOrderDate: '',
+    company: record.company_name || undefined,
+    taxId: record.vat || undefined,
+    notes: record.comment || undefined,
+    pricelistId: record.property_product_pricelist ? many2oneId(record.property_product_pricelist) : undefined,
+    odooPartnerId: record.id,
+    createdAt: fromOdooDatetime(record.create_date),
+    updatedAt: fromOdooDatetime(record.write_date),
+  };
+}
+
+/**
+ * Chatter note recording an admin's approval of an order the credit check blocked
+ *
+ * @param override - Credit override
+ * @param reasons - Why the credit check blocked the order
+ * @returns Message body
+ */
+export function creditOverrideMessage(override: CreditOverride, reasons: string[]): string {
+  return [
+    `Credit check overridden by ${override.approvedBy} on ${override.approvedAt}: ${override.reason}`,
+    ...reasons.map((reason) => `- ${reason}`),
+  ].join('\n');
+}
+
+/**
+ * Convert portal customer fields to res.partner values.
+ * `country` is a display name and cannot be written without a
+ * res.country lookup, so it is left to the caller.
+ *
+ * @param customer - Partial portal customer
+ * @returns res.partner values for `create`/`write`
+ */
+export function customerToOdooValues(customer: Partial<Customer>): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+
+  if (customer.name !== undefined) values.name = customer.name;
+  if (customer.email !== undefined) values.email = orFalse(customer.email);
+  if (customer.phone !== undefined) values.phone = orFalse(customer.phone);
+  if (customer.address !== undefined) values.street = orFalse(customer.address);
+  if (customer.city !== undefined) values.city = orFalse(customer.city);
+  if (customer.taxId !== undefined) values.vat = orFalse(customer.taxId);
+  if (customer.notes !== undefined) values.comment = orFalse(customer.notes);
+  if (customer.company !== undefined) values.company_name = orFalse(customer.company);
+  if (customer.status !== undefined) {
+    values.active = customer.status !== 'inactive';
+    values.sale_warn = customer.status === 'blocked' ? 'block' : 'no-message';
+  }
+
+  return values;
+}
+
+// ==================== USERS ====================
+
+/**
+ * Convert a res.users record to a portal user
+ *
+ * @param record - res.users record
+ * @param role - Portal role derived from the user's Odoo groups
+ * @returns Portal user
+ */
+export function odooUserToUser(record: OdooUser, role: UserRole): User {
+  requireFields('res.users', record, ['name', 'login', 'partner_id']);
+
+  return {
+    id: String(record.id),
+    name: record.name,
+    email: record.email || record.login,
+    role,
+    avatar: role === 'admin' ? '👨‍💼' : '🧑‍💼',
+    odooPartnerId: record.partner_id ? record.partner_id[0] : undefined,
+    lastLogin: record.login_date ? new Date(fromOdooDatetime(record.login_date)) : undefined,
+  };
+}
+
+// ==================== COMPANIES ====================
+
+/**
+ * Convert a res.company record to a portal company
+ *
+ * @param record - res.company record
+ * @returns Portal company
+ */
+export function odooCompanyToCompany(record: OdooCompany): Company {
+  requireFields('res.company', record, ['name']);
+
+  const address = [record.street, record.city, many2oneName(record.country_id)].filter(Boolean).join(', ');
+  return {
+    id: String(record.id),
+    name: record.name,
+    address: address || undefined,
+    phone: record.phone || undefined,
+    email: record.email || undefined,
+    vat: record.vat || undefined,
+    registry: record.company_registry || undefined,
+    currency: record.currency_id ? many2oneName(record.currency_id) : undefined,
+  };
+}
+
+// ==================== PRODUCTS ====================
+
+/**
+ * Convert a product.product record to a portal product
+ *
+ * @param record - product.product record
+ * @returns Portal product
+ */
+export function odooProductToProduct(record: OdooProduct): Product {
+  requireFields('product.product', record, ['name', 'categ_id', 'lst_price', 'qty_available', 'uom_id']);
+
+  return {
+    id: String(record.id),
+    name: record.name,
+    description: record.description_sale || undefined,
+    sku: record.default_code || '',
+    category: { id: many2oneId(record.categ_id), name: many2oneName(record.categ_id) },
+    price: record.lst_price,
+    cost: record.standard_price,
+    stockQuantity: record.qty_available,
+    image: DEFAULT_PRODUCT_IMAGE,
+    isActive: record.active,
+    uom: many2oneName(record.uom_id),
+    odooProductId: record.id,
+    odooTemplateId: record.product_tmpl_id ? record.product_tmpl_id[0] : undefined,
+  };
+}
+
+/**
+ * Place a product's category in the category tree, so rules on a parent
+ * category apply to it (Odoo matches categories with child_of)
+ *
+ * @param category - Category of a portal product
+ * @param record - product.category record of the category
+ * @returns Category with its parent and path
+ */
+export function withCategoryPath(category: ProductCategory, record: OdooProductCategory | undefined): ProductCategory {
+  const path = record?.parent_path ? record.parent_path.split('/').filter(Boolean) : [];
+  if (path.length === 0) return category;
+  return { ...category, parentId: path[path.length - 2], path };
+}
+
+/**
+ * Convert portal product fields to product.product values
+ *
+ * @param product - Partial portal product
+ * @returns product.product values for `write`
+ */
+export function productToOdooValues(product: Partial<Product>): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+
+  if (product.name !== undefined) values.name = product.name;
+  if (product.description !== undefined) values.description_sale = orFalse(product.description);
+  if (product.sku !== undefined) values.default_code = orFalse(product.sku);
+  if (product.category !== undefined) values.categ_id = toRecordId(product.category.id);
+  if (product.price !== undefined) values.lst_price = product.price;
+  if (product.cost !== undefined) values.standard_price = product.cost;
+  if (product.isActive !== undefined) values.active = product.isActive;
+
+  return values;
+}
+
+// ==================== PRICELISTS ====================
+
+const PRICELIST_SCOPES: Record<OdooPricelistItem['applied_on'], PricelistRuleScope> = {
+  '0_product_variant': 'product',
+  '1_product': 'template',
+  '2_product_category': 'category',
+  '3_global': 'all',
+};
+
+const PRICELIST_BASES: Record<OdooPricelistItem['base'], PricelistRuleBase> = {
+  list_price: 'list',
+  standard_price: 'cost',
+  pricelist: 'pricelist',
+};
+
+/**
+ * Convert a product.pricelist.item record to a portal pricelist rule
+ *
+ * @param record - product.pricelist.item record
+ * @returns Pricelist rule
+ */
+export function odooPricelistItemToRule(record: OdooPricelistItem): PricelistRule {
+  requireFields('product.pricelist.item', record, ['applied_on', 'min_quantity', 'compute_price']);
+  const formula = record.compute_price === 'formula';
+
+  return {
+    id: String(record.id),
+    scope: PRICELIST_SCOPES[record.applied_on],
+    productId: record.product_id ? many2oneId(record.product_id) : undefined,
+    templateId: record.product_tmpl_id ? record.product_tmpl_id[0] : undefined,
+    categoryId: record.categ_id ? many2oneId(record.categ_id) : undefined,
+    minQuantity: record.min_quantity,
+    computePrice: record.compute_price,
+    fixedPrice: record.compute_price === 'fixed' ? record.fixed_price : undefined,
+    percentOff: record.compute_price === 'percentage' ? record.percent_price : undefined,
+    base: record.compute_price !== 'fixed' ? PRICELIST_BASES[record.base] ?? 'list' : undefined,
+    discount: formula ? record.price_discount : undefined,
+    surcharge: formula ? record.price_surcharge : undefined,
+    rounding: formula && record.price_round ? record.price_round : undefined,
+    minMargin: formula && record.price_min_margin ? record.price_min_margin : undefined,
+    maxMargin: formula && record.price_max_margin ? record.price_max_margin : undefined,
+    dateStart: record.date_start ? fromOdooDatetime(record.date_start) : undefined,
+    dateEnd: record.date_end ? fromOdooDatetime(record.date_end) : undefined,
+  };
+}
+
+/**
+ * Convert a product.pricelist record and its items to a portal pricelist
+ *
+ * @param record - product.pricelist record
+ * @param items - The pricelist's product.pricelist.item records
+ * @returns Portal pricelist
+ */
+export function odooPricelistToPricelist(record: OdooPricelist, items: OdooPricelistItem[]): Pricelist {
+  requireFields('product.pricelist', record, ['name', 'item_ids']);
+
+  return {
+    id: String(record.id),
+    name: record.name,
+    rules: items.map(odooPricelistItemToRule),
+    updatedAt: fromOdooDatetime(record.write_date),
+  };
+}
@@ -0,0 +1,1328 @@
+/**
+ * Odoo Repository
+ *
+ * Reads and writes portal entities (orders, customers, products) in Odoo
+ * through the JSON-RPC client. Record conversion lives in lib/odoo/mappers.
+ * Used by OdooService whenever mock mode is disabled.
+ *
+ * @module lib/odoo/odooRepository
+ */
+
+import { ODOO_CONFIG, MRA_CONFIG, PAYMENT_CONFIG, BUS_CONFIG } from '@/lib/config';
+import { OdooJsonRpcClient, odooClient } from '@/lib/odoo/jsonRpcClient';
+import { OdooDomain, andDomains } from '@/lib/odoo/domain';
+import {
+  odooOrderToOrder,
+  odooPartnerToCustomer,
+  odooProductToProduct,
+  orderToOdooValues,
+  createOrderDataToOdooValues,
+  customerToOdooValues,
+  odooUserToUser,
+  odooCompanyToCompany,
+  fiscalisationToOdooValues,
+  odooPricelistToPricelist,
+  odooPickingToDelivery,
+  odooRefundToReturn,
+  returnToOdooRefundValues,
+  odooInvoiceToOpenInvoice,
+  advancePaymentToOdooValues,
+  paymentMemo,
+  paymentDataToPayment,
+  weighedOrderedQuantities,
+  withCategoryPath,
+  creditOverrideMessage,
+  odooReceivableLineToStatementLine,
+  many2oneId,
+  toOdooDatetime,
+  toRecordId,
+} from '@/lib/odoo/mappers';
+import {
+  Many2one,
+  OdooSaleOrder,
+  OdooSaleOrderLine,
+  OdooPartner,
+  OdooProduct,
+  OdooStockQuant,
+  OdooProductCategory,
+  OdooInvoice,
+  OdooUser,
+  OdooPricelist,
+  OdooPricelistItem,
+  OdooStockMove,
+  OdooPicking,
+  OdooInvoiceLine,
+  OdooReceivableLine,
+  OdooBusNotification,
+  OdooCompany,
+} from '@/lib/odoo/types';
+import {
+  Order,
+  Customer,
+  Product,
+  CreateOrderData,
+  PaginatedResponse,
+  User,
+  MraFiscalisation,
+  Pricelist,
+  StockAvailability,
+  OrderAction,
+  CreateReturnData,
+  OpenInvoice,
+  CreatePaymentData,
+  Payment,
+  CustomerStatement,
+  PortalEvent,
+  PortalEventBatch,
+  Company,
+  SyncCursor,
+  SyncDelta,
+} from '@/types';
+import { allocatedAmount, PAYMENT_METHOD_LABELS } from '@/lib/payments/allocation';
+import { buildStatement } from '@/lib/customers/statement';
+import { EditableOrderField } from '@/lib/orders/orderLifecycle';
+import { sleep } from '@/lib/utils';
+
+const { models } = ODOO_CONFIG;
+
+/**
+ * Fields requested for each model
+ */
+const ORDER_FIELDS = [
+  'name', 'partner_id', 'user_id', 'date_order', 'state',
+  'delivery_status', 'invoice_status', 'amount_untaxed', 'amount_tax', 'amount_total',
+  'order_line', 'invoice_ids', 'picking_ids', 'note', 'origin', 'create_date', 'write_date',
+];
+const ORDER_LINE_FIELDS = [
+  'order_id', 'product_id', 'name', 'product_uom_qty', 'qty_delivered', 'price_unit', 'discount',
+  'price_subtotal', 'price_tax', 'tax_id',
+];
+const PICKING_FIELDS = ['name', 'state', 'scheduled_date', 'date_done', 'backorder_id', 'move_ids'];
+const MOVE_FIELDS = ['sale_line_id', 'product_id', 'picking_id', 'product_uom_qty', 'quantity', 'state'];
+const INVOICE_FIELDS = ['name', 'state', 'payment_state', 'amount_total', 'invoice_date'];
+const REFUND_FIELDS = [
+  'name', 'state', 'amount_total', 'invoice_date', 'ref', 'narration', 'reversed_entry_id',
+  'invoice_line_ids', 'message_attachment_count',
+];
+const OPEN_INVOICE_FIELDS = [
+  'name', 'state', 'amount_total', 'amount_residual', 'invoice_date', 'invoice_date_due', 'invoice_origin',
+];
+const INVOICE_LINE_FIELDS = [
+  'move_id', 'product_id', 'name', 'quantity', 'price_unit', 'discount', 'price_subtotal', 'display_type',
+];
+const RECEIVABLE_LINE_FIELDS = [
+  'date', 'move_name', 'move_type', 'name', 'ref', 'payment_id', 'date_maturity', 'debit', 'credit',
+  'amount_residual',
+];
+const PARTNER_FIELDS = [
+  'name', 'email', 'phone', 'mobile', 'street', 'city', 'country_id', 'active', 'vat',
+  'comment', 'company_name', 'sale_warn', 'sale_order_count', 'total_invoiced', 'credit', 'credit_limit',
+  'property_product_pricelist', 'create_date', 'write_date',
+];
+const PRODUCT_FIELDS = [
+  'name', 'default_code', 'description_sale', 'categ_id', 'lst_price', 'standard_price',
+  'qty_available', 'active', 'uom_id', 'product_tmpl_id', 'write_date',
+];
+const COMPANY_FIELDS = [
+  'name', 'street', 'city', 'country_id', 'phone', 'email', 'vat', 'company_registry', 'currency_id',
+];
+const PRICELIST_ITEM_FIELDS = [
+  'pricelist_id', 'applied_on', 'product_id', 'product_tmpl_id', 'categ_id', 'min_quantity',
+  'compute_price', 'fixed_price', 'percent_price', 'base', 'price_discount', 'price_surcharge', 'price_round',
+  'price_min_margin', 'price_max_margin', 'date_start', 'date_end',
+];
+
+/**
+ * Custom fields (x_*) used per model. They only exist where they were
+ * created (see README, Odoo setup): missing ones are neither read nor written.
+ */
+const CUSTOM_FIELDS: Record<string, string[]> = {
+  // Delivery address typed in the order form; key of the submission that created the order
+  'sale.order': ['x_portal_delivery_address', 'x_portal_idempotency_key'],
+  // MRA fiscalisation result
+  'account.move': MRA_CONFIG.enabled ? ['x_mra_status', 'x_mra_irn', 'x_mra_qr_code'] : [],
+};
+
+/**
+ * Order submissions in progress, by idempotency key, so a retry arriving
+ * before the first attempt has finished waits for its outcome.
+ * Only covers this server process: concurrent attempts reaching different
+ * instances can both create an order (see README, Odoo setup).
+ */
+const submissionsInProgress = new Map<string, Promise<{ order: Order; invoice?: OdooInvoice }>>();
+
+/**
+ * Payments being posted, by receipt number, so a retry arriving before the
+ * first attempt has finished waits for its outcome (this process only)
+ */
+const paymentsInProgress = new Map<string, Promise<Payment>>();
+
+/**
+ * Odoo Repository Class
+ */
+export class OdooRepository {
+  // Custom fields found in the database, per model
+  private customFields = new Map<string, Promise<string[]>>();
+
+  constructor(private client: OdooJsonRpcClient) {}
+
+  // ==================== ORDERS ====================
+
+  /**
+   * Fetch a page of sale orders
+   *
+   * @param domain - Odoo search domain
+   * @param page - Page number (1-based)
+   * @param pageSize - Items per page
+   * @returns Paginated orders
+   */
+  public async fetchOrders(
+    domain: OdooDomain,
+    page: number,
+    pageSize: number
+  ): Promise<PaginatedResponse<Order>> {
+    const [records, total] = await Promise.all([
+      this.client.searchRead<OdooSaleOrder>(models.order, domain, {
+        fields: await this.fieldsOf(models.order, ORDER_FIELDS),
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+        order: 'date_order desc',
+      }),
+      this.client.searchCount(models.order, domain),
+    ]);
+
+    return {
+      data: await this.withOrderDetails(records),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    };
+  }
+
+  /**
+   * Fetch a single sale order
+   *
+   * @param orderId - Odoo record ID
+   * @returns Order or null if it does not exist
+   */
+  public async fetchOrderById(orderId: number): Promise<Order | null> {
+    const [record] = await this.client.read<OdooSaleOrder>(models.order, [orderId], await this.fieldsOf(models.order, ORDER_FIELDS));
+    if (!record) return null;
+    const [order] = await this.withOrderDetails([record]);
+    return order;
+  }
+
+  /**
+   * Create a sale order, confirm it and invoice the products invoiced on
+   * ordered quantities; the others are invoiced once weighed.
+   * An admin's credit override is logged in the order's chatter.
+   * The idempotency key is kept in the order's x_portal_idempotency_key
+   * field: a retry with the same key completes and returns the order
+   * already created instead of creating (and invoicing) a second one.
+   * Without that field in the database, only retries overlapping the
+   * first attempt in this process are recognised.
+   *
+   * @param orderData - Order data from the portal
+   * @param creditReasons - Why the credit check blocked the order, when overridden
+   * @param idempotencyKey - Client-generated key of the submission
+   * @returns Created order and posted invoice, if anything was invoiced
+   */
+  public async createOrder(
+    orderData: CreateOrderData,
+    creditReasons: string[] = [],
+    idempotencyKey?: string
+  ): Promise<{ order: Order; invoice?: OdooInvoice }> {
+    if (!idempotencyKey) {
+      return this.placeOrder(orderData, creditReasons);
+    }
+
+    let submission = submissionsInProgress.get(idempotencyKey);
+    if (!submission) {
+      submission = this.placeOrder(orderData, creditReasons, idempotencyKey)
+        .finally(() => submissionsInProgress.delete(idempotencyKey));
+      submissionsInProgress.set(idempotencyKey, submission);
+    }
+    return submission;
+  }
+
+  /**
+   * Find the sale order created by an order submission
+   *
+   * @param idempotencyKey - Client-generated key of the submission
+   * @returns Odoo record ID, or undefined if no order was created with the key
+   */
+  public async findOrderIdByIdempotencyKey(idempotencyKey: string): Promise<number | undefined> {
+    const fields = await this.existingCustomFields(models.order);
+    if (!fields.includes('x_portal_idempotency_key')) return undefined;
+    const [orderId] = await this.client.search(models.order, [['x_portal_idempotency_key', '=', idempotencyKey]]);
+    return orderId;
+  }
+
+  /**
+   * Create the order unless a previous attempt did, then carry out the
+   * steps a previous attempt may not have reached (confirmation, invoice)
+   */
+  private async placeOrder(
+    orderData: CreateOrderData,
+    creditReasons: string[],
+    idempotencyKey?: string
+  ): Promise<{ order: Order; invoice?: OdooInvoice }> {
+    let orderId = idempotencyKey && await this.findOrderIdByIdempotencyKey(idempotencyKey);
+    if (!orderId) {
+      orderId = await this.client.create(models.order, await this.withoutMissingFields(models.order, {
+        ...createOrderDataToOdooValues(orderData),
+        ...(idempotencyKey && { x_portal_idempotency_key: idempotencyKey }),
+      }));
+      if (orderData.creditOverride) {
+        await this.client.callKw(models.order, 'message_post', [[orderId]], {
+          body: creditOverrideMessage(orderData.creditOverride, creditReasons),
+        });
+      }
+    }
+
+    const [record] = await this.client.read<Pick<OdooSaleOrder, 'state' | 'invoice_ids'>>(
+      models.order,
+      [orderId],
+      ['state', 'invoice_ids']
+    );
+    if (record && ['draft', 'sent'].includes(record.state)) {
+      await this.client.callKw(models.order, 'action_confirm', [[orderId]]);
+    }
+    // Products invoiced on delivered quantities are only invoiced once weighed
+    const invoiceIds = record?.invoice_ids ?? [];
+    let invoice: OdooInvoice | undefined;
+    if (invoiceIds.length > 0) {
+      invoice = await this.postInvoice(invoiceIds[invoiceIds.length - 1]);
+    } else if (await this.invoiceStatus(orderId) === 'to invoice') {
+      invoice = await this.createInvoice(orderId);
+    }
+
+    const order = await this.fetchOrderById(orderId);
+    if (!order) {
+      throw new Error(`Sale order ${orderId} was not found after creation`);
+    }
+
+    return { order, invoice };
+  }
+
+  /**
+   * Update the editable fields of a sale order.
+   * Callers check the order is still editable (see lib/orders/orderLifecycle).
+   *
+   * @param orderId - Odoo record ID
+   * @param updates - Portal order fields to update
+   * @returns Updated order
+   */
+  public async updateOrder(orderId: number, updates: Pick<Partial<Order>, EditableOrderField>): Promise<Order> {
+    await this.client.write(models.order, [orderId], await this.withoutMissingFields(models.order, orderToOdooValues(updates)));
+    const order = await this.fetchOrderById(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    return order;
+  }
+
+  /**
+   * Cancel a sale order
+   *
+   * @param orderId - Odoo record ID
+   */
+  public async cancelOrder(orderId: number): Promise<void> {
+    await this.client.callKw(models.order, 'action_cancel', [[orderId]]);
+  }
+
+  /**
+   * Perform a lifecycle action on a sale order.
+   * Callers check the transition first (see lib/orders/orderLifecycle);
+   * delivery goes through recordDeliveredWeights.
+   *
+   * @param orderId - Odoo record ID
+   * @param action - Lifecycle action
+   * @returns Updated order
+   */
+  public async transitionOrder(orderId: number, action: Exclude<OrderAction, 'deliver'>): Promise<Order> {
+    switch (action) {
+      case 'confirm':
+        await this.client.callKw(models.order, 'action_confirm', [[orderId]]);
+        break;
+      case 'invoice':
+        await this.createInvoice(orderId);
+        break;
+      case 'cancel':
+        await this.cancelOrder(orderId);
+        break;
+      case 'resetToQuotation':
+        await this.client.callKw(models.order, 'action_draft', [[orderId]]);
+        break;
+    }
+
+    const order = await this.fetchOrderById(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    return order;
+  }
+
+  /**
+   * Record the weighed quantities of an order's open deliveries and validate them.
+   * Every open move is marked picked, so unweighed lines ship their reserved
+   * quantity. Whatever is short of the demand is either dropped (catch-weight
+   * variance) or, with `createBackorder`, left in a backorder delivery.
+   * Lines invoiced on ordered quantities are set to their weight, unless the
+   * rest is backordered; the difference between the quantities to invoice
+   * and those invoiced is then invoiced (or credited).
+   *
+   * @param orderId - Odoo sale.order ID
+   * @param weights - Delivered weight (kg) per sale.order.line ID
+   * @param createBackorder - Ship the rest later in a backorder
+   * @returns Updated order
+   */
+  public async recordDeliveredWeights(
+    orderId: number,
+    weights: Record<string, number>,
+    createBackorder: boolean = false
+  ): Promise<Order> {
+    const moves = await this.client.searchRead<OdooStockMove>('stock.move', [
+      ['sale_line_id.order_id', '=', orderId],
+      ['state', 'not in', ['done', 'cancel']],
+    ], { fields: MOVE_FIELDS, order: 'id' });
+
+    if (moves.length === 0) {
+      throw new Error('Order has no open delivery to weigh');
+    }
+
+    // A line can be split over several moves: its full weight goes on the first one
+    const weighedLines = new Set<string>();
+    for (const move of moves) {
+      const lineId = many2oneId(move.sale_line_id);
+      const weight = weights[lineId];
+      const values: Record<string, unknown> = { picked: true };
+      if (weight !== undefined) {
+        values.quantity = weighedLines.has(lineId) ? 0 : weight;
+        weighedLines.add(lineId);
+      }
+      await this.client.write('stock.move', [move.id], values);
+    }
+
+    const pickingIds = Array.from(new Set(
+      moves.map((move) => move.picking_id).filter((picking): picking is [number, string] => picking !== false).map(([id]) => id)
+    ));
+    // Pickings listed in picking_ids_not_to_backorder drop their remaining demand
+    await this.client.callKw('stock.picking', 'button_validate', [pickingIds], {
+      context: {
+        skip_backorder: true,
+        picking_ids_not_to_backorder: createBackorder ? [] : pickingIds,
+      },
+    });
+
+    if (!createBackorder) {
+      await this.writeWeighedQuantities(weights);
+    }
+    if (await this.invoiceStatus(orderId) === 'to invoice') {
+      await this.createInvoice(orderId);
+    }
+
+    const order = await this.fetchOrderById(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    return order;
+  }
+
+  /**
+   * Record goods returned by the customer: credit the order's latest invoice
+   * with a posted credit note and attach the photos of the returned goods.
+   * Callers check the quantities first (see lib/orders/returns).
+   *
+   * @param orderId - Odoo sale.order ID
+   * @param data - Returned quantities, reason and photos
+   * @returns Updated order
+   */
+  public async createReturn(orderId: number, data: CreateReturnData): Promise<Order> {
+    const [record] = await this.client.read<OdooSaleOrder>(models.order, [orderId], await this.fieldsOf(models.order, ORDER_FIELDS));
+    const invoiceId = record?.invoice_ids?.[record.invoice_ids.length - 1];
+    if (!record || !invoiceId) {
+      throw new Error('Order has no invoice to credit');
+    }
+
+    const lines = await this.client.read<OdooSaleOrderLine>(models.orderLine, record.order_line, ORDER_LINE_FIELDS);
+    const refundId = await this.client.create(
+      'account.move',
+      returnToOdooRefundValues(record, invoiceId, lines, data)
+    );
+    await this.client.callKw('account.move', 'action_post', [[refundId]]);
+
+    for (const [index, photo] of (data.photos ?? []).entries()) {
+      const [, mimetype = 'image/jpeg', datas = ''] = photo.match(/^data:([^;]+);base64,(.*)$/) ?? [];
+      await this.client.create('ir.attachment', {
+        name: `return-photo-${index + 1}.${mimetype.split('/')[1] || 'jpg'}`,
+        res_model: 'account.move',
+        res_id: refundId,
+        mimetype,
+        datas,
+      });
+    }
+
+    const order = await this.fetchOrderById(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    return order;
+  }
+
+  /**
+   * Set lines invoiced on ordered quantities to their weighed quantity
+   * (see weighedOrderedQuantities); Odoo logs the change in the chatter
+   */
+  private async writeWeighedQuantities(weights: Record<string, number>): Promise<void> {
+    const lines = await this.client.read<OdooSaleOrderLine>(
+      models.orderLine,
+      Object.keys(weights).map(Number),
+      ['product_id', 'product_uom_qty']
+    );
+    const productIds = Array.from(new Set(lines.map((line) => Number(many2oneId(line.product_id)))));
+    const products = await this.client.read<Pick<OdooProduct, 'id' | 'invoice_policy'>>(
+      models.product,
+      productIds,
+      ['invoice_policy']
+    );
+    const invoicePolicies = Object.fromEntries(products.map((product) => [product.id, product.invoice_policy]));
+
+    for (const [lineId, quantity] of Object.entries(weighedOrderedQuantities(lines, invoicePolicies, weights))) {
+      await this.client.write(models.orderLine, [Number(lineId)], { product_uom_qty: quantity });
+    }
+  }
+
+  private async invoiceStatus(orderId: number): Promise<OdooSaleOrder['invoice_status']> {
+    const [record] = await this.client.read<Pick<OdooSaleOrder, 'invoice_status'>>(
+      models.order,
+      [orderId],
+      ['invoice_status']
+    );
+    return record?.invoice_status;
+  }
+
+  /**
+   * Invoice a confirmed order through the sale.advance.payment.inv wizard
+   * and post the resulting draft invoice. Quantities invoiced in excess
+   * (a line weighed under its invoiced quantity) come out as a credit note.
+   */
+  private async createInvoice(orderId: number): Promise<OdooInvoice | undefined> {
+    const context = { active_model: models.order, active_ids: [orderId], active_id: orderId };
+    const wizardId = await this.client.callKw<number>(
+      'sale.advance.payment.inv',
+      'create',
+      [{ advance_payment_method: 'delivered' }],
+      { context }
+    );
+    await this.client.callKw('sale.advance.payment.inv', 'create_invoices', [[wizardId]], { context });
+
+    const [order] = await this.client.read<{ invoice_ids: number[] }>(models.order, [orderId], ['invoice_ids']);
+    const invoiceId = order?.invoice_ids[order.invoice_ids.length - 1];
+    if (!invoiceId) return undefined;
+
+    await this.client.callKw('account.move', 'action_post', [[invoiceId]]);
+    const [invoice] = await this.client.read<OdooInvoice>('account.move', [invoiceId], await this.fieldsOf('account.move', INVOICE_FIELDS));
+    return invoice;
+  }
+
+  /**
+   * Post an invoice left in draft by an interrupted order submission
+   */
+  private async postInvoice(invoiceId: number): Promise<OdooInvoice | undefined> {
+    let [invoice] = await this.client.read<OdooInvoice>('account.move', [invoiceId], await this.fieldsOf('account.move', INVOICE_FIELDS));
+    if (invoice?.state === 'draft') {
+      await this.client.callKw('account.move', 'action_post', [[invoiceId]]);
+      [invoice] = await this.client.read<OdooInvoice>('account.move', [invoiceId], await this.fieldsOf('account.move', INVOICE_FIELDS));
+    }
+    return invoice;
+  }
+
+  /**
+   * Get the rendered PDF of a customer invoice.
+   * Uses the PDF Odoo stored when the invoice was sent or printed, and renders
+   * the invoice report otherwise.
+   *
+   * @param invoiceName - account.move number (e.g. 'INV/2025/00042')
+   * @returns Invoice PDF, or null if no such invoice exists
+   */
+  public async fetchInvoicePdf(invoiceName: string): Promise<{ invoice: OdooInvoice; pdf: ArrayBuffer } | null> {
+    const [invoice] = await this.client.searchRead<OdooInvoice>('account.move', [
+      ['name', '=', invoiceName],
+      ['move_type', 'in', ['out_invoice', 'out_refund']],
+    ], { fields: ['name', 'state', 'amount_total', 'invoice_pdf_report_id'], limit: 1 });
+    if (!invoice) return null;
+
+    if (invoice.invoice_pdf_report_id) {
+      const [attachment] = await this.client.read<{ datas: string | false }>(
+        'ir.attachment',
+        [invoice.invoice_pdf_report_id[0]],
+        ['datas']
+      );
+      if (attachment?.datas) {
+        const bytes = Buffer.from(attachment.datas, 'base64');
+        return { invoice, pdf: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) };
+      }
+    }
+
+    const pdf = await this.client.downloadReport('account.report_invoice', [invoice.id]);
+    return { invoice, pdf };
+  }
+
+  /**
+   * Store an MRA fiscalisation result on an invoice and log it in the chatter
+   *
+   * @param invoiceId - account.move record ID
+   * @param fiscalisation - Fiscalisation result
+   */
+  public async saveFiscalisation(invoiceId: number, fiscalisation: MraFiscalisation): Promise<void> {
+    const values = await this.withoutMissingFields('account.move', fiscalisationToOdooValues(fiscalisation));
+    if (Object.keys(values).length > 0) {
+      await this.client.write('account.move', [invoiceId], values);
+    }
+
+    const summary = fiscalisation.status === 'accepted'
+      ? `Fiscalised with MRA. IRN: ${fiscalisation.irn}`
+      : `MRA fiscalisation ${fiscalisation.status}: ${fiscalisation.error || 'no details'}`;
+    await this.client.callKw('account.move', 'message_post', [[invoiceId]], { body: summary });
+  }
+
+  /**
+   * Fields to read from a model: the given ones, plus its custom fields
+   * that exist in this database
+   */
+  private async fieldsOf(model: string, fields: string[]): Promise<string[]> {
+    return [...fields, ...await this.existingCustomFields(model)];
+  }
+
+  /**
+   * Drop the values of custom fields missing from this database
+   */
+  private async withoutMissingFields(model: string, values: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const existing = await this.existingCustomFields(model);
+    return Object.fromEntries(
+      Object.entries(values).filter(([field]) => !field.startsWith('x_') || existing.includes(field))
+    );
+  }
+
+  /**
+   * Custom fields of a model that exist in this database, looked up once
+   * (fields_get only describes the fields that exist)
+   */
+  private existingCustomFields(model: string): Promise<string[]> {
+    const wanted = CUSTOM_FIELDS[model] ?? [];
+    if (wanted.length === 0) return Promise.resolve([]);
+
+    let existing = this.customFields.get(model);
+    if (!existing) {
+      existing = this.client
+        .callKw<Record<string, unknown>>(model, 'fields_get', [wanted], { attributes: ['type'] })
+        .then((found) => {
+          const missing = wanted.filter((field) => !(field in found));
+          if (missing.length > 0) {
+            console.warn(`Odoo custom fields missing on ${model}, ignored: ${missing.join(', ')} (see README, Odoo setup)`);
+          }
+          return wanted.filter((field) => field in found);
+        });
+      // Look up again on the next call if Odoo could not be reached
+      existing.catch(() => this.customFields.delete(model));
+      this.customFields.set(model, existing);
+    }
+    return existing;
+  }
+
+  /**
+   * Load order lines, latest invoices, deliveries and returns for a batch
+   * of orders, one read per model
+   */
+  private async withOrderDetails(records: OdooSaleOrder[]): Promise<Order[]> {
+    const lineIds = records.flatMap((record) => record.order_line);
+    const invoiceIds = records
+      .map((record) => record.invoice_ids?.[record.invoice_ids.length - 1])
+      .filter((id): id is number => id !== undefined);
+
+    const pickingIds = records.flatMap((record) => record.picking_ids ?? []);
+    const allInvoiceIds = records.flatMap((record) => record.invoice_ids ?? []);
+
+    const invoiceFields = await this.fieldsOf('account.move', INVOICE_FIELDS);
+    const [lines, invoices, pickings, refunds] = await Promise.all([
+      this.client.read<OdooSaleOrderLine>(models.orderLine, lineIds, ORDER_LINE_FIELDS),
+      this.client.read<OdooInvoice>('account.move', invoiceIds, invoiceFields),
+      this.client.read<OdooPicking>('stock.picking', pickingIds, PICKING_FIELDS),
+      allInvoiceIds.length > 0
+        ? this.client.searchRead<OdooInvoice>('account.move', [
+            ['move_type', '=', 'out_refund'],
+            ['reversed_entry_id', 'in', allInvoiceIds],
+          ], { fields: REFUND_FIELDS, order: 'id' })
+        : Promise.resolve([]),
+    ]);
+    const [moves, refundLines] = await Promise.all([
+      this.client.read<OdooStockMove>('stock.move', pickings.flatMap((picking) => picking.move_ids), MOVE_FIELDS),
+      this.client.read<OdooInvoiceLine>(
+        'account.move.line',
+        refunds.flatMap((refund) => refund.invoice_line_ids ?? []),
+        INVOICE_LINE_FIELDS
+      ),
+    ]);
+    const linesById = new Map(lines.map((line) => [line.id, line]));
+    const invoicesById = new Map(invoices.map((invoice) => [invoice.id, invoice]));
+    const pickingsById = new Map(pickings.map((picking) => [picking.id, picking]));
+    const movesById = new Map(moves.map((move) => [move.id, move]));
+
+    return records.map((record) => {
+      const orderLines = record.order_line
+        .map((id) => linesById.get(id))
+        .filter((line): line is OdooSaleOrderLine => line !== undefined);
+
+      return odooOrderToOrder(
+        record,
+        orderLines,
+        invoicesById.get(record.invoice_ids?.[record.invoice_ids.length - 1] ?? 0),
+        (record.picking_ids ?? [])
+          .map((id) => pickingsById.get(id))
+          .filter((picking): picking is OdooPicking => picking !== undefined)
+          .map((picking) => odooPickingToDelivery(
+            picking,
+            picking.move_ids
+              .map((id) => movesById.get(id))
+              .filter((move): move is OdooStockMove => move !== undefined)
+          )),
+        refunds
+          .filter((refund) => refund.reversed_entry_id && record.invoice_ids?.includes(refund.reversed_entry_id[0]))
+          .map((refund) => odooRefundToReturn(
+            refund,
+            refundLines.filter((line) => line.move_id && line.move_id[0] === refund.id),
+            orderLines
+          ))
+      );
+    });
+  }
+
+  // ==================== CUSTOMERS ====================
+
+  /**
+   * Fetch a page of customers
+   *
+   * @param domain - Odoo search domain
+   * @param page - Page number (1-based)
+   * @param pageSize - Items per page
+   * @returns Paginated customers
+   */
+  public async fetchCustomers(
+    domain: OdooDomain,
+    page: number,
+    pageSize: number
+  ): Promise<PaginatedResponse<Customer>> {
+    const [records, total] = await Promise.all([
+      this.client.searchRead<OdooPartner>(models.partner, domain, {
+        fields: PARTNER_FIELDS,
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+        order: 'name asc',
+      }),
+      this.client.searchCount(models.partner, domain),
+    ]);
+
+    return {
+      data: await this.withReceivables(records.map(odooPartnerToCustomer)),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    };
+  }
+
+  /**
+   * Find partners whose confirmed sales meet order-count/amount thresholds.
+   * sale_order_count and total_invoiced are not searchable, so this groups
+   * sale orders by partner on the server instead.
+   *
+   * @param minOrders - Minimum number of confirmed orders
+   * @param minSpent - Minimum total amount of confirmed orders
+   * @returns Matching partner IDs
+   */
+  public async findPartnerIdsBySales(minOrders: number = 0, minSpent: number = 0): Promise<number[]> {
+    const groups = await this.client.callKw<Array<{
+      partner_id: Many2one;
+      __count: number;
+      amount_total: number;
+    }>>(models.order, 'read_group', [], {
+      domain: [['state', '=', 'sale']],
+      fields: ['amount_total:sum'],
+      groupby: ['partner_id'],
+      lazy: false,
+    });
+
+    return groups
+      .filter((group) => group.partner_id && group.__count >= minOrders && group.amount_total >= minSpent)
+      .map((group) => (group.partner_id as [number, string])[0]);
+  }
+
+  /**
+   * Fetch a single customer
+   *
+   * @param partnerId - Odoo record ID
+   * @returns Customer or null if it does not exist
+   */
+  public async fetchCustomerById(partnerId: number): Promise<Customer | null> {
+    const [record] = await this.client.read<OdooPartner>(models.partner, [partnerId], PARTNER_FIELDS);
+    if (!record) return null;
+    const [customer] = await this.withReceivables([odooPartnerToCustomer(record)]);
+    return customer;
+  }
+
+  /**
+   * Create a customer
+   *
+   * @param customerData - Portal customer fields
+   * @returns Created customer
+   */
+  public async createCustomer(customerData: Partial<Customer>): Promise<Customer> {
+    const partnerId = await this.client.create(models.partner, {
+      customer_rank: 1,
+      ...customerToOdooValues(customerData),
+    });
+    const customer = await this.fetchCustomerById(partnerId);
+    if (!customer) {
+      throw new Error(`Partner ${partnerId} was not found after creation`);
+    }
+    return customer;
+  }
+
+  /**
+   * Update a customer
+   *
+   * @param partnerId - Odoo record ID
+   * @param updates - Portal customer fields to update
+   * @returns Updated customer
+   */
+  public async updateCustomer(partnerId: number, updates: Partial<Customer>): Promise<Customer> {
+    await this.client.write(models.partner, [partnerId], customerToOdooValues(updates));
+    const customer = await this.fetchCustomerById(partnerId);
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+    return customer;
+  }
+
+  /**
+   * Load overdue receivables for a batch of customers: the amount due on
+   * posted invoices past their due date and the oldest such due date,
+   * grouped per commercial partner in one call
+   */
+  private async withReceivables(customers: Customer[]): Promise<Customer[]> {
+    const partnerIds = customers.flatMap((customer) => customer.odooPartnerId ?? []);
+    if (partnerIds.length === 0) return customers;
+
+    const groups = await this.client.callKw<Array<{
+      commercial_partner_id: Many2one;
+      amount_residual: number;
+      invoice_date_due: string | false;
+    }>>('account.move', 'read_group', [], {
+      domain: [
+        ['commercial_partner_id', 'in', partnerIds],
+        ['move_type', '=', 'out_invoice'],
+        ['state', '=', 'posted'],
+        ['payment_state', 'in', ['not_paid', 'partial']],
+        ['invoice_date_due', '<', toOdooDatetime(new Date()).split(' ')[0]],
+      ],
+      fields: ['amount_residual:sum', 'invoice_date_due:min'],
+      groupby: ['commercial_partner_id'],
+      lazy: false,
+    });
+
+    return customers.map((customer) => {
+      const group = groups.find((candidate) => many2oneId(candidate.commercial_partner_id) === String(customer.odooPartnerId));
+      return {
+        ...customer,
+        overdueAmount: group?.amount_residual ?? 0,
+        oldestOverdueDate: (group && group.invoice_date_due) || undefined,
+      };
+    });
+  }
+
+  // ==================== PRODUCTS ====================
+
+  /**
+   * Fetch a page of saleable products
+   *
+   * @param domain - Odoo search domain
+   * @param page - Page number (1-based)
+   * @param pageSize - Items per page
+   * @returns Paginated products
+   */
+  public async fetchProducts(
+    domain: OdooDomain,
+    page: number,
+    pageSize: number
+  ): Promise<PaginatedResponse<Product>> {
+    const [records, total] = await Promise.all([
+      this.client.searchRead<OdooProduct>(models.product, domain, {
+        fields: PRODUCT_FIELDS,
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+        order: 'name asc',
+      }),
+      this.client.searchCount(models.product, domain),
+    ]);
+
+    return {
+      data: await this.withCategoryPaths(records.map(odooProductToProduct)),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    };
+  }
+
+  /**
+   * Place the products' categories in the category tree, so pricelist rules
+   * on a parent category apply to them
+   */
+  private async withCategoryPaths(products: Product[]): Promise<Product[]> {
+    const categoryIds = Array.from(new Set(products.map((product) => Number(product.category.id)).filter(Boolean)));
+    if (categoryIds.length === 0) return products;
+
+    const categories = await this.client.read<OdooProductCategory>('product.category', categoryIds, ['parent_path']);
+    return products.map((product) => ({
+      ...product,
+      category: withCategoryPath(
+        product.category,
+        categories.find((category) => String(category.id) === product.category.id)
+      ),
+    }));
+  }
+
+  /**
+   * Fetch the stock of products in the company's warehouses, net of what
+   * confirmed orders will take. Odoo only reserves quants for deliveries it
+   * could assign, so the quants' reserved quantity misses orders still
+   * waiting for stock; those are in the forecast (virtual_available), which
+   * also counts incoming goods. Available is the lower of the forecast and
+   * the unreserved stock on hand (free_qty).
+   *
+   * @param productIds - Odoo product.product IDs
+   * @returns Availability per product (unknown products report 0)
+   */
+  public async fetchStockAvailability(productIds: number[]): Promise<StockAvailability[]> {
+    const products = await this.client.read<Pick<OdooProduct, 'id' | 'qty_available' | 'free_qty' | 'virtual_available'>>(
+      models.product,
+      productIds,
+      ['qty_available', 'free_qty', 'virtual_available']
+    );
+
+    return productIds.map((productId) => {
+      const product = products.find((record) => record.id === productId);
+      const onHand = product?.qty_available ?? 0;
+      const available = Math.min(product?.free_qty ?? 0, product?.virtual_available ?? 0);
+      return {
+        productId: String(productId),
+        onHand,
+        reserved: onHand - available,
+        softReserved: 0,
+        available,
+      };
+    });
+  }
+
+  // ==================== PAYMENTS ====================
+
+  /**
+   * Fetch a customer's posted invoices that are not fully paid, oldest due first
+   *
+   * @param partnerId - Odoo res.partner ID
+   * @returns Open invoices
+   */
+  public async fetchOpenInvoices(partnerId: number): Promise<OpenInvoice[]> {
+    const records = await this.client.searchRead<OdooInvoice>('account.move', [
+      ['commercial_partner_id', '=', partnerId],
+      ['move_type', '=', 'out_invoice'],
+      ['state', '=', 'posted'],
+      ['payment_state', 'in', ['not_paid', 'partial']],
+    ], { fields: OPEN_INVOICE_FIELDS, order: 'invoice_date_due asc, id asc' });
+
+    return records.map(odooInvoiceToOpenInvoice);
+  }
+
+  /**
+   * Post a payment collected from a customer.
+   * Each allocation is registered against its invoice through the
+   * account.payment.register wizard, which reconciles it; whatever is left
+   * is posted as a customer advance. All payments carry the receipt number
+   * in their memo: a retry of a receipt already posted returns the payment
+   * found instead of posting it twice.
+   * Callers validate the payment first (see lib/payments/allocation).
+   *
+   * @param data - Payment form data, with its receipt number
+   * @returns Recorded payment
+   */
+  public async createPayment(data: CreatePaymentData & { receiptNumber: string }): Promise<Payment> {
+    let posting = paymentsInProgress.get(data.receiptNumber);
+    if (!posting) {
+      posting = this.postPayment(data).finally(() => paymentsInProgress.delete(data.receiptNumber));
+      paymentsInProgress.set(data.receiptNumber, posting);
+    }
+    return posting;
+  }
+
+  /**
+   * Find the payment already posted for a receipt, by the receipt number in
+   * the memo of the customer's payments
+   *
+   * @param data - Payment form data, with its receipt number
+   * @returns Recorded payment, or undefined if the receipt was not posted
+   */
+  public async findPayment(data: CreatePaymentData & { receiptNumber: string }): Promise<Payment | undefined> {
+    const paymentIds = await this.client.search('account.payment', [
+      ['partner_id', '=', toRecordId(data.customerId)],
+      '|',
+      ['memo', '=', data.receiptNumber],
+      ['memo', '=like', `${data.receiptNumber} / %`],
+    ]);
+    return paymentIds.length > 0 ? paymentDataToPayment(data, paymentIds) : undefined;
+  }
+
+  private async postPayment(data: CreatePaymentData & { receiptNumber: string }): Promise<Payment> {
+    const existing = await this.findPayment(data);
+    if (existing) return existing;
+
+    const journalCode = PAYMENT_CONFIG.journals[data.method];
+    const [journal] = await this.client.searchRead<{ id: number }>('account.journal', [
+      ['code', '=', journalCode],
+    ], { fields: ['name'], limit: 1 });
+    if (!journal) {
+      throw new Error(`No journal with code ${journalCode} for ${PAYMENT_METHOD_LABELS[data.method]} payments`);
+    }
+
+    const paymentIds: number[] = [];
+    for (const allocation of data.allocations) {
+      const invoiceId = Number(allocation.invoiceId);
+      const context = { active_model: 'account.move', active_ids: [invoiceId], active_id: invoiceId };
+      const wizardId = await this.client.callKw<number>('account.payment.register', 'create', [{
+        amount: allocation.amount,
+        journal_id: journal.id,
+        ...(data.date && { payment_date: data.date }),
+        communication: paymentMemo(data),
+      }], { context });
+      // Registering a single payment returns a window action on it
+      const action = await this.client.callKw<{ res_id?: number }>(
+        'account.payment.register',
+        'action_create_payments',
+        [[wizardId]],
+        { context }
+      );
+      if (action?.res_id) paymentIds.push(action.res_id);
+    }
+
+    const unallocated = Math.round((data.amount - allocatedAmount(data.allocations)) * 100) / 100;
+    if (unallocated > 0) {
+      const paymentId = await this.client.create(
+        'account.payment',
+        advancePaymentToOdooValues(data, unallocated, journal.id)
+      );
+      await this.client.callKw('account.payment', 'action_post', [[paymentId]]);
+      paymentIds.push(paymentId);
+    }
+
+    return paymentDataToPayment(data, paymentIds);
+  }
+
+  // ==================== STATEMENTS ====================
+
+  /**
+   * Build a customer's statement of account from the posted lines of their
+   * receivable account: invoices, credit notes and payments alike
+   *
+   * @param partnerId - Odoo res.partner ID
+   * @param dateFrom - First day of the period (YYYY-MM-DD)
+   * @param dateTo - Last day of the period (YYYY-MM-DD)
+   * @returns Statement, or null if the customer does not exist
+   */
+  public async fetchStatement(partnerId: number, dateFrom: string, dateTo: string): Promise<CustomerStatement | null> {
+    const [partner] = await this.client.read<OdooPartner>(models.partner, [partnerId], ['name']);
+    if (!partner) return null;
+
+    const receivable: OdooDomain = [
+      ['partner_id', 'child_of', partnerId],
+      ['account_id.account_type', '=', 'asset_receivable'],
+      ['parent_state', '=', 'posted'],
+    ];
+    const [[opening], records, openRecords] = await Promise.all([
+      this.client.callKw<Array<{ balance: number | false }>>('account.move.line', 'read_group', [], {
+        domain: [...receivable, ['date', '<', dateFrom]],
+        fields: ['balance:sum'],
+        groupby: [],
+        lazy: false,
+      }),
+      this.client.searchRead<OdooReceivableLine>('account.move.line', [
+        ...receivable,
+        ['date', '>=', dateFrom],
+        ['date', '<=', dateTo],
+      ], { fields: RECEIVABLE_LINE_FIELDS, order: 'date asc, id asc' }),
+      this.client.searchRead<OdooReceivableLine>('account.move.line', [
+        ...receivable,
+        ['date', '<=', dateTo],
+        ['reconciled', '=', false],
+        ['amount_residual', '!=', 0],
+      ], { fields: ['date', 'date_maturity', 'amount_residual'] }),
+    ]);
+
+    return buildStatement(
+      { id: String(partner.id), name: partner.name },
+      dateFrom,
+      dateTo,
+      (opening && opening.balance) || 0,
+      records.map(odooReceivableLineToStatementLine),
+      openRecords.map((record) => ({
+        date: record.date,
+        dueDate: record.date_maturity || undefined,
+        amountResidual: record.amount_residual,
+      }))
+    );
+  }
+
+  // ==================== SYNC ====================
+
+  /**
+   * Fetch a page of sale orders written after a sync cursor
+   *
+   * @param domain - Odoo search domain of the synced orders
+   * @param cursor - Last record already received (null for a full sync)
+   * @param limit - Page size
+   * @returns Changed orders, oldest write first
+   */
+  public async fetchOrderChanges(
+    domain: OdooDomain,
+    cursor: SyncCursor | null,
+    limit: number
+  ): Promise<SyncDelta<Order>> {
+    const delta = await this.fetchChanges<OdooSaleOrder>(
+      models.order,
+      domain,
+      await this.fieldsOf(models.order, ORDER_FIELDS),
+      cursor,
+      limit
+    );
+    return { ...delta, records: await this.withOrderDetails(delta.records) };
+  }
+
+  /**
+   * Fetch a page of customers written after a sync cursor
+   *
+   * @param domain - Odoo search domain of the synced customers
+   * @param cursor - Last record already received (null for a full sync)
+   * @param limit - Page size
+   * @returns Changed customers, oldest write first
+   */
+  public async fetchCustomerChanges(
+    domain: OdooDomain,
+    cursor: SyncCursor | null,
+    limit: number
+  ): Promise<SyncDelta<Customer>> {
+    const delta = await this.fetchChanges<OdooPartner>(models.partner, domain, PARTNER_FIELDS, cursor, limit);
+    return { ...delta, records: await this.withReceivables(delta.records.map(odooPartnerToCustomer)) };
+  }
+
+  /**
+   * Fetch a page of products written after a sync cursor
+   *
+   * @param domain - Odoo search domain of the synced products
+   * @param cursor - Last record already received (null for a full sync)
+   * @param limit - Page size
+   * @returns Changed products, oldest write first
+   */
+  public async fetchProductChanges(
+    domain: OdooDomain,
+    cursor: SyncCursor | null,
+    limit: number
+  ): Promise<SyncDelta<Product>> {
+    const delta = await this.fetchChanges<OdooProduct>(models.product, domain, PRODUCT_FIELDS, cursor, limit);
+    return { ...delta, records: await this.withCategoryPaths(delta.records.map(odooProductToProduct)) };
+  }
+
+  /**
+   * Page through records by (write_date, id), so a page boundary never
+   * skips records written in the same second, and list the IDs still
+   * matching the domain once the last page is reached.
+   * write_date is only ever bumped, so a record written while paging
+   * comes back on a later page.
+   */
+  private async fetchChanges<R extends { id: number; write_date: string }>(
+    model: string,
+    domain: OdooDomain,
+    fields: string[],
+    cursor: SyncCursor | null,
+    limit: number
+  ): Promise<SyncDelta<R>> {
+    const after: OdooDomain = cursor
+      ? ['|', ['write_date', '>', cursor.writeDate],
+        '&', ['write_date', '=', cursor.writeDate], ['id', '>', toRecordId(cursor.id) || 0]]
+      : [];
+
+    const records = await this.client.searchRead<R>(model, andDomains(domain, after), {
+      fields,
+      limit,
+      order: 'write_date asc, id asc',
+    });
+    const last = records[records.length - 1];
+    const hasMore = records.length === limit;
+
+    return {
+      records,
+      cursor: last ? { writeDate: last.write_date, id: String(last.id) } : cursor,
+      hasMore,
+      ids: hasMore ? undefined : (await this.client.search(model, domain)).map(String),
+    };
+  }
+
+  // ==================== BUS ====================
+
+  /**
+   * Long-poll the portal's Odoo bus channel and load the records the
+   * `portal/record_changed` notifications point at. Returns as soon as
+   * notifications arrive, or with no events once the timeout expires.
+   * Stock changes come as stock.quant notifications (resolved to their
+   * product) or product.product ones (see README, Real-time updates).
+   *
+   * @param last - ID of the last notification already received
+   * @param timeoutMs - How long to wait for notifications
+   * @returns Events with their records, and the ID to poll from next
+   */
+  public async pollEvents(last: number, timeoutMs: number = BUS_CONFIG.pollTimeoutMs): Promise<PortalEventBatch> {
+    const deadline = Date.now() + timeoutMs;
+    let notifications: OdooBusNotification[] = [];
+
+    for (;;) {
+      const result = await this.client.rpc<{ notifications: OdooBusNotification[] }>(BUS_CONFIG.endpoint, {
+        channels: [BUS_CONFIG.channel],
+        last,
+        is_first_poll: last === 0,
+      });
+      notifications = result.notifications ?? [];
+      if (notifications.length > 0 || Date.now() + BUS_CONFIG.peekIntervalMs > deadline) break;
+      await sleep(BUS_CONFIG.peekIntervalMs);
+    }
+
+    const changed: Record<string, number[]> = {};
+    for (const notification of notifications) {
+      const payload = notification.message.payload as { model?: string; id?: number } | null;
+      if (notification.message.type !== 'portal/record_changed' || !payload?.model || !payload.id) continue;
+      changed[payload.model] = [...(changed[payload.model] ?? []), payload.id];
+    }
+    const ids = (model: string) => Array.from(new Set(changed[model] ?? []));
+
+    const orderIds = ids(models.order);
+    const partnerIds = ids(models.partner);
+    const productIds = await this.changedProductIds(ids(models.product), ids('stock.quant'));
+    const [orders, customers, stock] = await Promise.all([
+      orderIds.length > 0 ? this.fetchOrders([['id', 'in', orderIds]], 1, orderIds.length) : null,
+      partnerIds.length > 0 ? this.fetchCustomers([['id', 'in', partnerIds]], 1, partnerIds.length) : null,
+      productIds.length > 0 ? this.fetchStockAvailability(productIds) : [],
+    ]);
+
+    const events: PortalEvent[] = [
+      ...(orders?.data ?? []).map((order): PortalEvent => ({ type: 'order', order })),
+      ...(customers?.data ?? []).map((customer): PortalEvent => ({ type: 'customer', customer })),
+      ...stock.map((level): PortalEvent => ({ type: 'stock', stock: level })),
+    ];
+
+    return {
+      last: notifications.reduce((max, notification) => Math.max(max, notification.id), last),
+      events,
+    };
+  }
+
+  /**
+   * Products whose stock changed: those notified directly, plus the
+   * products of the notified quants (deleted quants are skipped)
+   */
+  private async changedProductIds(productIds: number[], quantIds: number[]): Promise<number[]> {
+    const quants = quantIds.length > 0
+      ? await this.client.read<Pick<OdooStockQuant, 'id' | 'product_id'>>('stock.quant', quantIds, ['product_id'])
+      : [];
+    const quantProductIds = quants.flatMap((quant) => (quant.product_id ? [quant.product_id[0]] : []));
+    return Array.from(new Set([...productIds, ...quantProductIds]));
+  }
+
+  // ==================== PRICELISTS ====================
+
+  /**
+   * Fetch active pricelists with their rules
+   *
+   * @param pricelistIds - Restrict to these pricelists (all when omitted)
+   * @returns Pricelists
+   */
+  public async fetchPricelists(pricelistIds?: number[]): Promise<Pricelist[]> {
+    const records = await this.client.searchRead<OdooPricelist>(
+      models.pricelist,
+      pricelistIds ? [['id', 'in', pricelistIds]] : [],
+      { fields: ['name', 'item_ids', 'write_date'], order: 'sequence, id' }
+    );
+
+    const items = await this.client.read<OdooPricelistItem>(
+      models.pricelistItem,
+      records.flatMap((record) => record.item_ids),
+      PRICELIST_ITEM_FIELDS
+    );
+    const itemsById = new Map(items.map((item) => [item.id, item]));
+
+    return records.map((record) =>
+      odooPricelistToPricelist(
+        record,
+        record.item_ids
+          .map((id) => itemsById.get(id))
+          .filter((item): item is OdooPricelistItem => item !== undefined)
+      )
+    );
+  }
+
+  // ==================== USERS ====================
+
+  /**
+   * Fetch the portal user for an Odoo user ID.
+   * Sales managers get the admin role, everyone else is a salesman.
+   *
+   * @param uid - Odoo res.users ID
+   * @returns Portal user or null if it does not exist
+   */
+  public async fetchPortalUser(uid: number): Promise<User | null> {
+    const [record] = await this.client.read<OdooUser>(
+      'res.users',
+      [uid],
+      ['name', 'login', 'email', 'partner_id', 'login_date']
+    );
+    if (!record) return null;
+
+    const isManager = await this.client.callKw<boolean>(
+      'res.users',
+      'has_group',
+      [[uid], 'sales_team.group_sale_manager']
+    );
+    return odooUserToUser(record, isManager ? 'admin' : 'salesman');
+  }
+
+  /**
+   * Fetch the companies an Odoo user may work for
+   *
+   * @param uid - Odoo res.users ID
+   * @returns Companies, the user's default company first
+   */
+  public async fetchCompanies(uid: number): Promise<Company[]> {
+    const [user] = await this.client.read<{ id: number; company_id: Many2one; company_ids: number[] }>(
+      'res.users',
+      [uid],
+      ['company_id', 'company_ids']
+    );
+    if (!user) return [];
+
+    const defaultId = user.company_id ? user.company_id[0] : undefined;
+    const records = await this.client.read<OdooCompany>('res.company', user.company_ids, COMPANY_FIELDS);
+    return records
+      .sort((a, b) => Number(b.id === defaultId) - Number(a.id === defaultId) || a.name.localeCompare(b.name))
+      .map(odooCompanyToCompany);
+  }
+}
+
+// Export repository bound to the default client
+export const odooRepository = new OdooRepository(odooClient);
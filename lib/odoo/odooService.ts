@@ -3,14 +3,32 @@
  * 
  * Handles all communication with Odoo 18 ERP system.
  * Provides methods for CRUD operations on Odoo models.
- * Currently uses mock data - will be replaced with actual Odoo XML-RPC/JSON-RPC calls.
+ * Talks to Odoo through the server-side /api/odoo routes (so Odoo credentials
+ * never reach the browser), or serves mock data while ODOO_CONFIG.mockMode is enabled.
  * 
  * @module lib/odoo/odooService
  */
 
-import { ODOO_CONFIG, API_CONFIG } from '@/lib/config';
+import { ODOO_CONFIG, API_CONFIG, STOCK_CONFIG, SYNC_CONFIG, BUS_CONFIG, COMPANY_CONFIG, MRA_CONFIG } from '@/lib/config';
 import { authService } from '@/lib/auth/authService';
+import { useCompanyStore } from '@/lib/stores/companyStore';
+import { requestPipeline, ApiRequestError, RequestOverrides, isNetworkError } from '@/lib/api/requestPipeline';
 import { offlineService } from '@/lib/offline/offlineService';
+import { generateInvoicePDF } from '@/lib/pdf/invoice';
+import { resolveUnitPrice } from '@/lib/pricing/pricelist';
+import { applyDeliveredWeights } from '@/lib/pricing/orderTotals';
+import { ORDER_TRANSITIONS, assertTransition } from '@/lib/orders/orderLifecycle';
+import {
+  hasOpenBackorder,
+  isOpenDelivery,
+  remainingQuantities,
+  shippedQuantities,
+} from '@/lib/orders/deliveries';
+import { priceReturnLines, returnTotals, creditedAmount } from '@/lib/orders/returns';
+import { checkCredit, canOverrideCredit, orderDataTotal } from '@/lib/orders/creditCheck';
+import { generateReceiptNumber } from '@/lib/payments/allocation';
+import { buildStatement, StatementOpenItem } from '@/lib/customers/statement';
+import { generateId } from '@/lib/utils';
 import {
   Order,
   Customer,
@@ -20,14 +38,41 @@ import {
   CustomerFilters,
   PaginatedResponse,
   ApiResponse,
+  FiscalStatus,
+  MraFiscalisation,
+  Pricelist,
+  StockAvailability,
+  OrderAction,
+  OrderDelivery,
+  OrderReturn,
+  CreateReturnData,
+  OpenInvoice,
+  Payment,
+  CreatePaymentData,
+  CustomerStatement,
+  StatementEntry,
+  PortalEventBatch,
+  Company,
+  SyncModel,
+  SyncCursor,
+  SyncDelta,
+  SyncRecords,
 } from '@/types';
 import {
   generateMockOrders,
   generateMockCustomers,
   generateMockProducts,
+  generateMockPricelists,
+  generateMockPortalEvent,
+  generateMockCompanies,
   simulateApiDelay,
 } from '@/lib/mockData';
 
+/**
+ * Maximum number of products returned by a search
+ */
+const PRODUCT_SEARCH_LIMIT = 50;
+
 /**
  * Odoo API Service Class
  * Handles all interactions with Odoo backend
@@ -35,7 +80,6 @@ import {
 class OdooService {
   private static instance: OdooService;
   private baseUrl: string;
-  private sessionId: string | null = null;
 
   private constructor() {
     this.baseUrl = ODOO_CONFIG.url;
@@ -52,40 +96,76 @@ class OdooService {
   }
 
   /**
-   * Get authentication headers for Odoo API requests
+   * Get authentication headers for Odoo API requests,
+   * with the active company the request is scoped to
    */
   private getHeaders(): HeadersInit {
     const token = authService.getAuthToken();
+    const companyId = useCompanyStore.getState().activeCompanyId;
     return {
       'Content-Type': 'application/json',
       ...(token && { Authorization: `Bearer ${token}` }),
+      ...(companyId && { [COMPANY_CONFIG.header]: companyId }),
     };
   }
 
   /**
-   * Generic API call wrapper with error handling
+   * Call a portal API route and unwrap its data
+   * 
+   * @param endpoint - API endpoint
+   * @param options - Fetch options
+   * @param overrides - Timeout and retries of this call, if not the pipeline's
+   * @returns Response data
+   * @throws ApiRequestError if the call failed (status 0 when Odoo could not be reached)
+   */
+  private async request<T>(endpoint: string, options: RequestInit = {}, overrides: RequestOverrides = {}): Promise<T> {
+    const response = await this.apiCall<T>(endpoint, options, overrides);
+    if (!response.success) {
+      // The pipeline has already spent the retries
+      throw new ApiRequestError(response.error || 'API request failed', response.status ?? 0, false);
+    }
+    return response.data as T;
+  }
+
+  /**
+   * Build a query string, skipping undefined values
+   */
+  private toQuery(params: Record<string, string | number | undefined>): string {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) query.set(key, String(value));
+    });
+    return query.toString();
+  }
+
+  /**
+   * Generic API call wrapper with error handling.
+   * Goes through the request pipeline (timeout, rate limit, retries of
+   * reads, deduplication of identical reads in flight).
    * 
    * @param endpoint - API endpoint
    * @param options - Fetch options
+   * @param overrides - Timeout and retries of this call, if not the pipeline's
    * @returns API response
    */
-  private async apiCall<T>(endpoint: string, options: RequestInit = {}): Promise<ApiResponse<T>> {
+  private async apiCall<T>(
+    endpoint: string,
+    options: RequestInit = {},
+    overrides: RequestOverrides = {}
+  ): Promise<ApiResponse<T>> {
     try {
       const url = `${API_CONFIG.baseUrl}${endpoint}`;
-      const response = await fetch(url, {
+      const response = await requestPipeline.fetch(url, {
         ...options,
         headers: {
           ...this.getHeaders(),
           ...options.headers,
         },
-        signal: AbortSignal.timeout(API_CONFIG.timeout),
-      });
-
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
+      }, overrides);
 
-      const data = await response.json();
+      // No content (204) has no JSON to parse
+      const body = await response.text();
+      const data = body ? JSON.parse(body) : undefined;
 
       return {
         success: true,
@@ -97,6 +177,7 @@ class OdooService {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
+        status: error instanceof ApiRequestError ? error.status : 0,
         timestamp: new Date(),
       };
     }
@@ -106,7 +187,8 @@ class OdooService {
 
   /**
    * Fetch orders from Odoo
-   * Maps to Odoo sale.order model
+   * Maps to Odoo sale.order model.
+   * Falls back to the cached orders offline.
    * 
    * @param filters - Optional filters for orders
    * @param page - Page number for pagination
@@ -119,24 +201,18 @@ class OdooService {
     pageSize: number = 10
   ): Promise<PaginatedResponse<Order>> {
     try {
+      if (!ODOO_CONFIG.mockMode) {
+        const query = this.toQuery({
+          filters: filters && JSON.stringify(filters),
+          page,
+          pageSize,
+        });
+        return await this.request<PaginatedResponse<Order>>(`/odoo/orders?${query}`);
+      }
+
       // Simulate API delay
       await simulateApiDelay(800);
 
-      // TODO: Replace with actual Odoo API call
-      // const response = await this.apiCall<Order[]>('/odoo/orders', {
-      //   method: 'POST',
-      //   body: JSON.stringify({
-      //     model: 'sale.order',
-      //     method: 'search_read',
-      //     args: [this.buildOrderDomain(filters)],
-      //     kwargs: {
-      //       fields: ['name', 'partner_id', 'amount_total', 'state', 'date_order'],
-      //       limit: pageSize,
-      //       offset: (page - 1) * pageSize,
-      //     },
-      //   }),
-      // });
-
       // Mock implementation
       let orders = generateMockOrders();
 
@@ -145,21 +221,14 @@ class OdooService {
         orders = this.applyOrderFilters(orders, filters);
       }
 
-      // Pagination
-      const total = orders.length;
-      const totalPages = Math.ceil(total / pageSize);
-      const startIndex = (page - 1) * pageSize;
-      const endIndex = startIndex + pageSize;
-      const paginatedOrders = orders.slice(startIndex, endIndex);
-
-      return {
-        data: paginatedOrders,
-        total,
-        page,
-        pageSize,
-        totalPages,
-      };
+      return this.paginate(orders, page, pageSize);
     } catch (error) {
+      const cached = await offlineService.getLocalOrders().catch(() => []);
+      if (cached.length > 0) {
+        const orders = filters ? this.applyOrderFilters(cached, filters) : cached;
+        return this.paginate(orders.sort((a, b) => b.date.localeCompare(a.date)), page, pageSize);
+      }
+
       console.error('Error fetching orders:', error);
       throw error;
     }
@@ -173,12 +242,11 @@ class OdooService {
    */
   public async getOrderById(orderId: string): Promise<Order | null> {
     try {
-      await simulateApiDelay(500);
+      if (!ODOO_CONFIG.mockMode) {
+        return await this.request<Order>(`/odoo/orders/${orderId}`);
+      }
 
-      // TODO: Replace with actual Odoo API call
-      // const response = await this.apiCall<Order>(`/odoo/orders/${orderId}`, {
-      //   method: 'GET',
-      // });
+      await simulateApiDelay(500);
 
       // Mock implementation
       const orders = generateMockOrders();
@@ -190,12 +258,15 @@ class OdooService {
   }
 
   /**
-   * Create new order in Odoo with invoice generation
+   * Create new order in Odoo with invoice generation.
+   * Submitting again with the same idempotency key returns the order the
+   * first submission created, even if its response was lost.
    * 
    * @param orderData - Order data with discount and signature
+   * @param idempotencyKey - Key of the submission (a new one by default)
    * @returns Created order with invoice information
    */
-  public async createOrder(orderData: CreateOrderData): Promise<{
+  public async createOrder(orderData: CreateOrderData, idempotencyKey: string = generateId()): Promise<{
     order: Order;
     invoice?: {
       id: string;
@@ -204,31 +275,20 @@ class OdooService {
       pdf_url?: string;
       amount_total: number;
     };
-    mra_status?: string;
+    mra_status?: FiscalStatus;
   }> {
     try {
-      await simulateApiDelay(1500);
+      orderData = await this.applyCustomerPricelist(orderData);
+
+      if (!ODOO_CONFIG.mockMode) {
+        return await this.request('/odoo/orders', {
+          method: 'POST',
+          headers: { [API_CONFIG.idempotencyKeyHeader]: idempotencyKey },
+          body: JSON.stringify(orderData),
+        });
+      }
 
-      // TODO: Replace with actual Odoo API call
-      // const response = await this.apiCall<any>('/odoo/orders/create', {
-      //   method: 'POST',
-      //   body: JSON.stringify({
-      //     model: 'sale.order',
-      //     method: 'create_from_portal',
-      //     args: [{
-      //       partner_id: orderData.customerId,
-      //       order_line: orderData.items.map(item => [0, 0, {
-      //         product_id: item.productId,
-      //         product_uom_qty: item.quantity,
-      //         price_unit: item.unitPrice,
-      //         discount: item.discount || 0,
-      //       }]),
-      //       note: orderData.notes,
-      //       client_order_ref: orderData.deliveryAddress,
-      //       signature_image: orderData.signature,
-      //     }],
-      //   }),
-      // });
+      await simulateApiDelay(1500);
 
       // Mock implementation
       const user = authService.getCurrentUser();
@@ -236,6 +296,12 @@ class OdooService {
       const customers = generateMockCustomers();
       const customer = customers.find(c => c.id === orderData.customerId);
 
+      // Same credit check as the API route
+      const credit = customer && checkCredit(customer, orderDataTotal(orderData.items));
+      if (credit?.level === 'block' && !(orderData.creditOverride && user && canOverrideCredit(user.role))) {
+        throw new Error(`Credit check failed: ${credit.reasons.join('; ')}`);
+      }
+
       // Calculate totals with discount
       const itemsWithCalculations = orderData.items.map((item, index) => {
         const subtotalBeforeDiscount = item.quantity * item.unitPrice;
@@ -268,7 +334,7 @@ class OdooService {
         customerId: orderData.customerId,
         customerName: customer?.name || 'Unknown Customer',
         date: new Date().toISOString().split('T')[0],
-        status: 'pending',
+        status: 'confirmed',
         items: itemsWithCalculations,
         subtotal: subtotal,
         tax: tax,
@@ -290,6 +356,16 @@ class OdooService {
         pdf_url: `/api/invoices/${invoiceNumber}/pdf`,
         amount_total: total,
       };
+      newOrder.invoice = {
+        id: invoice.id,
+        name: invoice.name,
+        state: invoice.state,
+        amountTotal: total,
+        fiscalisation: { status: 'pending' },
+      };
+      if (MRA_CONFIG.enabled) {
+        newOrder.invoice.fiscalisation = await this.fiscaliseOrder(newOrder);
+      }
 
       console.log('Order created:', orderNumber);
       console.log('Invoice created:', invoiceNumber);
@@ -299,7 +375,7 @@ class OdooService {
       return {
         order: newOrder,
         invoice: invoice,
-        mra_status: 'submitted',
+        mra_status: newOrder.invoice.fiscalisation?.status,
       };
     } catch (error) {
       console.error('Error creating order:', error);
@@ -309,6 +385,7 @@ class OdooService {
 
   /**
    * Update existing order
+   * Offline, the edit is queued and merged with Odoo on the next sync.
    * 
    * @param orderId - Order ID
    * @param updates - Order updates
@@ -316,17 +393,18 @@ class OdooService {
    */
   public async updateOrder(orderId: string, updates: Partial<Order>): Promise<Order> {
     try {
-      await simulateApiDelay(800);
+      if (SYNC_CONFIG.enabled && !offlineService.isCurrentlyOnline()) {
+        return await offlineService.updateOfflineOrder(orderId, updates);
+      }
 
-      // TODO: Replace with actual Odoo API call
-      // const response = await this.apiCall<Order>(`/odoo/orders/${orderId}`, {
-      //   method: 'PUT',
-      //   body: JSON.stringify({
-      //     model: 'sale.order',
-      //     method: 'write',
-      //     args: [parseInt(orderId), updates],
-      //   }),
-      // });
+      if (!ODOO_CONFIG.mockMode) {
+        return await this.request<Order>(`/odoo/orders/${orderId}`, {
+          method: 'PATCH',
+          body: JSON.stringify(updates),
+        });
+      }
+
+      await simulateApiDelay(800);
 
       // Mock implementation
       const order = await this.getOrderById(orderId);
@@ -345,6 +423,180 @@ class OdooService {
     }
   }
 
+  /**
+   * Record the weighed quantity of each order line for the open delivery.
+   * Validates the delivery and re-invoices the order on the delivered weights.
+   * With `createBackorder`, whatever is short of the ordered quantity is left
+   * in a backorder delivery instead of being dropped.
+   * 
+   * @param order - Order being delivered
+   * @param weights - Weight (kg) shipped in this delivery per order line ID
+   * @param createBackorder - Ship the rest later in a backorder
+   * @returns Updated order
+   */
+  public async recordDeliveredWeights(
+    order: Order,
+    weights: Record<string, number>,
+    createBackorder: boolean = false
+  ): Promise<Order> {
+    try {
+      if (!ODOO_CONFIG.mockMode) {
+        return await this.request<Order>(`/odoo/orders/${order.id}/weights`, {
+          method: 'POST',
+          body: JSON.stringify({ weights, createBackorder }),
+        });
+      }
+
+      await simulateApiDelay(800);
+
+      // Mock implementation
+      const remaining = remainingQuantities(order);
+      const shipped = shippedQuantities(order);
+      const now = new Date().toISOString();
+      const previous = (order.deliveries ?? []).filter(delivery => !isOpenDelivery(delivery));
+      const delivery: OrderDelivery = {
+        id: `pick-${Date.now()}`,
+        name: `WH/OUT/${order.orderNumber.replace(/\D/g, '')}-${previous.length + 1}`,
+        state: 'done',
+        scheduledDate: now,
+        doneDate: now,
+        backorderOf: order.deliveries?.find(isOpenDelivery)?.backorderOf,
+        lines: order.items.map(item => ({
+          orderLineId: item.id,
+          productName: item.productName,
+          quantity: remaining[item.id],
+          doneQuantity: weights[item.id] ?? remaining[item.id],
+        })),
+      };
+      const backorderLines = delivery.lines
+        .filter(line => line.quantity - (line.doneQuantity ?? 0) > 0)
+        .map(line => ({ ...line, quantity: line.quantity - (line.doneQuantity ?? 0), doneQuantity: undefined }));
+
+      if (createBackorder && backorderLines.length > 0) {
+        const backorder: OrderDelivery = {
+          id: `${delivery.id}-bo`,
+          name: `${delivery.name}-BO`,
+          state: 'ready',
+          scheduledDate: now,
+          backorderOf: delivery.name,
+          lines: backorderLines,
+        };
+        return {
+          ...order,
+          status: 'partially_delivered',
+          deliveries: [...previous, delivery, backorder],
+          updatedAt: now,
+        };
+      }
+
+      // Last delivery: bill the total weight shipped over all deliveries
+      const totalWeights = Object.fromEntries(
+        delivery.lines.map(line => [line.orderLineId, (shipped[line.orderLineId] ?? 0) + (line.doneQuantity ?? 0)])
+      );
+      const weighed = applyDeliveredWeights(order, totalWeights);
+      return {
+        ...weighed,
+        status: weighed.invoice ? 'invoiced' : 'delivered',
+        invoice: weighed.invoice && { ...weighed.invoice, amountTotal: weighed.total },
+        deliveries: [...previous, delivery],
+        updatedAt: now,
+      };
+    } catch (error) {
+      console.error('Error recording delivered weights:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move an order along its lifecycle (see lib/orders/orderLifecycle).
+   * Deliveries are recorded with recordDeliveredWeights.
+   * 
+   * @param order - Order
+   * @param action - Lifecycle action
+   * @returns Updated order
+   * @throws OrderTransitionError if the current user may not perform the action
+   */
+  public async transitionOrder(order: Order, action: Exclude<OrderAction, 'deliver'>): Promise<Order> {
+    try {
+      assertTransition(order.status, action, authService.getCurrentUser()?.role ?? 'salesman');
+
+      if (!ODOO_CONFIG.mockMode) {
+        return await this.request<Order>(`/odoo/orders/${order.id}/transitions`, {
+          method: 'POST',
+          body: JSON.stringify({ action }),
+        });
+      }
+
+      await simulateApiDelay(600);
+
+      // Mock implementation
+      const invoiceNumber = `INV-2025-${order.orderNumber.replace(/\D/g, '').padStart(5, '0')}`;
+      return {
+        ...order,
+        status: ORDER_TRANSITIONS[action].to,
+        invoice: action === 'invoice' && !order.invoice
+          ? {
+              id: `inv-${Date.now()}`,
+              name: invoiceNumber,
+              state: 'posted',
+              paymentState: 'not_paid',
+              amountTotal: order.total,
+              fiscalisation: { status: 'pending' },
+            }
+          : order.invoice,
+        updatedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      console.error(`Error performing ${action} on order:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record goods returned by the customer (spoiled or wrongly cut meat).
+   * The return is credited with a credit note against the order's invoice,
+   * which lowers the customer's balance.
+   * 
+   * @param order - Invoiced order the goods come from
+   * @param data - Returned quantities, reason and photos
+   * @returns Updated order, with the new return
+   */
+  public async createReturn(order: Order, data: CreateReturnData): Promise<Order> {
+    try {
+      if (!ODOO_CONFIG.mockMode) {
+        return await this.request<Order>(`/odoo/orders/${order.id}/returns`, {
+          method: 'POST',
+          body: JSON.stringify(data),
+        });
+      }
+
+      await simulateApiDelay(800);
+
+      // Mock implementation
+      const lines = priceReturnLines(order, data.lines);
+      const returnNumber = (order.returns?.length ?? 0) + 1;
+      const orderReturn: OrderReturn = {
+        id: `refund-${Date.now()}`,
+        creditNoteName: `RINV-2025-${order.orderNumber.replace(/\D/g, '').padStart(5, '0')}-${returnNumber}`,
+        state: 'posted',
+        reason: data.reason,
+        notes: data.notes,
+        date: new Date().toISOString().split('T')[0],
+        lines,
+        amountTotal: returnTotals(lines).total,
+        photoCount: data.photos?.length ?? 0,
+      };
+      return {
+        ...order,
+        returns: [...(order.returns ?? []), orderReturn],
+        updatedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      console.error('Error recording return:', error);
+      throw error;
+    }
+  }
+
   /**
    * Cancel order
    * 
@@ -353,12 +605,12 @@ class OdooService {
    */
   public async cancelOrder(orderId: string): Promise<boolean> {
     try {
-      await simulateApiDelay(600);
+      if (!ODOO_CONFIG.mockMode) {
+        await this.request(`/odoo/orders/${orderId}/cancel`, { method: 'POST' });
+        return true;
+      }
 
-      // TODO: Replace with actual Odoo API call
-      // await this.apiCall(`/odoo/orders/${orderId}/cancel`, {
-      //   method: 'POST',
-      // });
+      await simulateApiDelay(600);
 
       return true;
     } catch (error) {
@@ -367,6 +619,88 @@ class OdooService {
     }
   }
 
+  /**
+   * Submit an order's invoice to the MRA e-invoicing system.
+   * Also used to resubmit invoices left pending or rejected. Only the order
+   * ID is sent; the invoice is reloaded from Odoo server-side.
+   * In mock mode nothing is submitted: an accepted result is simulated when
+   * MRA_CONFIG.mockFiscalisation is set, otherwise the invoice stays pending.
+   * 
+   * @param order - Invoiced order
+   * @returns Fiscalisation result; failures are reported as `pending`
+   */
+  public async fiscaliseOrder(order: Order): Promise<MraFiscalisation> {
+    try {
+      if (!ODOO_CONFIG.mockMode) {
+        return await this.request<MraFiscalisation>('/mra/fiscalise', {
+          method: 'POST',
+          body: JSON.stringify({ orderId: order.id }),
+        });
+      }
+
+      if (!MRA_CONFIG.mockFiscalisation) {
+        return { status: 'pending', error: 'MRA fiscalisation is not simulated in mock mode' };
+      }
+
+      await simulateApiDelay(600);
+      return {
+        status: 'accepted',
+        irn: `MOCK-${order.invoice?.name ?? order.orderNumber}`,
+        submittedAt: new Date().toISOString(),
+        attempts: 1,
+      };
+    } catch (error) {
+      console.error('Error fiscalising order:', error);
+      return {
+        status: 'pending',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Get the official invoice PDF of an order.
+   * PDFs are cached offline next to the order, so they can be reopened
+   * without a connection; the cache is bypassed when `refresh` is set.
+   * 
+   * @param order - Invoiced order
+   * @param refresh - Download again even if a cached copy exists
+   * @returns Invoice PDF
+   * @throws Error if the order has no invoice or the download failed
+   */
+  public async getInvoicePdf(order: Order, refresh: boolean = false): Promise<Blob> {
+    const invoice = order.invoice;
+    if (!invoice) {
+      throw new Error(`Order ${order.orderNumber} has not been invoiced`);
+    }
+
+    if (!refresh) {
+      const cached = await offlineService.getLocalInvoicePdf(order.id).catch(() => undefined);
+      if (cached && cached.invoiceName === invoice.name) {
+        return cached.pdf;
+      }
+    }
+
+    let pdf: Blob;
+    if (!ODOO_CONFIG.mockMode) {
+      const response = await requestPipeline.fetch(
+        `${API_CONFIG.baseUrl}/invoices/${encodeURIComponent(invoice.name)}/pdf`,
+        { headers: this.getHeaders() }
+      );
+      pdf = await response.blob();
+    } else {
+      // Mock invoices only exist in the portal, so render them locally
+      pdf = await generateInvoicePDF(order);
+    }
+
+    // Caching is best-effort: offline mode may be disabled
+    await offlineService.saveInvoicePdfLocally(order.id, invoice.name, pdf).catch((error) => {
+      console.warn('Invoice PDF not cached:', error);
+    });
+
+    return pdf;
+  }
+
   // ==================== CUSTOMERS ====================
 
   /**
@@ -384,22 +718,16 @@ class OdooService {
     pageSize: number = 10
   ): Promise<PaginatedResponse<Customer>> {
     try {
-      await simulateApiDelay(700);
+      if (!ODOO_CONFIG.mockMode) {
+        const query = this.toQuery({
+          filters: filters && JSON.stringify(filters),
+          page,
+          pageSize,
+        });
+        return await this.request<PaginatedResponse<Customer>>(`/odoo/customers?${query}`);
+      }
 
-      // TODO: Replace with actual Odoo API call
-      // const response = await this.apiCall<Customer[]>('/odoo/customers', {
-      //   method: 'POST',
-      //   body: JSON.stringify({
-      //     model: 'res.partner',
-      //     method: 'search_read',
-      //     args: [this.buildCustomerDomain(filters)],
-      //     kwargs: {
-      //       fields: ['name', 'email', 'phone', 'customer_rank'],
-      //       limit: pageSize,
-      //       offset: (page - 1) * pageSize,
-      //     },
-      //   }),
-      // });
+      await simulateApiDelay(700);
 
       // Mock implementation
       let customers = generateMockCustomers();
@@ -409,20 +737,7 @@ class OdooService {
         customers = this.applyCustomerFilters(customers, filters);
       }
 
-      // Pagination
-      const total = customers.length;
-      const totalPages = Math.ceil(total / pageSize);
-      const startIndex = (page - 1) * pageSize;
-      const endIndex = startIndex + pageSize;
-      const paginatedCustomers = customers.slice(startIndex, endIndex);
-
-      return {
-        data: paginatedCustomers,
-        total,
-        page,
-        pageSize,
-        totalPages,
-      };
+      return this.paginate(customers, page, pageSize);
     } catch (error) {
       console.error('Error fetching customers:', error);
       throw error;
@@ -433,13 +748,16 @@ class OdooService {
    * Get single customer by ID
    * 
    * @param customerId - Customer ID
+   * @param overrides - Timeout and retries of the request, if not the pipeline's
    * @returns Customer details
    */
-  public async getCustomerById(customerId: string): Promise<Customer | null> {
+  public async getCustomerById(customerId: string, overrides: RequestOverrides = {}): Promise<Customer | null> {
     try {
-      await simulateApiDelay(500);
+      if (!ODOO_CONFIG.mockMode) {
+        return await this.request<Customer>(`/odoo/customers/${customerId}`, {}, overrides);
+      }
 
-      // TODO: Replace with actual Odoo API call
+      await simulateApiDelay(500);
 
       // Mock implementation
       const customers = generateMockCustomers();
@@ -458,9 +776,14 @@ class OdooService {
    */
   public async createCustomer(customerData: Partial<Customer>): Promise<Customer> {
     try {
-      await simulateApiDelay(900);
+      if (!ODOO_CONFIG.mockMode) {
+        return await this.request<Customer>('/odoo/customers', {
+          method: 'POST',
+          body: JSON.stringify(customerData),
+        });
+      }
 
-      // TODO: Replace with actual Odoo API call
+      await simulateApiDelay(900);
 
       // Mock implementation
       const newCustomer: Customer = {
@@ -493,6 +816,7 @@ class OdooService {
 
   /**
    * Update customer
+   * Offline, the edit is queued and merged with Odoo on the next sync.
    * 
    * @param customerId - Customer ID
    * @param updates - Customer updates
@@ -500,9 +824,18 @@ class OdooService {
    */
   public async updateCustomer(customerId: string, updates: Partial<Customer>): Promise<Customer> {
     try {
-      await simulateApiDelay(800);
+      if (SYNC_CONFIG.enabled && !offlineService.isCurrentlyOnline()) {
+        return await offlineService.updateOfflineCustomer(customerId, updates);
+      }
 
-      // TODO: Replace with actual Odoo API call
+      if (!ODOO_CONFIG.mockMode) {
+        return await this.request<Customer>(`/odoo/customers/${customerId}`, {
+          method: 'PATCH',
+          body: JSON.stringify(updates),
+        });
+      }
+
+      await simulateApiDelay(800);
 
       // Mock implementation
       const customer = await this.getCustomerById(customerId);
@@ -536,25 +869,16 @@ class OdooService {
     pageSize: number = 20
   ): Promise<PaginatedResponse<Product>> {
     try {
-      await simulateApiDelay(600);
+      if (!ODOO_CONFIG.mockMode) {
+        return await this.request<PaginatedResponse<Product>>(
+          `/odoo/products?${this.toQuery({ page, pageSize })}`
+        );
+      }
 
-      // TODO: Replace with actual Odoo API call
+      await simulateApiDelay(600);
 
       // Mock implementation
-      const products = generateMockProducts();
-      const total = products.length;
-      const totalPages = Math.ceil(total / pageSize);
-      const startIndex = (page - 1) * pageSize;
-      const endIndex = startIndex + pageSize;
-      const paginatedProducts = products.slice(startIndex, endIndex);
-
-      return {
-        data: paginatedProducts,
-        total,
-        page,
-        pageSize,
-        totalPages,
-      };
+      return this.paginate(generateMockProducts(), page, pageSize);
     } catch (error) {
       console.error('Error fetching products:', error);
       throw error;
@@ -569,9 +893,14 @@ class OdooService {
    */
   public async searchProducts(query: string): Promise<Product[]> {
     try {
-      await simulateApiDelay(400);
+      if (!ODOO_CONFIG.mockMode) {
+        const response = await this.request<PaginatedResponse<Product>>(
+          `/odoo/products?${this.toQuery({ q: query, pageSize: PRODUCT_SEARCH_LIMIT })}`
+        );
+        return response.data;
+      }
 
-      // TODO: Replace with actual Odoo API call
+      await simulateApiDelay(400);
 
       // Mock implementation
       const products = generateMockProducts();
@@ -588,8 +917,538 @@ class OdooService {
     }
   }
 
+  /**
+   * Fetch specific products by ID
+   * 
+   * @param productIds - Product IDs
+   * @param overrides - Timeout and retries of the request, if not the pipeline's
+   * @returns Matching products
+   */
+  public async getProductsByIds(productIds: string[], overrides: RequestOverrides = {}): Promise<Product[]> {
+    try {
+      if (productIds.length === 0) return [];
+
+      if (!ODOO_CONFIG.mockMode) {
+        const response = await this.request<PaginatedResponse<Product>>(
+          `/odoo/products?${this.toQuery({ ids: productIds.join(','), pageSize: productIds.length })}`,
+          {},
+          overrides
+        );
+        return response.data;
+      }
+
+      await simulateApiDelay(300);
+
+      // Mock implementation
+      return generateMockProducts().filter(product => productIds.includes(product.id));
+    } catch (error) {
+      console.error('Error fetching products:', error);
+      throw error;
+    }
+  }
+
+  // ==================== STOCK ====================
+
+  /**
+   * Fetch live availability of products
+   * Maps to Odoo product stock (on hand, less what confirmed orders will
+   * take), less other salesmen's soft reservations. Falls back to the
+   * cached product stock offline.
+   * 
+   * @param productIds - Product IDs
+   * @returns Availability per product
+   */
+  public async getStockAvailability(productIds: string[]): Promise<StockAvailability[]> {
+    try {
+      if (productIds.length === 0) return [];
+
+      if (!ODOO_CONFIG.mockMode) {
+        return await this.request<StockAvailability[]>(
+          `/odoo/stock?${this.toQuery({ ids: productIds.join(',') })}`
+        );
+      }
+
+      await simulateApiDelay(200);
+
+      // Mock implementation
+      return this.availabilityFromProducts(generateMockProducts(), productIds);
+    } catch (error) {
+      const cached = await offlineService.getLocalProducts().catch(() => []);
+      if (cached.length > 0) return this.availabilityFromProducts(cached, productIds);
+
+      console.error('Error fetching stock availability:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Hold stock for a line of the order being entered, so other salesmen
+   * see it as unavailable (no-op unless soft reservations are enabled)
+   * 
+   * @param productId - Product ID
+   * @param quantity - Quantity to hold (0 releases the hold)
+   * @returns Availability after the hold, or null when nothing was held
+   */
+  public async reserveStock(productId: string, quantity: number): Promise<StockAvailability | null> {
+    if (!STOCK_CONFIG.softReservations || ODOO_CONFIG.mockMode) return null;
+
+    try {
+      return await this.request<StockAvailability>('/odoo/stock/reservations', {
+        method: 'PUT',
+        body: JSON.stringify({ productId, quantity }),
+      });
+    } catch (error) {
+      console.warn('Stock not reserved:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Release the soft reservations of the order being entered
+   * 
+   * @param productIds - Products to release (all when omitted)
+   */
+  public async releaseStock(productIds?: string[]): Promise<void> {
+    if (!STOCK_CONFIG.softReservations || ODOO_CONFIG.mockMode) return;
+
+    try {
+      const query = productIds ? `?${this.toQuery({ ids: productIds.join(',') })}` : '';
+      await this.request(`/odoo/stock/reservations${query}`, { method: 'DELETE' });
+    } catch (error) {
+      console.warn('Stock reservations not released:', error);
+    }
+  }
+
+  // ==================== PAYMENTS ====================
+
+  /**
+   * Fetch a customer's invoices that are not fully paid, oldest due first.
+   * Falls back to the invoices of cached orders offline.
+   * 
+   * @param customerId - Customer ID
+   * @returns Open invoices
+   */
+  public async getOpenInvoices(customerId: string): Promise<OpenInvoice[]> {
+    try {
+      if (!ODOO_CONFIG.mockMode) {
+        return await this.request<OpenInvoice[]>(`/odoo/customers/${customerId}/invoices`);
+      }
+
+      await simulateApiDelay(400);
+
+      // Mock implementation
+      return this.openInvoicesFromOrders(generateMockOrders(), customerId);
+    } catch (error) {
+      const cached = await offlineService.getLocalOrders().catch(() => []);
+      if (cached.length > 0) return this.openInvoicesFromOrders(cached, customerId);
+
+      console.error('Error fetching open invoices:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a payment collected from a customer (cash, cheque or MCB Juice)
+   * and allocate it across their open invoices.
+   * The receipt number is issued here, so offline payments are queued for
+   * sync under the same number printed on the customer's receipt. Payments
+   * are kept offline so receipts can be reprinted without a connection.
+   * 
+   * @param paymentData - Payment form data
+   * @returns Recorded payment (`syncStatus: 'pending'` when queued offline)
+   */
+  public async recordPayment(paymentData: CreatePaymentData): Promise<Payment> {
+    const data = {
+      ...paymentData,
+      receiptNumber: paymentData.receiptNumber || generateReceiptNumber(),
+      date: paymentData.date || new Date().toISOString().split('T')[0],
+      salespersonName: paymentData.salespersonName || authService.getCurrentUser()?.name,
+    };
+
+    try {
+      if (SYNC_CONFIG.enabled && !offlineService.isCurrentlyOnline()) {
+        return await offlineService.createOfflinePayment(data);
+      }
+
+      let payment: Payment;
+      if (!ODOO_CONFIG.mockMode) {
+        payment = await this.request<Payment>('/odoo/payments', {
+          method: 'POST',
+          body: JSON.stringify(data),
+        });
+      } else {
+        await simulateApiDelay(800);
+
+        // Mock implementation
+        payment = {
+          ...data,
+          paymentIds: [`pay-${Date.now()}`],
+          createdAt: new Date().toISOString(),
+          syncStatus: 'synced',
+        };
+      }
+
+      // Caching is best-effort: offline mode may be disabled
+      await offlineService.savePaymentLocally(payment).catch((error) => {
+        console.warn('Payment not cached:', error);
+      });
+
+      return payment;
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      throw error;
+    }
+  }
+
+  // ==================== STATEMENTS ====================
+
+  /**
+   * Fetch a customer's statement of account for a period: invoices,
+   * credit notes and payments with a running balance, and the aging of
+   * what is still unpaid
+   * 
+   * @param customer - Customer
+   * @param dateFrom - First day of the period (YYYY-MM-DD)
+   * @param dateTo - Last day of the period (YYYY-MM-DD)
+   * @returns Statement
+   */
+  public async getCustomerStatement(
+    customer: Pick<Customer, 'id' | 'name'>,
+    dateFrom: string,
+    dateTo: string
+  ): Promise<CustomerStatement> {
+    try {
+      if (!ODOO_CONFIG.mockMode) {
+        return await this.request<CustomerStatement>(
+          `/odoo/customers/${customer.id}/statement?${this.toQuery({ from: dateFrom, to: dateTo })}`
+        );
+      }
+
+      await simulateApiDelay(600);
+
+      // Mock implementation
+      return this.statementFromOrders(generateMockOrders(), customer, dateFrom, dateTo);
+    } catch (error) {
+      console.error('Error fetching customer statement:', error);
+      throw error;
+    }
+  }
+
+  // ==================== SYNC ====================
+
+  /**
+   * Fetch a page of the records of a model written after a sync cursor,
+   * oldest write first; without a cursor, pages through all of them.
+   * The last page lists the IDs of every record still synced.
+   * 
+   * @param model - Synced model
+   * @param cursor - Last record already received (null for a full sync)
+   * @returns Changed records and the cursor to continue from
+   */
+  public async getChanges<M extends SyncModel>(
+    model: M,
+    cursor: SyncCursor | null
+  ): Promise<SyncDelta<SyncRecords[M]>> {
+    try {
+      if (!ODOO_CONFIG.mockMode) {
+        const query = this.toQuery({
+          model,
+          writeDate: cursor?.writeDate,
+          id: cursor?.id,
+          limit: SYNC_CONFIG.pageSize,
+        });
+        return await this.request<SyncDelta<SyncRecords[M]>>(`/odoo/sync?${query}`);
+      }
+
+      await simulateApiDelay(400);
+
+      // Mock implementation
+      const records: Record<SyncModel, Array<Order | Customer | Product>> = {
+        orders: generateMockOrders(),
+        customers: generateMockCustomers(),
+        products: generateMockProducts(),
+      };
+      return this.mockChanges(records[model] as SyncRecords[M][], cursor, SYNC_CONFIG.pageSize);
+    } catch (error) {
+      console.error(`Error fetching ${model} changes:`, error);
+      throw error;
+    }
+  }
+
+  // ==================== BUS ====================
+
+  /**
+   * Wait for changes pushed from Odoo (orders, customers, stock).
+   * Resolves when events arrive or the server's long-poll times out;
+   * mock mode emits a simulated event every so often.
+   * 
+   * @param last - ID of the last notification already received (0 on first poll)
+   * @returns Events and the ID to poll from next
+   */
+  public async pollEvents(last: number): Promise<PortalEventBatch> {
+    try {
+      if (!ODOO_CONFIG.mockMode) {
+        return await this.request<PortalEventBatch>(`/odoo/bus?${this.toQuery({ last })}`);
+      }
+
+      await simulateApiDelay(BUS_CONFIG.mockIntervalMs * (0.5 + Math.random()));
+
+      // Mock implementation
+      return { last: last + 1, events: [generateMockPortalEvent()] };
+    } catch (error) {
+      console.error('Error polling Odoo bus:', error);
+      throw error;
+    }
+  }
+
+  // ==================== COMPANIES ====================
+
+  /**
+   * Fetch the companies the user may sell for
+   * Maps to Odoo res.company (the user's allowed companies).
+   * 
+   * @returns Companies, the user's default company first
+   */
+  public async getCompanies(): Promise<Company[]> {
+    try {
+      if (!ODOO_CONFIG.mockMode) {
+        return await this.request<Company[]>('/odoo/companies');
+      }
+
+      await simulateApiDelay(200);
+      return generateMockCompanies();
+    } catch (error) {
+      console.error('Error fetching companies:', error);
+      throw error;
+    }
+  }
+
+  // ==================== PRICELISTS ====================
+
+  /**
+   * Fetch all active pricelists with their rules
+   * Maps to Odoo product.pricelist / product.pricelist.item models.
+   * Downloaded pricelists are cached offline; the cached copy is
+   * returned when Odoo cannot be reached.
+   * 
+   * @param overrides - Timeout and retries of the request, if not the pipeline's
+   * @returns Pricelists
+   */
+  public async getPricelists(overrides: RequestOverrides = {}): Promise<Pricelist[]> {
+    try {
+      let pricelists: Pricelist[];
+      if (!ODOO_CONFIG.mockMode) {
+        pricelists = await this.request<Pricelist[]>('/odoo/pricelists', {}, overrides);
+      } else {
+        await simulateApiDelay(400);
+        pricelists = generateMockPricelists();
+      }
+
+      await offlineService.savePricelistsLocally(pricelists).catch((error) => {
+        console.warn('Pricelists not cached:', error);
+      });
+      return pricelists;
+    } catch (error) {
+      const cached = await offlineService.getLocalPricelists().catch(() => []);
+      if (cached.length > 0) return cached;
+
+      console.error('Error fetching pricelists:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Price order items with the customer's pricelist.
+   * Items keep their own price when the customer has no pricelist.
+   * The lookups fail fast (one attempt, short timeout) and fall back to the
+   * offline cache, so an order is not held up on a bad connection before
+   * it can be sent or saved offline.
+   */
+  private async applyCustomerPricelist(orderData: CreateOrderData): Promise<CreateOrderData> {
+    const lookup: RequestOverrides = { timeout: API_CONFIG.submitLookupTimeout, maxRetries: 0 };
+    const productIds = orderData.items.map(item => item.productId);
+
+    let customer: Customer | null | undefined;
+    let products: Product[];
+    try {
+      [customer, products] = await Promise.all([
+        this.getCustomerById(orderData.customerId, lookup),
+        this.getProductsByIds(productIds, lookup),
+      ]);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      [customer, products] = await Promise.all([
+        offlineService.getLocalCustomerById(orderData.customerId).catch(() => undefined),
+        offlineService.getLocalProducts()
+          .then(cached => cached.filter(product => productIds.includes(product.id)))
+          .catch(() => []),
+      ]);
+    }
+    if (!customer?.pricelistId) return orderData;
+
+    // Falls back to the cached pricelists itself
+    const pricelists = await this.getPricelists(lookup);
+    const pricelist = pricelists.find(p => p.id === customer.pricelistId);
+    if (!pricelist) return orderData;
+
+    return {
+      ...orderData,
+      pricelistId: pricelist.id,
+      items: orderData.items.map(item => {
+        const product = products.find(p => p.id === item.productId);
+        if (!product) return item;
+        const { unitPrice, pricedByOdoo } = resolveUnitPrice(pricelist, product, item.quantity);
+        return { ...item, unitPrice, pricedByOdoo };
+      }),
+    };
+  }
+
   // ==================== HELPER METHODS ====================
 
+  /**
+   * Page mock records by (updatedAt, id), as the sync route pages Odoo
+   * records by (write_date, id)
+   */
+  private mockChanges<T extends { id: string; updatedAt?: string }>(
+    records: T[],
+    cursor: SyncCursor | null,
+    limit: number
+  ): SyncDelta<T> {
+    const compare = (writeDateA: string, idA: string, writeDateB: string, idB: string) =>
+      writeDateA.localeCompare(writeDateB) || idA.localeCompare(idB);
+    const changed = records
+      .filter(record => !cursor || compare(record.updatedAt ?? '', record.id, cursor.writeDate, cursor.id) > 0)
+      .sort((a, b) => compare(a.updatedAt ?? '', a.id, b.updatedAt ?? '', b.id))
+      .slice(0, limit);
+    const last = changed[changed.length - 1];
+    const hasMore = changed.length === limit;
+
+    return {
+      records: changed,
+      cursor: last ? { writeDate: last.updatedAt ?? '', id: last.id } : cursor,
+      hasMore,
+      ids: hasMore ? undefined : records.map(record => record.id),
+    };
+  }
+
+  /**
+   * Availability from product stock levels (mock data and offline fallback)
+   */
+  private availabilityFromProducts(products: Product[], productIds: string[]): StockAvailability[] {
+    return productIds.map(productId => {
+      const onHand = products.find(p => p.id === productId)?.stockQuantity ?? 0;
+      return { productId, onHand, reserved: 0, softReserved: 0, available: onHand };
+    });
+  }
+
+  /**
+   * Derive a customer's open invoices from their orders
+   */
+  private openInvoicesFromOrders(orders: Order[], customerId: string): OpenInvoice[] {
+    return orders
+      .filter(order =>
+        order.customerId === customerId &&
+        order.invoice?.state === 'posted' &&
+        order.invoice.paymentState !== 'paid' &&
+        order.invoice.paymentState !== 'in_payment'
+      )
+      .map(order => ({
+        id: order.invoice!.id,
+        name: order.invoice!.name,
+        orderNumber: order.orderNumber,
+        date: order.date,
+        amountTotal: order.invoice!.amountTotal,
+        amountResidual: order.invoice!.amountTotal,
+      }))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }
+
+  /**
+   * Build a statement from orders: each invoice, its credit notes and, for
+   * paid orders, the payment that settled it a week later
+   */
+  private statementFromOrders(
+    orders: Order[],
+    customer: Pick<Customer, 'id' | 'name'>,
+    dateFrom: string,
+    dateTo: string
+  ): CustomerStatement {
+    const addDays = (date: string, days: number) =>
+      new Date(new Date(date).getTime() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+    const lines: Omit<StatementEntry, 'balance'>[] = [];
+    const openItems: StatementOpenItem[] = [];
+    for (const order of orders) {
+      const invoice = order.invoice;
+      if (order.customerId !== customer.id || invoice?.state !== 'posted') continue;
+
+      const dueDate = addDays(order.date, 30);
+      lines.push({
+        date: order.date,
+        type: 'invoice',
+        reference: invoice.name,
+        description: order.orderNumber,
+        dueDate,
+        debit: invoice.amountTotal,
+        credit: 0,
+      });
+      for (const orderReturn of order.returns ?? []) {
+        lines.push({
+          date: orderReturn.date,
+          type: 'credit_note',
+          reference: orderReturn.creditNoteName,
+          description: `Return on ${order.orderNumber}`,
+          debit: 0,
+          credit: orderReturn.amountTotal,
+        });
+      }
+
+      const due = invoice.amountTotal - creditedAmount(order);
+      if (invoice.paymentState === 'paid') {
+        lines.push({
+          date: addDays(order.date, 7),
+          type: 'payment',
+          reference: `PAY/${invoice.name}`,
+          description: `Payment of ${invoice.name}`,
+          debit: 0,
+          credit: due,
+        });
+      } else if (order.date <= dateTo) {
+        openItems.push({ date: order.date, dueDate, amountResidual: due });
+      }
+    }
+
+    lines.sort((a, b) => a.date.localeCompare(b.date));
+    const openingBalance = lines
+      .filter((line) => line.date < dateFrom)
+      .reduce((sum, line) => sum + line.debit - line.credit, 0);
+
+    return buildStatement(
+      customer,
+      dateFrom,
+      dateTo,
+      openingBalance,
+      lines.filter((line) => line.date >= dateFrom && line.date <= dateTo),
+      openItems
+    );
+  }
+
+  /**
+   * Slice a full result set into a paginated response
+   */
+  private paginate<T>(items: T[], page: number, pageSize: number): PaginatedResponse<T> {
+    const total = items.length;
+    const startIndex = (page - 1) * pageSize;
+
+    return {
+      data: items.slice(startIndex, startIndex + pageSize),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    };
+  }
+
   /**
    * Apply filters to orders (mock implementation)
    */
@@ -604,6 +1463,10 @@ class OdooService {
       filtered = filtered.filter(order => order.customerId === filters.customerId);
     }
 
+    if (filters.openBackorders) {
+      filtered = filtered.filter(hasOpenBackorder);
+    }
+
     if (filters.dateFrom) {
       filtered = filtered.filter(order => order.date >= filters.dateFrom!);
     }
@@ -625,6 +1488,7 @@ class OdooService {
       filtered = filtered.filter(
         order =>
           order.orderNumber.toLowerCase().includes(query) ||
+          order.localOrderNumber?.toLowerCase().includes(query) ||
           order.customerName.toLowerCase().includes(query)
       );
     }
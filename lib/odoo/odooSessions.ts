@@ -0,0 +1,159 @@
+/**
+ * Odoo Sessions
+ *
+ * Server-side pool of the Odoo clients the API routes act through: one per
+ * portal sign-in, bound to the user's own web session on the database they
+ * chose, so Odoo applies their access rights. Requests for a company run
+ * with `allowed_company_ids`, so Odoo's multi-company rules scope the data
+ * and new records take that company's sequences.
+ *
+ * Clients are created on demand from the credentials sealed in the portal
+ * token, so any server instance can serve any user, and an expired web
+ * session is renewed by the client itself. Portal tokens without sealed
+ * credentials fall back to the service account.
+ *
+ * @module lib/odoo/odooSessions
+ */
+
+import { ODOO_CONFIG } from '@/lib/config';
+import { OdooCredentials, PortalTokenPayload, unsealOdooCredentials } from '@/lib/auth/portalToken';
+import { PortalSession } from '@/lib/api/routeHandler';
+import { OdooJsonRpcClient, odooClient } from '@/lib/odoo/jsonRpcClient';
+import { OdooRepository, odooRepository } from '@/lib/odoo/odooRepository';
+
+/**
+ * Number of sign-ins kept in memory; the least recently used are dropped
+ */
+const MAX_SESSIONS = 500;
+
+interface PooledSession {
+  client: OdooJsonRpcClient;
+  // Per company ID (0: the user's default company)
+  repositories: Map<number, OdooRepository>;
+}
+
+/**
+ * In-memory pool of Odoo web sessions, keyed by sealed credentials
+ */
+export class OdooSessionPool {
+  private sessions = new Map<string, PooledSession>();
+  private service: PooledSession = { client: odooClient, repositories: new Map([[0, odooRepository]]) };
+
+  /**
+   * Create a client signing in to a database with a user's credentials
+   *
+   * @param database - Odoo database
+   * @param credentials - Login and password
+   */
+  public createClient(database: string, credentials: OdooCredentials): OdooJsonRpcClient {
+    return new OdooJsonRpcClient({
+      baseUrl: ODOO_CONFIG.url,
+      database,
+      login: credentials.login,
+      password: credentials.password,
+    });
+  }
+
+  /**
+   * Keep a client that has just signed in, for the token it was issued with
+   *
+   * @param sealedCredentials - Credentials sealed into the portal token
+   * @param client - Signed-in client
+   * @returns Repository on the client
+   */
+  public add(sealedCredentials: string, client: OdooJsonRpcClient): OdooRepository {
+    const repository = new OdooRepository(client);
+    this.sessions.set(sealedCredentials, { client, repositories: new Map([[0, repository]]) });
+    if (this.sessions.size > MAX_SESSIONS) {
+      const [oldest] = this.sessions.keys();
+      this.sessions.delete(oldest);
+    }
+    return repository;
+  }
+
+  /**
+   * Get the repository acting as the user of a portal session, for the
+   * session's company
+   *
+   * @param session - Verified portal session
+   * @returns Repository on the user's Odoo session, or the service account's
+   * @throws Error if the sealed credentials cannot be opened
+   */
+  public repositoryFor(session: PortalSession): OdooRepository {
+    const pooled = this.pooledFor(session);
+    const companyId = session.companyId ?? 0;
+
+    let repository = pooled.repositories.get(companyId);
+    if (!repository) {
+      repository = new OdooRepository(pooled.client.withContext({ allowed_company_ids: [companyId] }));
+      pooled.repositories.set(companyId, repository);
+    }
+    return repository;
+  }
+
+  /**
+   * Odoo database a portal session works on
+   *
+   * @param session - Verified portal token payload
+   */
+  public databaseOf(session: PortalTokenPayload): string {
+    return session.odooDb || ODOO_CONFIG.database;
+  }
+
+  /**
+   * Sign out of a portal session's Odoo web session
+   *
+   * @param session - Verified portal token payload
+   */
+  public async end(session: PortalTokenPayload): Promise<void> {
+    const sealed = session.odooCredentials;
+    const pooled = sealed ? this.sessions.get(sealed) : undefined;
+    if (!sealed || !pooled) return;
+
+    this.sessions.delete(sealed);
+    await pooled.client.destroySession();
+  }
+
+  /**
+   * Databases users may sign in to
+   *
+   * @returns ODOO_CONFIG.databases, else Odoo's database list, else the default database
+   */
+  public async listDatabases(): Promise<string[]> {
+    if (ODOO_CONFIG.databases.length > 0) {
+      return [...ODOO_CONFIG.databases];
+    }
+
+    try {
+      const client = new OdooJsonRpcClient({ baseUrl: ODOO_CONFIG.url, database: ODOO_CONFIG.database });
+      const databases = await client.listDatabases();
+      return databases.length > 0 ? databases : [ODOO_CONFIG.database];
+    } catch (error) {
+      // The database manager is disabled (list_db = False)
+      console.warn('Unable to list Odoo databases:', error);
+      return [ODOO_CONFIG.database];
+    }
+  }
+
+  private pooledFor(session: PortalTokenPayload): PooledSession {
+    const sealed = session.odooCredentials;
+    if (!sealed || !session.odooDb) return this.service;
+
+    const pooled = this.sessions.get(sealed);
+    if (pooled) {
+      // Move to the end, so the least recently used session is dropped first
+      this.sessions.delete(sealed);
+      this.sessions.set(sealed, pooled);
+      return pooled;
+    }
+
+    const credentials = unsealOdooCredentials(sealed);
+    if (!credentials) {
+      throw new Error('Invalid Odoo credentials in portal token');
+    }
+    this.add(sealed, this.createClient(session.odooDb, credentials));
+    return this.sessions.get(sealed) as PooledSession;
+  }
+}
+
+export const odooSessions = new OdooSessionPool();
@@ -0,0 +1,305 @@
+/**
+ * Odoo Record Types
+ *
+ * Raw record shapes as returned by Odoo 18 search_read/read calls.
+ * These mirror Odoo field names and are converted to portal types
+ * before leaving the lib/odoo layer.
+ *
+ * @module lib/odoo/types
+ */
+
+/**
+ * Many2one value: `[id, display_name]`, or `false` when empty
+ */
+export type Many2one = [number, string] | false;
+
+/**
+ * sale.order record.
+ * The x_portal_* fields are custom fields holding the delivery address typed
+ * in the order form and the key of the submission that created the order;
+ * they are only read and written when they exist in the database.
+ */
+export interface OdooSaleOrder {
+  id: number;
+  name: string;
+  partner_id: Many2one;
+  user_id: Many2one;
+  date_order: string;
+  state: 'draft' | 'sent' | 'sale' | 'cancel';
+  delivery_status?: 'pending' | 'started' | 'partial' | 'full' | false;
+  invoice_status?: 'upselling' | 'invoiced' | 'to invoice' | 'no';
+  amount_untaxed: number;
+  amount_tax: number;
+  amount_total: number;
+  order_line: number[];
+  invoice_ids?: number[];
+  picking_ids?: number[];
+  note: string | false;
+  origin?: string | false;
+  x_portal_delivery_address?: string | false;
+  x_portal_idempotency_key?: string | false;
+  create_date: string;
+  write_date: string;
+}
+
+/**
+ * sale.order.line record
+ */
+export interface OdooSaleOrderLine {
+  id: number;
+  order_id: Many2one;
+  product_id: Many2one;
+  name: string;
+  product_uom_qty: number;
+  qty_delivered?: number;
+  price_unit: number;
+  discount: number;
+  price_subtotal: number;
+  price_tax: number;
+  tax_id?: number[];
+}
+
+/**
+ * stock.move record (delivery line)
+ */
+export interface OdooStockMove {
+  id: number;
+  sale_line_id: Many2one;
+  product_id: Many2one;
+  picking_id: Many2one;
+  product_uom_qty: number;
+  quantity: number;
+  state: 'draft' | 'waiting' | 'confirmed' | 'partially_available' | 'assigned' | 'done' | 'cancel';
+}
+
+/**
+ * stock.picking record (delivery order)
+ */
+export interface OdooPicking {
+  id: number;
+  name: string;
+  state: 'draft' | 'waiting' | 'confirmed' | 'assigned' | 'done' | 'cancel';
+  scheduled_date: string;
+  date_done: string | false;
+  backorder_id: Many2one;
+  move_ids: number[];
+}
+
+/**
+ * stock.quant record (stock of a product in a location)
+ */
+export interface OdooStockQuant {
+  id: number;
+  product_id: Many2one;
+  location_id: Many2one;
+  quantity: number;
+  reserved_quantity: number;
+}
+
+/**
+ * res.partner record
+ */
+export interface OdooPartner {
+  id: number;
+  name: string;
+  email: string | false;
+  phone: string | false;
+  mobile: string | false;
+  street: string | false;
+  city: string | false;
+  country_id: Many2one;
+  active: boolean;
+  vat: string | false;
+  comment: string | false;
+  company_name: string | false;
+  sale_warn?: 'no-message' | 'warning' | 'block';
+  property_product_pricelist?: Many2one;
+  sale_order_count?: number;
+  total_invoiced?: number;
+  credit?: number;
+  credit_limit?: number;
+  create_date: string;
+  write_date: string;
+}
+
+/**
+ * How a product is invoiced: on ordered or on delivered quantities
+ */
+export type OdooInvoicePolicy = 'order' | 'delivery';
+
+/**
+ * product.product record
+ */
+export interface OdooProduct {
+  id: number;
+  name: string;
+  default_code: string | false;
+  description_sale: string | false;
+  categ_id: Many2one;
+  lst_price: number;
+  standard_price: number;
+  qty_available: number;
+  // Stock fields, only read for availability
+  free_qty?: number;
+  virtual_available?: number;
+  // Only read when invoicing weighed quantities
+  invoice_policy?: OdooInvoicePolicy;
+  active: boolean;
+  uom_id: Many2one;
+  product_tmpl_id?: Many2one;
+  write_date: string;
+}
+
+/**
+ * product.category record, only read for its place in the category tree
+ */
+export interface OdooProductCategory {
+  id: number;
+  // IDs from the root down to the category itself, e.g. "1/4/9/"
+  parent_path: string | false;
+}
+
+/**
+ * product.pricelist record
+ */
+export interface OdooPricelist {
+  id: number;
+  name: string;
+  item_ids: number[];
+  write_date: string;
+}
+
+/**
+ * product.pricelist.item record
+ */
+export interface OdooPricelistItem {
+  id: number;
+  pricelist_id: Many2one;
+  applied_on: '0_product_variant' | '1_product' | '2_product_category' | '3_global';
+  product_id: Many2one;
+  product_tmpl_id: Many2one;
+  categ_id: Many2one;
+  min_quantity: number;
+  compute_price: 'fixed' | 'percentage' | 'formula';
+  fixed_price: number;
+  percent_price: number;
+  base: 'list_price' | 'standard_price' | 'pricelist';
+  price_discount: number;
+  price_surcharge: number;
+  price_round: number;
+  price_min_margin: number;
+  price_max_margin: number;
+  date_start: string | false;
+  date_end: string | false;
+}
+
+/**
+ * res.users record
+ */
+export interface OdooUser {
+  id: number;
+  name: string;
+  login: string;
+  email: string | false;
+  partner_id: Many2one;
+  login_date: string | false;
+}
+
+/**
+ * res.company record
+ */
+export interface OdooCompany {
+  id: number;
+  name: string;
+  street: string | false;
+  city: string | false;
+  country_id: Many2one;
+  phone: string | false;
+  email: string | false;
+  vat: string | false;
+  company_registry: string | false;
+  currency_id: Many2one;
+}
+
+/**
+ * Session info returned by /web/session/authenticate (subset)
+ */
+export interface OdooSessionInfo {
+  uid: number;
+  db: string;
+  name: string;
+  username: string;
+  partner_id: number;
+  user_context: Record<string, unknown>;
+}
+
+/**
+ * account.move record (customer invoice or credit note).
+ * The x_mra_* fields are custom fields holding the MRA fiscalisation result;
+ * they are only read when MRA e-invoicing is enabled.
+ */
+export interface OdooInvoice {
+  id: number;
+  name: string;
+  move_type?: 'out_invoice' | 'out_refund';
+  state: 'draft' | 'posted' | 'cancel';
+  partner_id?: Many2one;
+  amount_total: number;
+  amount_residual?: number;
+  payment_state?: 'not_paid' | 'in_payment' | 'paid' | 'partial' | 'reversed';
+  invoice_date?: string | false;
+  invoice_date_due?: string | false;
+  invoice_origin?: string | false;
+  ref?: string | false;
+  narration?: string | false;
+  reversed_entry_id?: Many2one;
+  invoice_line_ids?: number[];
+  message_attachment_count?: number;
+  invoice_pdf_report_id?: Many2one;
+  x_mra_status?: 'pending' | 'accepted' | 'rejected' | false;
+  x_mra_irn?: string | false;
+  x_mra_qr_code?: string | false;
+}
+
+/**
+ * account.move.line record (invoice or credit note line)
+ */
+export interface OdooInvoiceLine {
+  id: number;
+  move_id: Many2one;
+  product_id: Many2one;
+  name: string | false;
+  quantity: number;
+  price_unit: number;
+  discount: number;
+  price_subtotal: number;
+  display_type: 'product' | 'line_section' | 'line_note' | string;
+}
+
+/**
+ * account.move.line record on a customer's receivable account
+ */
+export interface OdooReceivableLine {
+  id: number;
+  date: string;
+  move_name: string;
+  move_type: 'out_invoice' | 'out_refund' | 'entry' | string;
+  name: string | false;
+  ref: string | false;
+  payment_id: Many2one;
+  date_maturity: string | false;
+  debit: number;
+  credit: number;
+  amount_residual: number;
+}
+
+/**
+ * Notification read from the Odoo bus (bus.bus)
+ */
+export interface OdooBusNotification {
+  id: number;
+  message: {
+    type: string;
+    payload: unknown;
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { fieldLabel, mergeChanges, sameValue } from '@/lib/offline/conflictMerge';
+import { SyncBase } from '@/types';
+
+const base: SyncBase = {
+  updatedAt: '2025-03-01T10:00:00.000Z',
+  values: { phone: '+230 5700 0000', email: 'orders@meridien.mu', notes: '', status: 'active' },
+};
+
+describe('sameValue', () => {
+  it('treats unset and empty alike', () => {
+    expect(sameValue(undefined, '')).toBe(true);
+    expect(sameValue(null, undefined)).toBe(true);
+    expect(sameValue('', 'a')).toBe(false);
+    expect(sameValue({ a: 1 }, { a: 1 })).toBe(true);
+  });
+});
+
+describe('mergeChanges', () => {
+  it('writes every edit when the record is untouched in Odoo', () => {
+    const server = { updatedAt: base.updatedAt, phone: 'stale', email: 'stale' };
+    expect(mergeChanges('customer', { phone: '+230 5800 0000' }, base, server)).toEqual({
+      updates: { phone: '+230 5800 0000' },
+      conflicts: [],
+    });
+  });
+
+  it('writes edits to fields unchanged in Odoo', () => {
+    const server = { updatedAt: '2025-03-02T08:00:00.000Z', ...base.values, email: 'chef@meridien.mu' };
+    expect(mergeChanges('customer', { phone: '+230 5800 0000' }, base, server)).toEqual({
+      updates: { phone: '+230 5800 0000' },
+      conflicts: [],
+    });
+  });
+
+  it('skips fields edited back to their original value', () => {
+    const server = { updatedAt: '2025-03-02T08:00:00.000Z', ...base.values, notes: 'Changed in Odoo' };
+    expect(mergeChanges('customer', { notes: undefined }, base, server)).toEqual({ updates: {}, conflicts: [] });
+  });
+
+  it('skips fields changed to the same value on both sides', () => {
+    const server = { updatedAt: '2025-03-02T08:00:00.000Z', ...base.values, phone: '+230 5800 0000' };
+    expect(mergeChanges('customer', { phone: '+230 5800 0000' }, base, server)).toEqual({ updates: {}, conflicts: [] });
+  });
+
+  it('reports fields changed differently on both sides', () => {
+    const server = { updatedAt: '2025-03-02T08:00:00.000Z', ...base.values, phone: '+230 5900 0000' };
+    expect(mergeChanges('customer', { phone: '+230 5800 0000', email: 'chef@meridien.mu' }, base, server)).toEqual({
+      updates: { email: 'chef@meridien.mu' },
+      conflicts: [{ field: 'phone', base: '+230 5700 0000', local: '+230 5800 0000', server: '+230 5900 0000' }],
+    });
+  });
+
+  it("keeps Odoo's value of fields the office owns", () => {
+    const server = { updatedAt: '2025-03-02T08:00:00.000Z', ...base.values, status: 'blocked' };
+    expect(mergeChanges('customer', { status: 'inactive' }, base, server)).toEqual({ updates: {}, conflicts: [] });
+  });
+});
+
+describe('fieldLabel', () => {
+  it('falls back to the field name', () => {
+    expect(fieldLabel('order', 'deliveryAddress')).toBe('Delivery address');
+    expect(fieldLabel('order', 'reference')).toBe('reference');
+  });
+});
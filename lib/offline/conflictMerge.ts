@@ -0,0 +1,124 @@
+/**
+ * Conflict Merge
+ *
+ * Field-level three-way merge of an edit made offline with the record as
+ * it is in Odoo by the time the edit syncs. Each edited field is compared
+ * with the value it had when the edit was made (the base):
+ * - left as it was offline: nothing to write
+ * - unchanged in Odoo: the offline value is written
+ * - changed in Odoo to the same value: nothing to write
+ * - changed in Odoo to another value: settled by the field's merge rule
+ *
+ * Merge rules:
+ * - manual: the user picks which value to keep (the default)
+ * - server: the office owns the field, Odoo's value is kept
+ *
+ * Shared by the offline service (merging on sync) and the conflict
+ * resolution screen (labels).
+ *
+ * @module lib/offline/conflictMerge
+ */
+
+import { FieldConflict, SyncBase } from '@/types';
+
+/**
+ * Record types edits are queued for offline
+ */
+export type MergeableType = 'customer' | 'order';
+
+export type MergeRule = 'manual' | 'server';
+
+/**
+ * Fields not settled by the user when both sides changed them
+ */
+export const MERGE_RULES: Record<MergeableType, Record<string, MergeRule>> = {
+  customer: {
+    status: 'server',
+    creditLimit: 'server',
+    pricelistId: 'server',
+  },
+  order: {
+    status: 'server',
+  },
+};
+
+/**
+ * Labels of the fields that can be edited offline
+ */
+export const FIELD_LABELS: Record<MergeableType, Record<string, string>> = {
+  customer: {
+    name: 'Name',
+    email: 'Email',
+    phone: 'Phone',
+    address: 'Address',
+    city: 'City',
+    country: 'Country',
+    notes: 'Notes',
+  },
+  order: {
+    deliveryAddress: 'Delivery address',
+    notes: 'Notes',
+  },
+};
+
+/**
+ * Outcome of merging an offline edit
+ */
+export interface MergeResult {
+  // Fields to write to Odoo
+  updates: Record<string, unknown>;
+  // Fields the user has to settle
+  conflicts: FieldConflict[];
+}
+
+/**
+ * Compare field values, treating unset and empty alike (Odoo returns
+ * false for empty fields, mapped to '' or undefined)
+ */
+export function sameValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown) => (value === undefined || value === null || value === '' ? null : value);
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+/**
+ * Merge an offline edit with the record as it is now in Odoo
+ *
+ * @param type - Record type
+ * @param changes - Fields edited offline, with their new values
+ * @param base - Record the edit was made from
+ * @param server - Record as it is now in Odoo
+ */
+export function mergeChanges(
+  type: MergeableType,
+  changes: Record<string, unknown>,
+  base: SyncBase,
+  server: object
+): MergeResult {
+  const current = server as Record<string, unknown>;
+
+  // Untouched in Odoo since the edit: whatever was edited applies
+  const untouched = current.updatedAt === base.updatedAt;
+
+  const result: MergeResult = { updates: {}, conflicts: [] };
+  Object.entries(changes).forEach(([field, local]) => {
+    const original = base.values[field];
+    const remote = untouched ? original : current[field];
+
+    if (sameValue(local, original)) {
+      return;
+    }
+    if (sameValue(remote, original)) {
+      result.updates[field] = local;
+    } else if (!sameValue(remote, local) && (MERGE_RULES[type][field] ?? 'manual') === 'manual') {
+      result.conflicts.push({ field, base: original, local, server: remote });
+    }
+  });
+  return result;
+}
+
+/**
+ * Label of a field for the conflict resolution screen
+ */
+export function fieldLabel(type: MergeableType, field: string): string {
+  return FIELD_LABELS[type][field] ?? field;
+}
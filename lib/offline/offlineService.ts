@@ -4,26 +4,59 @@
  * Manages offline functionality using IndexedDB for local storage.
  * Queues operations when offline and syncs when connection is restored.
  * Implements a robust offline-first architecture.
+ * Each company gets its own database, so cached data and queued changes
+ * never cross companies; a company's queue syncs while it is active.
+ * Orders, customers and products are refreshed by delta sync: only records
+ * written since the last sync (Odoo write_date) are downloaded.
+ * Edits to customers and orders made offline keep the record they were made
+ * from and are merged field by field with Odoo on sync (see conflictMerge);
+ * fields changed on both sides wait for the user to pick a value.
+ * Failed items are retried with exponential backoff (see retryPolicy); once out of attempts
+ * they wait for the user to retry, edit or discard them. Synced items stay
+ * in the queue for a few days so they can be inspected.
  * 
  * @module lib/offline/offlineService
  */
 
 import { SYNC_CONFIG } from '@/lib/config';
-import { OfflineQueueItem, SyncStatus, Order, Customer, Product } from '@/types';
+import { useCompanyStore } from '@/lib/stores/companyStore';
+import { useNotificationStore } from '@/lib/stores/notificationStore';
+import { OfflineQueueItem, SyncStatus, Order, Customer, Product, CachedInvoicePdf, Pricelist, Payment, CreatePaymentData, CreateOrderData, SyncModel, SyncCursor, SyncRecords, SyncedOrder, FieldConflict, ConflictChoice } from '@/types';
 import { odooService } from '@/lib/odoo/odooService';
+import { MergeableType, mergeChanges, sameValue } from '@/lib/offline/conflictMerge';
+import { isDeadLetter, isDueForRetry, nextAttemptAt } from '@/lib/offline/retryPolicy';
+import { QueuePayload, validateQueuePayload } from '@/lib/offline/queuePayload';
+import { isPendingSync } from '@/lib/orders/orderLifecycle';
+import { generateId } from '@/lib/utils';
 
 let db: IDBDatabase | null = null;
 
+/**
+ * Raised when an offline edit meets fields changed differently in Odoo
+ */
+class SyncConflictError extends Error {
+  constructor(public readonly conflicts: FieldConflict[], public readonly serverUpdatedAt: string) {
+    super(`${conflicts.length} field(s) also changed in Odoo`);
+    this.name = 'SyncConflictError';
+  }
+}
+
 class OfflineService {
   private static instance: OfflineService;
   private isOnline: boolean = true;
   private syncInProgress: boolean = false;
   private syncInterval: NodeJS.Timeout | null = null;
   private listeners: Set<(status: SyncStatus) => void> = new Set();
+  private syncedOrderListeners: Set<(synced: SyncedOrder) => void> = new Set();
 
   private constructor() {
     if (typeof window !== 'undefined') {
       this.initializeOfflineMode();
+      useCompanyStore.subscribe((state, previous) => {
+        if (state.activeCompanyId !== previous.activeCompanyId) {
+          this.reopenDatabase();
+        }
+      });
     }
   }
 
@@ -55,7 +88,7 @@ class OfflineService {
 
   private async initializeDatabase(): Promise<void> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(SYNC_CONFIG.dbName, SYNC_CONFIG.dbVersion);
+      const request = indexedDB.open(this.databaseName(), SYNC_CONFIG.dbVersion);
       request.onerror = () => {
         console.error('Failed to open IndexedDB:', request.error);
         reject(request.error);
@@ -88,11 +121,53 @@ class OfflineService {
           queueStore.createIndex('status', 'status', { unique: false });
           queueStore.createIndex('timestamp', 'timestamp', { unique: false });
         }
+        if (!database.objectStoreNames.contains(SYNC_CONFIG.stores.invoicePdfs)) {
+          database.createObjectStore(SYNC_CONFIG.stores.invoicePdfs, { keyPath: 'orderId' });
+        }
+        if (!database.objectStoreNames.contains(SYNC_CONFIG.stores.pricelists)) {
+          database.createObjectStore(SYNC_CONFIG.stores.pricelists, { keyPath: 'id' });
+        }
+        if (!database.objectStoreNames.contains(SYNC_CONFIG.stores.payments)) {
+          const paymentsStore = database.createObjectStore(SYNC_CONFIG.stores.payments, { keyPath: 'receiptNumber' });
+          paymentsStore.createIndex('customerId', 'customerId', { unique: false });
+          paymentsStore.createIndex('syncStatus', 'syncStatus', { unique: false });
+        }
+        if (!database.objectStoreNames.contains(SYNC_CONFIG.stores.syncState)) {
+          database.createObjectStore(SYNC_CONFIG.stores.syncState, { keyPath: 'model' });
+        }
         console.log('IndexedDB schema upgraded');
       };
     });
   }
 
+  /**
+   * IndexedDB database of the active company
+   * (the unsuffixed one until the user's companies are known)
+   */
+  private databaseName(): string {
+    const companyId = useCompanyStore.getState().activeCompanyId;
+    return companyId ? `${SYNC_CONFIG.dbName}_${companyId}` : SYNC_CONFIG.dbName;
+  }
+
+  /**
+   * Switch to the active company's database
+   */
+  private async reopenDatabase(): Promise<void> {
+    if (!SYNC_CONFIG.enabled) return;
+
+    db?.close();
+    db = null;
+    try {
+      await this.initializeDatabase();
+      this.notifyListeners();
+      if (this.isOnline) {
+        await this.syncAll();
+      }
+    } catch (error) {
+      console.error('Error opening company database:', error);
+    }
+  }
+
   private setupNetworkListeners(): void {
     this.isOnline = navigator.onLine;
     window.addEventListener('online', async () => {
@@ -170,7 +245,46 @@ class OfflineService {
     });
   }
 
-  public async createOfflineOrder(orderData: any): Promise<Order> {
+  public async saveInvoicePdfLocally(orderId: string, invoiceName: string, pdf: Blob): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+    const entry: CachedInvoicePdf = { orderId, invoiceName, pdf, cachedAt: new Date().toISOString() };
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores.invoicePdfs], 'readwrite');
+      const store = transaction.objectStore(SYNC_CONFIG.stores.invoicePdfs);
+      const request = store.put(entry);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  public async getLocalInvoicePdf(orderId: string): Promise<CachedInvoicePdf | undefined> {
+    if (!db) throw new Error('Database not initialized');
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores.invoicePdfs], 'readonly');
+      const store = transaction.objectStore(SYNC_CONFIG.stores.invoicePdfs);
+      const request = store.get(orderId);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Orders taken offline that have not reached Odoo yet, newest first
+   */
+  public async getPendingOrders(): Promise<Order[]> {
+    const orders = await this.getLocalOrders();
+    return orders
+      .filter(isPendingSync)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Take an order without a connection: it is numbered locally (LOCAL-...)
+   * and queued, with its signature, to be created in Odoo on the next sync.
+   * Pass the key of a submission that may have reached Odoo, so syncing
+   * cannot create the order twice.
+   */
+  public async createOfflineOrder(orderData: CreateOrderData, idempotencyKey: string = generateId()): Promise<Order> {
     const timestamp = Date.now();
     const localOrderNumber = `LOCAL-${new Date().toISOString().split('T')[0].replace(/-/g, '')}-${String(timestamp).slice(-4)}`;
     const itemsWithCalculations = orderData.items.map((item: any, index: number) => {
@@ -195,9 +309,9 @@ class OfflineService {
       id: `offline-${timestamp}`,
       orderNumber: localOrderNumber,
       customerId: orderData.customerId,
-      customerName: orderData.customerName,
+      customerName: orderData.customerName || '',
       date: new Date().toISOString().split('T')[0],
-      status: 'pending',
+      status: 'quotation',
       items: itemsWithCalculations,
       subtotal: subtotal,
       tax: tax,
@@ -215,6 +329,7 @@ class OfflineService {
       type: 'order',
       action: 'create',
       data: { ...orderData, localOrderId: offlineOrder.id, localOrderNumber: localOrderNumber },
+      idempotencyKey,
     });
     return offlineOrder;
   }
@@ -241,6 +356,59 @@ class OfflineService {
     });
   }
 
+  public async getLocalCustomerById(customerId: string): Promise<Customer | undefined> {
+    if (!db) throw new Error('Database not initialized');
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores.customers], 'readonly');
+      const store = transaction.objectStore(SYNC_CONFIG.stores.customers);
+      const request = store.get(customerId);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  public async updateOfflineCustomer(customerId: string, updates: Partial<Customer>): Promise<Customer> {
+    const customer = await this.getLocalCustomerById(customerId);
+    if (!customer) throw new Error('Customer not available offline');
+    const updated = await this.queueOfflineUpdate('customer', customer, updates);
+    await this.saveCustomerLocally(updated);
+    return updated;
+  }
+
+  public async updateOfflineOrder(orderId: string, updates: Partial<Order>): Promise<Order> {
+    const order = await this.getLocalOrderById(orderId);
+    if (!order) throw new Error('Order not available offline');
+    const updated = await this.queueOfflineUpdate('order', order, updates);
+    await this.saveOrderLocally(updated);
+    return updated;
+  }
+
+  /**
+   * Queue the fields an offline edit changes, with the record's updatedAt
+   * and their values before the edit as the base to merge from on sync
+   *
+   * @returns Record with the edit applied
+   */
+  private async queueOfflineUpdate<T extends Customer | Order>(type: MergeableType, record: T, updates: Partial<T>): Promise<T> {
+    const current: Record<string, unknown> = { ...record };
+    const changes = Object.fromEntries(
+      Object.entries(updates).filter(([field, value]) => !sameValue(value, current[field]))
+    );
+    const fields = Object.keys(changes);
+    if (fields.length > 0) {
+      await this.addToSyncQueue({
+        type,
+        action: 'update',
+        data: { id: record.id, ...changes },
+        base: {
+          updatedAt: record.updatedAt,
+          values: Object.fromEntries(fields.map(field => [field, current[field]])),
+        },
+      });
+    }
+    return { ...record, ...changes };
+  }
+
   public async saveProductLocally(product: Product): Promise<void> {
     if (!db) throw new Error('Database not initialized');
     return new Promise((resolve, reject) => {
@@ -263,6 +431,86 @@ class OfflineService {
     });
   }
 
+  public async savePricelistsLocally(pricelists: Pricelist[]): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores.pricelists], 'readwrite');
+      const store = transaction.objectStore(SYNC_CONFIG.stores.pricelists);
+      // Replace the whole set so deleted pricelists do not linger offline
+      store.clear();
+      pricelists.forEach(pricelist => store.put(pricelist));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  public async getLocalPricelists(): Promise<Pricelist[]> {
+    if (!db) throw new Error('Database not initialized');
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores.pricelists], 'readonly');
+      const store = transaction.objectStore(SYNC_CONFIG.stores.pricelists);
+      const request = store.getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  public async savePaymentLocally(payment: Payment): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores.payments], 'readwrite');
+      const store = transaction.objectStore(SYNC_CONFIG.stores.payments);
+      const request = store.put(payment);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  public async getLocalPayments(customerId?: string): Promise<Payment[]> {
+    if (!db) throw new Error('Database not initialized');
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores.payments], 'readonly');
+      const store = transaction.objectStore(SYNC_CONFIG.stores.payments);
+      const request = customerId ? store.index('customerId').getAll(customerId) : store.getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  public async deleteLocalPayment(receiptNumber: string): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores.payments], 'readwrite');
+      const store = transaction.objectStore(SYNC_CONFIG.stores.payments);
+      const request = store.delete(receiptNumber);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  public async createOfflinePayment(paymentData: CreatePaymentData & { receiptNumber: string }): Promise<Payment> {
+    const offlinePayment: Payment = {
+      receiptNumber: paymentData.receiptNumber,
+      customerId: paymentData.customerId,
+      customerName: paymentData.customerName,
+      method: paymentData.method,
+      amount: paymentData.amount,
+      reference: paymentData.reference,
+      date: paymentData.date || new Date().toISOString().split('T')[0],
+      allocations: paymentData.allocations,
+      salespersonName: paymentData.salespersonName,
+      createdAt: new Date().toISOString(),
+      syncStatus: 'pending',
+    };
+    await this.savePaymentLocally(offlinePayment);
+    await this.addToSyncQueue({
+      type: 'payment',
+      action: 'create',
+      data: paymentData,
+    });
+    return offlinePayment;
+  }
+
   public async addToSyncQueue(item: Omit<OfflineQueueItem, 'id' | 'timestamp' | 'retryCount' | 'status'>): Promise<void> {
     if (!db) throw new Error('Database not initialized');
     return new Promise((resolve, reject) => {
@@ -290,6 +538,55 @@ class OfflineService {
     });
   }
 
+  public async getFailedQueueItems(): Promise<OfflineQueueItem[]> {
+    if (!db) throw new Error('Database not initialized');
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores.queue], 'readonly');
+      const store = transaction.objectStore(SYNC_CONFIG.stores.queue);
+      const index = store.index('status');
+      const request = index.getAll('failed');
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Every queued item, oldest first
+   */
+  public async getQueueItems(): Promise<OfflineQueueItem[]> {
+    if (!db) throw new Error('Database not initialized');
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores.queue], 'readonly');
+      const store = transaction.objectStore(SYNC_CONFIG.stores.queue);
+      const request = store.index('timestamp').getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  public async getConflictedQueueItems(): Promise<OfflineQueueItem[]> {
+    if (!db) throw new Error('Database not initialized');
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores.queue], 'readonly');
+      const store = transaction.objectStore(SYNC_CONFIG.stores.queue);
+      const index = store.index('status');
+      const request = index.getAll('conflict');
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  public async getQueueItem(itemId: string): Promise<OfflineQueueItem | undefined> {
+    if (!db) throw new Error('Database not initialized');
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores.queue], 'readonly');
+      const store = transaction.objectStore(SYNC_CONFIG.stores.queue);
+      const request = store.get(itemId);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   public async updateQueueItemStatus(itemId: string, status: OfflineQueueItem['status'], error?: string): Promise<void> {
     if (!db) throw new Error('Database not initialized');
     return new Promise((resolve, reject) => {
@@ -301,7 +598,11 @@ class OfflineService {
         if (item) {
           item.status = status;
           if (error) item.error = error;
-          if (status === 'failed') item.retryCount++;
+          if (status === 'failed') {
+            item.retryCount++;
+            item.nextAttemptAt = nextAttemptAt(item);
+          }
+          if (status === 'completed') item.completedAt = new Date();
           const updateRequest = store.put(item);
           updateRequest.onsuccess = () => {
             this.notifyListeners();
@@ -316,6 +617,108 @@ class OfflineService {
     });
   }
 
+  private async putQueueItem(item: OfflineQueueItem): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores.queue], 'readwrite');
+      const store = transaction.objectStore(SYNC_CONFIG.stores.queue);
+      const request = store.put(item);
+      request.onsuccess = () => {
+        this.notifyListeners();
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Whether a failed item has used up its automatic retries
+   */
+  public isDeadLetter(item: OfflineQueueItem): boolean {
+    return isDeadLetter(item);
+  }
+
+  /**
+   * Put an item back in the queue with a fresh set of retries, optionally
+   * with an edited payload, and sync it right away when online
+   *
+   * @param itemId - Queue item not synced yet (conflicts are resolved instead)
+   * @param data - Corrected payload (the queued one by default)
+   * @throws Error if the corrected payload is not valid (see validateQueuePayload)
+   */
+  public async retryQueueItem(itemId: string, data?: QueuePayload): Promise<void> {
+    const item = await this.getQueueItem(itemId);
+    if (!item || item.status === 'completed' || item.status === 'conflict') {
+      throw new Error('Queue item cannot be retried');
+    }
+    const error = data && validateQueuePayload(item, data);
+    if (error) {
+      throw new Error(`Invalid payload: ${error}`);
+    }
+    await this.putQueueItem({
+      ...item,
+      data: data ?? item.data,
+      status: 'pending',
+      retryCount: 0,
+      error: undefined,
+      nextAttemptAt: undefined,
+    });
+    await this.markLocalOrder(item, 'pending');
+    if (this.isOnline) {
+      await this.syncAll();
+    }
+  }
+
+  /**
+   * Drop an item that will never sync, along with the order or payment
+   * it created offline
+   */
+  public async discardQueueItem(itemId: string): Promise<void> {
+    const item = await this.getQueueItem(itemId);
+    if (!item) return;
+    if (item.action === 'create' && item.type === 'order' && item.data.localOrderId) {
+      await this.deleteLocalOrder(item.data.localOrderId);
+    }
+    if (item.action === 'create' && item.type === 'payment' && item.data.receiptNumber) {
+      await this.deleteLocalPayment(item.data.receiptNumber);
+    }
+    await this.deleteQueueItem(itemId);
+  }
+
+  /**
+   * Flag the order an offline creation made as pending or failed to sync
+   */
+  private async markLocalOrder(item: OfflineQueueItem, syncStatus: 'pending' | 'failed'): Promise<void> {
+    if (item.type !== 'order' || item.action !== 'create' || !item.data.localOrderId) return;
+    const order = await this.getLocalOrderById(item.data.localOrderId);
+    if (order) {
+      await this.saveOrderLocally({ ...order, syncStatus });
+    }
+  }
+
+  /**
+   * Delete synced items past SYNC_CONFIG.completedRetentionDays
+   */
+  private async pruneCompletedQueueItems(): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+    const cutoff = Date.now() - SYNC_CONFIG.completedRetentionDays * 24 * 60 * 60 * 1000;
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores.queue], 'readwrite');
+      const request = transaction.objectStore(SYNC_CONFIG.stores.queue).index('status').openCursor('completed');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const item: OfflineQueueItem = cursor.value;
+        if (new Date(item.completedAt ?? item.timestamp).getTime() < cutoff) {
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   public async deleteQueueItem(itemId: string): Promise<void> {
     if (!db) throw new Error('Database not initialized');
     return new Promise((resolve, reject) => {
@@ -338,25 +741,31 @@ class OfflineService {
     this.notifyListeners();
     try {
       console.log('Starting sync process...');
-      const pendingItems = await this.getPendingQueueItems();
-      console.log(`Found ${pendingItems.length} items to sync`);
-      for (const item of pendingItems) {
-        if (item.retryCount >= SYNC_CONFIG.maxRetryAttempts) {
-          console.error(`Max retry attempts reached for item:`, item);
-          await this.updateQueueItemStatus(item.id, 'failed', 'Max retry attempts exceeded');
-          continue;
-        }
+      const now = Date.now();
+      const failedItems = await this.getFailedQueueItems();
+      const dueItems = [
+        ...await this.getPendingQueueItems(),
+        ...failedItems.filter(item => isDueForRetry(item, now)),
+      ].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+      for (const queued of dueItems) {
+        // Re-read: syncing an earlier item may have remapped the IDs this one refers to
+        const item = await this.getQueueItem(queued.id) ?? queued;
         try {
           await this.updateQueueItemStatus(item.id, 'syncing');
           await this.processSyncItem(item);
           await this.updateQueueItemStatus(item.id, 'completed');
-          await this.deleteQueueItem(item.id);
           console.log(`Successfully synced item:`, item.type, item.action);
         } catch (error) {
+          if (error instanceof SyncConflictError) {
+            await this.saveConflicts(item, error);
+            continue;
+          }
           console.error(`Error syncing item:`, error);
           await this.updateQueueItemStatus(item.id, 'failed', error instanceof Error ? error.message : 'Unknown error');
+          await this.reportDeadLetter(item.id);
         }
       }
+      await this.pruneCompletedQueueItems();
       await this.downloadServerData();
       console.log('Sync completed successfully');
     } catch (error) {
@@ -378,6 +787,9 @@ class OfflineService {
       case 'product':
         await this.syncProduct(item);
         break;
+      case 'payment':
+        await this.syncPayment(item);
+        break;
       default:
         throw new Error(`Unknown sync item type: ${item.type}`);
     }
@@ -385,11 +797,17 @@ class OfflineService {
 
   private async syncOrder(item: OfflineQueueItem): Promise<void> {
     switch (item.action) {
-      case 'create':
-        await odooService.createOrder(item.data);
+      case 'create': {
+        const { order } = await odooService.createOrder(item.data, item.idempotencyKey);
+        if (item.data.localOrderId) {
+          await this.remapLocalOrder(item.data.localOrderId, item.data.localOrderNumber, order);
+        } else {
+          await this.saveOrderLocally(order);
+        }
         break;
+      }
       case 'update':
-        await odooService.updateOrder(item.data.id, item.data);
+        await this.syncUpdate(item);
         break;
       case 'delete':
         await odooService.cancelOrder(item.data.id);
@@ -397,47 +815,260 @@ class OfflineService {
     }
   }
 
+  /**
+   * Replace an order taken offline by the order it became in Odoo: the
+   * local copy gives way to the server one (which keeps the LOCAL number as
+   * an alias), and queued changes to the local order target the server ID
+   */
+  private async remapLocalOrder(localOrderId: string, localOrderNumber: string | undefined, order: Order): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+    const synced: Order = { ...order, localOrderNumber: order.localOrderNumber ?? localOrderNumber };
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores.orders, SYNC_CONFIG.stores.queue], 'readwrite');
+      const ordersStore = transaction.objectStore(SYNC_CONFIG.stores.orders);
+      ordersStore.delete(localOrderId);
+      ordersStore.put(synced);
+      const request = transaction.objectStore(SYNC_CONFIG.stores.queue).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const item: OfflineQueueItem = cursor.value;
+        if (item.type === 'order' && item.data?.id === localOrderId) {
+          cursor.update({ ...item, data: { ...item.data, id: order.id } });
+        }
+        cursor.continue();
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    this.syncedOrderListeners.forEach(listener => listener({ localId: localOrderId, order: synced }));
+  }
+
   private async syncCustomer(item: OfflineQueueItem): Promise<void> {
     switch (item.action) {
       case 'create':
         await odooService.createCustomer(item.data);
         break;
       case 'update':
-        await odooService.updateCustomer(item.data.id, item.data);
+        await this.syncUpdate(item);
         break;
     }
   }
 
+  /**
+   * Replay an offline edit over the record as it is now in Odoo: fields
+   * that merge cleanly are written, the others raise a SyncConflictError.
+   * Edits queued without a base are written as they are.
+   */
+  private async syncUpdate(item: OfflineQueueItem): Promise<void> {
+    const type = item.type as MergeableType;
+    const { id, ...changes } = item.data;
+    if (!item.base) {
+      await this.writeUpdate(type, id, changes);
+      return;
+    }
+
+    const server = type === 'customer' ? await odooService.getCustomerById(id) : await odooService.getOrderById(id);
+    if (!server) throw new Error(`${type} ${id} no longer exists in Odoo`);
+
+    const { updates, conflicts } = mergeChanges(type, changes, item.base, server);
+    const written = Object.keys(updates).length > 0 ? await this.writeUpdate(type, id, updates) : server;
+    if (conflicts.length > 0) {
+      throw new SyncConflictError(conflicts, written.updatedAt);
+    }
+  }
+
+  private async writeUpdate(type: MergeableType, id: string, updates: Record<string, unknown>): Promise<Customer | Order> {
+    if (type === 'customer') {
+      const customer = await odooService.updateCustomer(id, updates);
+      await this.saveCustomerLocally(customer);
+      return customer;
+    }
+    const order = await odooService.updateOrder(id, updates);
+    await this.saveOrderLocally(order);
+    return order;
+  }
+
+  /**
+   * Park an edit on its conflicting fields until the user resolves them.
+   * Its base moves to Odoo's values, so the resolved edit merges again
+   * on sync and conflicts anew if the office changes them once more.
+   */
+  private async saveConflicts(item: OfflineQueueItem, conflict: SyncConflictError): Promise<void> {
+    await this.putQueueItem({
+      ...item,
+      status: 'conflict',
+      error: conflict.message,
+      data: { id: item.data.id, ...Object.fromEntries(conflict.conflicts.map(c => [c.field, c.local])) },
+      base: {
+        updatedAt: conflict.serverUpdatedAt,
+        values: Object.fromEntries(conflict.conflicts.map(c => [c.field, c.server])),
+      },
+      conflicts: conflict.conflicts,
+    });
+    useNotificationStore.getState().addNotification(
+      'warning',
+      'Sync Conflict',
+      `An offline edit to a ${item.type} was also changed in Odoo. Pick the values to keep under Settings > Sync & Offline.`,
+      '/settings'
+    );
+  }
+
+  /**
+   * Tell the user when an item has just used up its automatic retries
+   */
+  private async reportDeadLetter(itemId: string): Promise<void> {
+    const item = await this.getQueueItem(itemId);
+    if (!item || !this.isDeadLetter(item)) return;
+    await this.markLocalOrder(item, 'failed');
+    useNotificationStore.getState().addNotification(
+      'error',
+      'Sync Failed',
+      `A queued ${item.type} ${item.action} failed ${item.retryCount} times. Retry, edit or discard it under Settings > Sync & Offline.`,
+      '/settings'
+    );
+  }
+
+  /**
+   * Settle a conflicted edit: the fields resolved to the offline value go
+   * back to the queue, the others are dropped (Odoo's value stays)
+   *
+   * @param itemId - Queue item in conflict
+   * @param choices - Side kept, for every conflicting field
+   */
+  public async resolveConflict(itemId: string, choices: Record<string, ConflictChoice>): Promise<void> {
+    const item = await this.getQueueItem(itemId);
+    if (!item || item.status !== 'conflict' || !item.conflicts) {
+      throw new Error('Conflict not found');
+    }
+    if (item.conflicts.some(c => !choices[c.field])) {
+      throw new Error('Every conflicting field needs a value');
+    }
+
+    const kept = item.conflicts.filter(c => choices[c.field] === 'local');
+    if (kept.length === 0) {
+      await this.deleteQueueItem(itemId);
+      return;
+    }
+
+    await this.putQueueItem({
+      ...item,
+      status: 'pending',
+      retryCount: 0,
+      error: undefined,
+      conflicts: undefined,
+      data: { id: item.data.id, ...Object.fromEntries(kept.map(c => [c.field, c.local])) },
+    });
+    if (this.isOnline) {
+      await this.syncAll();
+    }
+  }
+
+  private async syncPayment(item: OfflineQueueItem): Promise<void> {
+    // recordPayment replaces the local copy with the posted payment
+    await odooService.recordPayment(item.data);
+  }
+
   private async syncProduct(item: OfflineQueueItem): Promise<void> {
     console.log('Product sync not implemented (read-only)');
   }
 
   private async downloadServerData(): Promise<void> {
     try {
-      const ordersResponse = await odooService.getOrders(undefined, 1, 100);
-      for (const order of ordersResponse.data) {
-        await this.saveOrderLocally(order);
-      }
-      const customersResponse = await odooService.getCustomers(undefined, 1, 100);
-      for (const customer of customersResponse.data) {
-        await this.saveCustomerLocally(customer);
-      }
-      const productsResponse = await odooService.getProducts(1, 100);
-      for (const product of productsResponse.data) {
-        await this.saveProductLocally(product);
-      }
+      await this.downloadChanges('orders');
+      await this.downloadChanges('customers');
+      await this.downloadChanges('products');
+      // getPricelists caches what it downloads
+      await odooService.getPricelists();
       console.log('Server data downloaded successfully');
     } catch (error) {
       console.error('Error downloading server data:', error);
     }
   }
 
+  /**
+   * Download the records of a model written since its high-water mark,
+   * page by page (everything on first sync), then drop the cached records
+   * deleted or archived in Odoo. Each page is stored with the mark it
+   * moves to, so an interrupted sync resumes where it stopped.
+   */
+  private async downloadChanges(model: SyncModel): Promise<void> {
+    let cursor = await this.getSyncCursor(model);
+    for (;;) {
+      const delta = await odooService.getChanges(model, cursor);
+      await this.saveChangesLocally(model, delta.records, delta.cursor);
+      cursor = delta.cursor;
+      if (!delta.hasMore) {
+        if (delta.ids) await this.pruneLocalRecords(model, delta.ids);
+        return;
+      }
+    }
+  }
+
+  private async getSyncCursor(model: SyncModel): Promise<SyncCursor | null> {
+    if (!db) throw new Error('Database not initialized');
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores.syncState], 'readonly');
+      const store = transaction.objectStore(SYNC_CONFIG.stores.syncState);
+      const request = store.get(model);
+      request.onsuccess = () => resolve(request.result?.cursor ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async saveChangesLocally<M extends SyncModel>(
+    model: M,
+    records: SyncRecords[M][],
+    cursor: SyncCursor | null
+  ): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores[model], SYNC_CONFIG.stores.syncState], 'readwrite');
+      const store = transaction.objectStore(SYNC_CONFIG.stores[model]);
+      records.forEach(record => store.put(record));
+      transaction.objectStore(SYNC_CONFIG.stores.syncState).put({ model, cursor });
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Delete cached records Odoo no longer returns, keeping those created
+   * or changed offline that are still waiting to sync
+   */
+  private async pruneLocalRecords(model: SyncModel, ids: string[]): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+    const serverIds = new Set(ids);
+    return new Promise((resolve, reject) => {
+      const transaction = db!.transaction([SYNC_CONFIG.stores[model]], 'readwrite');
+      const request = transaction.objectStore(SYNC_CONFIG.stores[model]).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const record = cursor.value as SyncRecords[SyncModel];
+        const pending = 'syncStatus' in record && record.syncStatus && record.syncStatus !== 'synced';
+        if (!serverIds.has(record.id) && !pending) {
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   public async getSyncStatus(): Promise<SyncStatus> {
     const pendingItems = await this.getPendingQueueItems();
+    const failedItems = await this.getFailedQueueItems();
+    const deadLetters = failedItems.filter(item => this.isDeadLetter(item)).length;
+    const conflicts = await this.getConflictedQueueItems();
     return {
       isOnline: this.isOnline,
       lastSyncTime: null,
-      pendingItems: pendingItems.length,
+      // Failed items still being retried count as pending
+      pendingItems: pendingItems.length + failedItems.length - deadLetters,
+      failedItems: deadLetters,
+      conflicts: conflicts.length,
       isSyncing: this.syncInProgress,
     };
   }
@@ -454,6 +1085,18 @@ class OfflineService {
     };
   }
 
+  /**
+   * Listen to orders taken offline reaching Odoo
+   *
+   * @returns Unsubscribe function
+   */
+  public subscribeToSyncedOrders(listener: (synced: SyncedOrder) => void): () => void {
+    this.syncedOrderListeners.add(listener);
+    return () => {
+      this.syncedOrderListeners.delete(listener);
+    };
+  }
+
   private notifyListeners(): void {
     this.getSyncStatus().then(status => {
       this.listeners.forEach(listener => listener(status));
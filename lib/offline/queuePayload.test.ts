@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { validateQueuePayload } from '@/lib/offline/queuePayload';
+import { OfflineQueueItem } from '@/types';
+
+const orderCreation: Pick<OfflineQueueItem, 'type' | 'action' | 'data'> = {
+  type: 'order',
+  action: 'create',
+  data: {
+    customerId: '7',
+    items: [{ productId: '5', productName: 'Beef fillet', productImage: '🥩', quantity: 2, unitPrice: 50 }],
+    localOrderId: 'local-1',
+    localOrderNumber: 'LOCAL-20250314-1234',
+  },
+};
+
+const paymentCreation: Pick<OfflineQueueItem, 'type' | 'action' | 'data'> = {
+  type: 'payment',
+  action: 'create',
+  data: {
+    receiptNumber: 'RCP-20250314-0001',
+    customerId: '7',
+    customerName: 'Le Méridien',
+    method: 'cash',
+    amount: 100,
+    allocations: [{ invoiceId: '12', invoiceName: 'INV/2025/00012', amount: 100 }],
+  },
+};
+
+describe('validateQueuePayload', () => {
+  it('accepts the queued payload with corrected values', () => {
+    expect(validateQueuePayload(orderCreation, { ...orderCreation.data, customerId: '8' })).toBeNull();
+    expect(validateQueuePayload(paymentCreation, { ...paymentCreation.data, amount: 120 })).toBeNull();
+  });
+
+  it('rejects anything but an object', () => {
+    expect(validateQueuePayload(orderCreation, [])).toBe('The payload must be a JSON object');
+    expect(validateQueuePayload(orderCreation, null)).toBe('The payload must be a JSON object');
+  });
+
+  it('keeps the fields local records are matched by', () => {
+    expect(validateQueuePayload(orderCreation, { ...orderCreation.data, localOrderId: 'local-2' }))
+      .toBe('localOrderId cannot be changed');
+    expect(validateQueuePayload(paymentCreation, { ...paymentCreation.data, receiptNumber: undefined }))
+      .toBe('receiptNumber cannot be changed');
+    expect(validateQueuePayload({ type: 'customer', action: 'update', data: { id: '7', phone: '' } }, { phone: '+230 5800 0000' }))
+      .toBe('id cannot be changed');
+  });
+
+  it('requires a customer and valid lines on orders', () => {
+    expect(validateQueuePayload(orderCreation, { ...orderCreation.data, customerId: '' })).toBe('customerId is required');
+    expect(validateQueuePayload(orderCreation, { ...orderCreation.data, items: [] }))
+      .toBe('items must list at least one line');
+    expect(validateQueuePayload(orderCreation, {
+      ...orderCreation.data,
+      items: [{ productId: '5', quantity: '2', unitPrice: 50 }],
+    })).toBe('items[0].quantity must be greater than zero');
+  });
+
+  it('checks payments like the payment form does', () => {
+    expect(validateQueuePayload(paymentCreation, { ...paymentCreation.data, method: 'card' })).toBe('Unknown payment method');
+    expect(validateQueuePayload(paymentCreation, { ...paymentCreation.data, allocations: undefined }))
+      .toBe('allocations must be a list');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Queue Payloads
+ *
+ * Payload queued for each kind of offline change, and the checks a payload
+ * edited by hand must pass before it is queued again: the fields the sync
+ * needs are present and the fields tying it to local records are unchanged.
+ *
+ * @module lib/offline/queuePayload
+ */
+
+import { validatePayment } from '@/lib/payments/allocation';
+import { CreateOrderData, CreatePaymentData, Customer, OfflineQueueItem } from '@/types';
+
+/**
+ * Order taken offline, with the local order it replaces once synced
+ */
+export type QueuedOrderCreation = CreateOrderData & { localOrderId?: string };
+
+/**
+ * Payment collected offline
+ */
+export type QueuedPaymentCreation = CreatePaymentData & { receiptNumber: string };
+
+/**
+ * Customer created offline
+ */
+export type QueuedCustomerCreation = Partial<Customer> & { name: string };
+
+/**
+ * Edited fields of a record (updates), or the record to cancel (deletes)
+ */
+export type QueuedRecordChange = { id: string } & Record<string, unknown>;
+
+export type QueuePayload = QueuedOrderCreation | QueuedPaymentCreation | QueuedCustomerCreation | QueuedRecordChange;
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function validateOrderCreation(data: Record<string, unknown>): string | null {
+  if (!isNonEmptyString(data.customerId)) return 'customerId is required';
+  if (!Array.isArray(data.items) || data.items.length === 0) return 'items must list at least one line';
+  for (const [index, line] of data.items.entries()) {
+    if (!isNonEmptyString(line?.productId)) return `items[${index}].productId is required`;
+    if (typeof line.quantity !== 'number' || !(line.quantity > 0)) {
+      return `items[${index}].quantity must be greater than zero`;
+    }
+    if (typeof line.unitPrice !== 'number' || !(line.unitPrice >= 0)) {
+      return `items[${index}].unitPrice must be a non-negative number`;
+    }
+  }
+  return null;
+}
+
+function validatePaymentCreation(data: Record<string, unknown>): string | null {
+  if (!isNonEmptyString(data.customerId)) return 'customerId is required';
+  if (!isNonEmptyString(data.customerName)) return 'customerName is required';
+  if (!Array.isArray(data.allocations)) return 'allocations must be a list';
+  return validatePayment(data as unknown as CreatePaymentData);
+}
+
+/**
+ * Check an edited payload before its item is queued again
+ *
+ * @param item - Queued item, with the payload it was queued with
+ * @param data - Edited payload
+ * @returns Error message, or null if the payload can be queued
+ */
+export function validateQueuePayload(
+  item: Pick<OfflineQueueItem, 'type' | 'action' | 'data'>,
+  data: unknown
+): string | null {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return 'The payload must be a JSON object';
+  }
+  const values = data as Record<string, unknown>;
+
+  // Fields the sync matches local records by
+  const keys = item.action === 'create'
+    ? (item.type === 'order' ? ['localOrderId', 'localOrderNumber'] : item.type === 'payment' ? ['receiptNumber'] : [])
+    : ['id'];
+  const changedKey = keys.find((key) => values[key] !== item.data?.[key]);
+  if (changedKey) return `${changedKey} cannot be changed`;
+
+  if (item.action !== 'create') {
+    return isNonEmptyString(values.id) ? null : 'id is required';
+  }
+  switch (item.type) {
+    case 'order':
+      return validateOrderCreation(values);
+    case 'payment':
+      return validatePaymentCreation(values);
+    case 'customer':
+      return isNonEmptyString(values.name) ? null : 'name is required';
+    default:
+      return `${item.type} changes cannot be edited`;
+  }
+}
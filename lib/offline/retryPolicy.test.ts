@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { isDeadLetter, isDueForRetry, nextAttemptAt, retryBackoff } from '@/lib/offline/retryPolicy';
+import { SYNC_CONFIG } from '@/lib/config';
+
+const now = Date.parse('2025-03-14T08:00:00.000Z');
+
+describe('retryBackoff', () => {
+  it('doubles the delay after each failure', () => {
+    expect(retryBackoff(1)).toBe(SYNC_CONFIG.retryDelay);
+    expect(retryBackoff(2)).toBe(SYNC_CONFIG.retryDelay * 2);
+    expect(retryBackoff(3)).toBe(SYNC_CONFIG.retryDelay * 4);
+  });
+
+  it('is capped at the maximum delay', () => {
+    expect(retryBackoff(50)).toBe(SYNC_CONFIG.maxRetryDelay);
+  });
+});
+
+describe('isDeadLetter', () => {
+  it('is true once a failed item is out of attempts', () => {
+    expect(isDeadLetter({ status: 'failed', retryCount: SYNC_CONFIG.maxRetryAttempts - 1 })).toBe(false);
+    expect(isDeadLetter({ status: 'failed', retryCount: SYNC_CONFIG.maxRetryAttempts })).toBe(true);
+    expect(isDeadLetter({ status: 'pending', retryCount: SYNC_CONFIG.maxRetryAttempts })).toBe(false);
+  });
+});
+
+describe('nextAttemptAt', () => {
+  it('schedules the next attempt after the backoff', () => {
+    expect(nextAttemptAt({ status: 'failed', retryCount: 2 }, now)).toEqual(new Date(now + SYNC_CONFIG.retryDelay * 2));
+  });
+
+  it('schedules nothing for a dead letter', () => {
+    expect(nextAttemptAt({ status: 'failed', retryCount: SYNC_CONFIG.maxRetryAttempts }, now)).toBeUndefined();
+  });
+});
+
+describe('isDueForRetry', () => {
+  it('waits for the scheduled attempt', () => {
+    const item = { status: 'failed' as const, retryCount: 1, nextAttemptAt: new Date(now + 1000) };
+    expect(isDueForRetry(item, now)).toBe(false);
+    expect(isDueForRetry(item, now + 1000)).toBe(true);
+  });
+
+  it('retries failed items without a schedule right away', () => {
+    expect(isDueForRetry({ status: 'failed', retryCount: 1 }, now)).toBe(true);
+  });
+
+  it('never retries dead letters or items that have not failed', () => {
+    expect(isDueForRetry({ status: 'failed', retryCount: SYNC_CONFIG.maxRetryAttempts }, now)).toBe(false);
+    expect(isDueForRetry({ status: 'pending', retryCount: 0 }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Sync Retry Policy
+ *
+ * When a queued change that failed to sync is tried again:
+ * - the first retry waits SYNC_CONFIG.retryDelay, each later one twice as
+ *   long as the previous, up to SYNC_CONFIG.maxRetryDelay
+ * - after SYNC_CONFIG.maxRetryAttempts failures the change is a dead
+ *   letter: it is no longer retried until the user retries, edits or
+ *   discards it
+ *
+ * Pure functions, shared by the offline service and the sync queue inspector.
+ *
+ * @module lib/offline/retryPolicy
+ */
+
+import { SYNC_CONFIG } from '@/lib/config';
+import { OfflineQueueItem } from '@/types';
+
+/**
+ * Delay before the next automatic retry, doubled after each failure
+ *
+ * @param retryCount - Failures so far (1 after the first)
+ * @returns Delay in milliseconds
+ */
+export function retryBackoff(retryCount: number): number {
+  return Math.min(SYNC_CONFIG.retryDelay * 2 ** Math.max(retryCount - 1, 0), SYNC_CONFIG.maxRetryDelay);
+}
+
+/**
+ * Whether a failed item has used up its automatic retries
+ */
+export function isDeadLetter(item: Pick<OfflineQueueItem, 'status' | 'retryCount'>): boolean {
+  return item.status === 'failed' && item.retryCount >= SYNC_CONFIG.maxRetryAttempts;
+}
+
+/**
+ * When a failed item is next retried automatically
+ *
+ * @param item - Item that has just failed (retry count already increased)
+ * @param now - Time of the failure
+ * @returns Time of the next attempt, or undefined for a dead letter
+ */
+export function nextAttemptAt(item: Pick<OfflineQueueItem, 'status' | 'retryCount'>, now: number = Date.now()): Date | undefined {
+  return isDeadLetter(item) ? undefined : new Date(now + retryBackoff(item.retryCount));
+}
+
+/**
+ * Whether a failed item is due for an automatic retry
+ *
+ * @param item - Queue item
+ * @param now - Current time
+ */
+export function isDueForRetry(
+  item: Pick<OfflineQueueItem, 'status' | 'retryCount' | 'nextAttemptAt'>,
+  now: number = Date.now()
+): boolean {
+  return item.status === 'failed' && !isDeadLetter(item) && new Date(item.nextAttemptAt ?? 0).getTime() <= now;
+}
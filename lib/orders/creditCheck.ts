@@ -0,0 +1,103 @@
+/**
+ * Customer Credit Check
+ *
+ * Decides whether a new order may be placed for a customer given their
+ * credit limit, what they already owe and how late their oldest unpaid
+ * invoice is. Run by the order form before submitting and again by the
+ * API route that creates the order, against fresh receivables.
+ *
+ * Blocked orders go through only with an admin override, which records
+ * who approved it and why.
+ *
+ * @module lib/orders/creditCheck
+ */
+
+import { CREDIT_CONFIG } from '@/lib/config';
+import { VAT_RATE } from '@/lib/pricing/orderTotals';
+import { formatCurrency } from '@/lib/utils';
+import { CreateOrderData, CreditCheck, Customer, UserRole } from '@/types';
+
+/**
+ * Roles allowed to approve an order the credit check blocked
+ */
+export const CREDIT_OVERRIDE_ROLES: UserRole[] = ['admin'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Total of a new order, VAT included
+ */
+export function orderDataTotal(items: CreateOrderData['items']): number {
+  const subtotal = items.reduce(
+    (sum, item) => sum + item.quantity * item.unitPrice * (1 - (item.discount || 0) / 100),
+    0
+  );
+  return round(subtotal * (1 + VAT_RATE));
+}
+
+/**
+ * Number of whole days an invoice due on a date is late
+ */
+export function daysOverdue(dueDate: string, today: Date = new Date()): number {
+  return Math.max(0, Math.floor((today.getTime() - new Date(dueDate).getTime()) / DAY_MS));
+}
+
+/**
+ * Check a customer's credit before placing an order
+ *
+ * @param customer - Customer with their receivables loaded
+ * @param orderTotal - Total of the new order, VAT included
+ * @param today - Date overdue days are counted to
+ * @returns Check level and the reasons behind it
+ */
+export function checkCredit(
+  customer: Pick<Customer, 'status' | 'balance' | 'creditLimit' | 'overdueAmount' | 'oldestOverdueDate'>,
+  orderTotal: number,
+  today: Date = new Date()
+): CreditCheck {
+  const block: string[] = [];
+  const warn: string[] = [];
+  const exposure = round((customer.balance ?? 0) + orderTotal);
+
+  if (customer.status === 'blocked') {
+    block.push('The customer is blocked');
+  }
+
+  let available: number | undefined;
+  if (customer.creditLimit) {
+    available = round(customer.creditLimit - exposure);
+    if (available < 0) {
+      block.push(`The order exceeds the credit limit of ${formatCurrency(customer.creditLimit)} by ${formatCurrency(-available)}`);
+    } else if (exposure >= customer.creditLimit * CREDIT_CONFIG.warnRatio) {
+      warn.push(`Only ${formatCurrency(available)} of credit will be left after this order`);
+    }
+  }
+
+  if (customer.oldestOverdueDate) {
+    const days = daysOverdue(customer.oldestOverdueDate, today);
+    const overdue = `${formatCurrency(customer.overdueAmount ?? 0)} is overdue, oldest by ${days} days`;
+    if (days >= CREDIT_CONFIG.overdueBlockDays) {
+      block.push(overdue);
+    } else {
+      warn.push(overdue);
+    }
+  }
+
+  return {
+    level: block.length > 0 ? 'block' : warn.length > 0 ? 'warn' : 'ok',
+    reasons: [...block, ...warn],
+    exposure,
+    available,
+  };
+}
+
+/**
+ * Whether a role may approve an order the credit check blocked
+ */
+export function canOverrideCredit(role: UserRole): boolean {
+  return CREDIT_OVERRIDE_ROLES.includes(role);
+}
@@ -0,0 +1,58 @@
+/**
+ * Order Deliveries
+ *
+ * Helpers over an order's deliveries (stock.picking): what has been shipped
+ * per order line, what is still to ship, and open backorders.
+ *
+ * @module lib/orders/deliveries
+ */
+
+import { Order, OrderDelivery } from '@/types';
+
+/**
+ * Whether a delivery still has to be shipped
+ */
+export function isOpenDelivery(delivery: OrderDelivery): boolean {
+  return delivery.state !== 'done' && delivery.state !== 'cancelled';
+}
+
+/**
+ * Whether an order has a backorder waiting to be shipped
+ */
+export function hasOpenBackorder(order: Pick<Order, 'deliveries'>): boolean {
+  return (order.deliveries ?? []).some((delivery) => delivery.backorderOf && isOpenDelivery(delivery));
+}
+
+/**
+ * Quantity shipped so far per order line, over all validated deliveries
+ *
+ * @param order - Order with its deliveries
+ * @returns Shipped quantity per order line ID (lines not shipped yet are omitted)
+ */
+export function shippedQuantities(order: Pick<Order, 'deliveries'>): Record<string, number> {
+  const shipped: Record<string, number> = {};
+  for (const delivery of order.deliveries ?? []) {
+    if (delivery.state !== 'done') continue;
+    for (const line of delivery.lines) {
+      shipped[line.orderLineId] = (shipped[line.orderLineId] ?? 0) + (line.doneQuantity ?? 0);
+    }
+  }
+  return shipped;
+}
+
+/**
+ * Quantity of each order line still to ship (never negative: catch-weight
+ * deliveries may exceed the ordered quantity)
+ *
+ * @param order - Order with its lines and deliveries
+ * @returns Remaining quantity per order line ID
+ */
+export function remainingQuantities(order: Pick<Order, 'items' | 'deliveries'>): Record<string, number> {
+  const shipped = shippedQuantities(order);
+  return Object.fromEntries(
+    order.items.map((item) => [
+      item.id,
+      Math.max(0, Math.round((item.quantity - (shipped[item.id] ?? 0)) * 1000) / 1000),
+    ])
+  );
+}
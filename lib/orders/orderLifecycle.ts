@@ -0,0 +1,176 @@
+/**
+ * Order Lifecycle
+ *
+ * State machine of a sale order as seen by the portal:
+ *
+ *   quotation → confirmed → partially_delivered → delivered → invoiced → paid
+ *        ↘          ↘
+ *         cancelled ← (quotation, confirmed)    cancelled → quotation
+ *
+ * Statuses are derived from Odoo (sale.order state, delivery status of its
+ * pickings, invoice and payment state; see lib/odoo/mappers). The portal
+ * moves an order along only through the actions below, each restricted to
+ * the statuses it starts from and the roles allowed to perform it.
+ * `paid` is reached by registering payments, never through an action.
+ *
+ * Shared by the orders page (which actions to offer) and the API routes
+ * (which actions to accept).
+ *
+ * @module lib/orders/orderLifecycle
+ */
+
+import { Order, OrderAction, OrderStatus, UserRole } from '@/types';
+
+/**
+ * Definition of an order action
+ */
+export interface OrderTransition {
+  label: string;
+  from: OrderStatus[];
+  to: OrderStatus;
+  roles: UserRole[];
+}
+
+/**
+ * Allowed transitions, in the order they are offered in the UI
+ */
+export const ORDER_TRANSITIONS: Record<OrderAction, OrderTransition> = {
+  confirm: {
+    label: 'Confirm Order',
+    from: ['quotation'],
+    to: 'confirmed',
+    roles: ['admin', 'salesman'],
+  },
+  // Ends in partially_delivered when the rest is backordered
+  deliver: {
+    label: 'Record Weights',
+    from: ['confirmed', 'partially_delivered'],
+    to: 'delivered',
+    roles: ['admin', 'salesman'],
+  },
+  invoice: {
+    label: 'Create Invoice',
+    from: ['delivered'],
+    to: 'invoiced',
+    roles: ['admin'],
+  },
+  cancel: {
+    label: 'Cancel Order',
+    from: ['quotation', 'confirmed'],
+    to: 'cancelled',
+    roles: ['admin', 'salesman'],
+  },
+  resetToQuotation: {
+    label: 'Reset to Quotation',
+    from: ['cancelled'],
+    to: 'quotation',
+    roles: ['admin'],
+  },
+};
+
+/**
+ * Display labels of order statuses
+ */
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  quotation: 'Quotation',
+  confirmed: 'Confirmed',
+  partially_delivered: 'Partially Delivered',
+  delivered: 'Delivered',
+  invoiced: 'Invoiced',
+  paid: 'Paid',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Error raised when an action is not allowed for an order, either because
+ * of the order's status or because of the user's role
+ */
+export class OrderTransitionError extends Error {
+  public readonly reason: 'status' | 'role';
+
+  constructor(message: string, reason: 'status' | 'role') {
+    super(message);
+    this.name = 'OrderTransitionError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Check whether a role may perform an action on an order in a given status
+ *
+ * @param status - Current order status
+ * @param action - Requested action
+ * @param role - Role of the user
+ */
+export function canTransition(status: OrderStatus, action: OrderAction, role: UserRole): boolean {
+  const transition = ORDER_TRANSITIONS[action];
+  return transition.from.includes(status) && transition.roles.includes(role);
+}
+
+/**
+ * List the actions a role may perform on an order in a given status
+ *
+ * @param status - Current order status
+ * @param role - Role of the user
+ * @returns Allowed actions
+ *
+ * @example
+ * getAllowedActions('quotation', 'salesman') // ['confirm', 'cancel']
+ */
+export function getAllowedActions(status: OrderStatus, role: UserRole): OrderAction[] {
+  return (Object.keys(ORDER_TRANSITIONS) as OrderAction[]).filter((action) =>
+    canTransition(status, action, role)
+  );
+}
+
+/**
+ * Order fields the portal may edit, only while the order is a quotation;
+ * lines, customer and date are set when the order is created
+ */
+export const EDITABLE_ORDER_FIELDS = ['deliveryAddress', 'notes'] as const;
+
+export type EditableOrderField = typeof EDITABLE_ORDER_FIELDS[number];
+
+/**
+ * Ensure an order can still be edited
+ *
+ * @param status - Current order status
+ * @throws OrderTransitionError unless the order is a quotation
+ */
+export function assertEditable(status: OrderStatus): void {
+  if (status !== 'quotation') {
+    throw new OrderTransitionError(`Cannot edit order: order is ${ORDER_STATUS_LABELS[status].toLowerCase()}`, 'status');
+  }
+}
+
+/**
+ * Whether an order was taken offline and has not reached Odoo yet
+ * (no action can be performed on it until it has)
+ */
+export function isPendingSync(order: Pick<Order, 'syncStatus'>): boolean {
+  return order.syncStatus === 'pending' || order.syncStatus === 'failed';
+}
+
+/**
+ * Ensure an action is allowed
+ *
+ * @param status - Current order status
+ * @param action - Requested action
+ * @param role - Role of the user
+ * @throws OrderTransitionError if the action is not allowed
+ */
+export function assertTransition(status: OrderStatus, action: OrderAction, role: UserRole): void {
+  const transition = ORDER_TRANSITIONS[action];
+  if (!transition.from.includes(status)) {
+    throw new OrderTransitionError(
+      `Cannot ${transition.label.toLowerCase()}: order is ${ORDER_STATUS_LABELS[status].toLowerCase()}`,
+      'status'
+    );
+  }
+  if (!transition.roles.includes(role)) {
+    throw new OrderTransitionError(
+      `Only ${transition.roles.join(' or ')} users can ${transition.label.toLowerCase()}`,
+      'role'
+    );
+  }
+}
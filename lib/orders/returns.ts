@@ -0,0 +1,140 @@
+/**
+ * Order Returns
+ *
+ * Helpers over the goods customers send back (spoiled or wrongly cut
+ * meat): which orders can take a return, how much of each line can still
+ * be returned, and what the credit note amounts to.
+ *
+ * A return is credited with a credit note against the order's invoice,
+ * so only invoiced orders can take one.
+ *
+ * @module lib/orders/returns
+ */
+
+import { CreateReturnData, Order, OrderReturn, ReturnLine, ReturnReason } from '@/types';
+import { VAT_RATE, billableQuantity } from '@/lib/pricing/orderTotals';
+
+/**
+ * Display labels of return reasons
+ */
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  spoiled: 'Spoiled / Not Fresh',
+  wrong_cut: 'Wrong Cut',
+  wrong_product: 'Wrong Product',
+  damaged: 'Damaged Packaging',
+  other: 'Other',
+};
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Whether goods of an order can be returned (its invoice is posted)
+ */
+export function canReturn(order: Pick<Order, 'invoice'>): boolean {
+  return order.invoice?.state === 'posted';
+}
+
+/**
+ * Quantity returned so far per order line, over all credit notes
+ *
+ * @param order - Order with its returns
+ * @returns Returned quantity per order line ID (lines never returned are omitted)
+ */
+export function returnedQuantities(order: Pick<Order, 'returns'>): Record<string, number> {
+  const returned: Record<string, number> = {};
+  for (const orderReturn of order.returns ?? []) {
+    if (orderReturn.state === 'cancel') continue;
+    for (const line of orderReturn.lines) {
+      returned[line.orderLineId] = (returned[line.orderLineId] ?? 0) + line.quantity;
+    }
+  }
+  return returned;
+}
+
+/**
+ * Quantity of each order line that can still be returned: what was billed
+ * (the delivered weight once weighed) less what was already returned
+ *
+ * @param order - Order with its lines and returns
+ * @returns Returnable quantity per order line ID
+ */
+export function returnableQuantities(order: Pick<Order, 'items' | 'returns'>): Record<string, number> {
+  const returned = returnedQuantities(order);
+  return Object.fromEntries(
+    order.items.map((item) => [
+      item.id,
+      Math.max(0, Math.round((billableQuantity(item) - (returned[item.id] ?? 0)) * 1000) / 1000),
+    ])
+  );
+}
+
+/**
+ * Total credited to the customer for an order's returns, VAT included
+ */
+export function creditedAmount(order: Pick<Order, 'returns'>): number {
+  return round(
+    (order.returns ?? [])
+      .filter((orderReturn) => orderReturn.state !== 'cancel')
+      .reduce((sum, orderReturn) => sum + orderReturn.amountTotal, 0)
+  );
+}
+
+/**
+ * Price returned quantities at the order line's price and discount
+ *
+ * @param order - Order the goods come from
+ * @param lines - Returned quantity per order line (zero quantities are skipped)
+ * @returns Return lines
+ */
+export function priceReturnLines(order: Pick<Order, 'items'>, lines: CreateReturnData['lines']): ReturnLine[] {
+  return lines
+    .filter((line) => line.quantity > 0)
+    .flatMap((line) => {
+      const item = order.items.find((orderItem) => orderItem.id === line.orderLineId);
+      if (!item) return [];
+      return [{
+        orderLineId: item.id,
+        productId: item.productId,
+        productName: item.productName,
+        quantity: line.quantity,
+        unitPrice: item.unitPrice,
+        discount: item.discount,
+        subtotal: round(line.quantity * item.unitPrice * (1 - (item.discount || 0) / 100)),
+      }];
+    });
+}
+
+/**
+ * Amount credited for return lines, VAT included
+ *
+ * @param lines - Priced return lines
+ * @returns Subtotal, VAT and total of the credit note
+ */
+export function returnTotals(lines: ReturnLine[]): { subtotal: number; tax: number; total: number } {
+  const subtotal = round(lines.reduce((sum, line) => sum + line.subtotal, 0));
+  const tax = round(subtotal * VAT_RATE);
+  return { subtotal, tax, total: round(subtotal + tax) };
+}
+
+/**
+ * Total credited per return reason over a set of orders
+ *
+ * @param orders - Orders with their returns
+ * @returns Number of returns and amount credited per reason
+ */
+export function summariseReturns(
+  orders: Pick<Order, 'returns'>[]
+): Record<ReturnReason, { count: number; amount: number }> {
+  const summary = Object.fromEntries(
+    (Object.keys(RETURN_REASON_LABELS) as ReturnReason[]).map((reason) => [reason, { count: 0, amount: 0 }])
+  ) as Record<ReturnReason, { count: number; amount: number }>;
+
+  for (const orderReturn of orders.flatMap((order): OrderReturn[] => order.returns ?? [])) {
+    if (orderReturn.state === 'cancel') continue;
+    summary[orderReturn.reason].count += 1;
+    summary[orderReturn.reason].amount = round(summary[orderReturn.reason].amount + orderReturn.amountTotal);
+  }
+  return summary;
+}
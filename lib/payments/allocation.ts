@@ -0,0 +1,103 @@
+/**
+ * Payment Allocation
+ *
+ * Rules for payments collected in the field: accepted methods, receipt
+ * numbering and how a payment is spread over the customer's open invoices.
+ * Shared by the payment form and the API route that posts payments.
+ *
+ * @module lib/payments/allocation
+ */
+
+import { CreatePaymentData, OpenInvoice, PaymentAllocation, PaymentMethod } from '@/types';
+
+/**
+ * Display labels of payment methods
+ */
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  cheque: 'Cheque',
+  mcb_juice: 'MCB Juice',
+};
+
+/**
+ * Label of the reference each method requires (cash needs none)
+ */
+export const PAYMENT_REFERENCE_LABELS: Record<PaymentMethod, string | null> = {
+  cash: null,
+  cheque: 'Cheque Number',
+  mcb_juice: 'Juice Transaction ID',
+};
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Issue a receipt number for a payment collected now
+ *
+ * @example
+ * generateReceiptNumber() // 'RCPT-20261019-482913'
+ */
+export function generateReceiptNumber(date: Date = new Date()): string {
+  const day = date.toISOString().split('T')[0].replace(/-/g, '');
+  return `RCPT-${day}-${String(date.getTime()).slice(-6)}`;
+}
+
+/**
+ * Total allocated to invoices
+ */
+export function allocatedAmount(allocations: Pick<PaymentAllocation, 'amount'>[]): number {
+  return round(allocations.reduce((sum, allocation) => sum + allocation.amount, 0));
+}
+
+/**
+ * Spread an amount over open invoices, oldest first
+ *
+ * @param amount - Amount collected
+ * @param invoices - Customer's open invoices
+ * @returns Allocations (invoices left unpaid are omitted)
+ */
+export function autoAllocate(amount: number, invoices: OpenInvoice[]): PaymentAllocation[] {
+  const allocations: PaymentAllocation[] = [];
+  let left = round(amount);
+
+  const oldestFirst = [...invoices].sort(
+    (a, b) => new Date(a.dueDate || a.date).getTime() - new Date(b.dueDate || b.date).getTime()
+  );
+  for (const invoice of oldestFirst) {
+    if (left <= 0) break;
+    const allocation = round(Math.min(left, invoice.amountResidual));
+    allocations.push({ invoiceId: invoice.id, invoiceName: invoice.name, amount: allocation });
+    left = round(left - allocation);
+  }
+  return allocations;
+}
+
+/**
+ * Check a payment before it is recorded
+ *
+ * @param data - Payment form data
+ * @param invoices - Customer's open invoices, to check allocations against what is due
+ * @returns Error message, or null if the payment is valid
+ */
+export function validatePayment(data: CreatePaymentData, invoices?: OpenInvoice[]): string | null {
+  if (!(data.method in PAYMENT_METHOD_LABELS)) return 'Unknown payment method';
+  if (typeof data.amount !== 'number' || !(data.amount > 0)) return 'The amount must be greater than zero';
+  if (PAYMENT_REFERENCE_LABELS[data.method] && !data.reference?.trim()) {
+    return `${PAYMENT_REFERENCE_LABELS[data.method]} is required`;
+  }
+  if (data.allocations.some((allocation) => !(allocation.amount > 0))) {
+    return 'Allocated amounts must be greater than zero';
+  }
+  if (allocatedAmount(data.allocations) > round(data.amount)) {
+    return 'Allocations exceed the amount received';
+  }
+  if (invoices) {
+    const excess = data.allocations.find((allocation) => {
+      const invoice = invoices.find((candidate) => candidate.id === allocation.invoiceId);
+      return !invoice || allocation.amount > invoice.amountResidual;
+    });
+    if (excess) return `${excess.invoiceName} is not open or is allocated more than is due`;
+  }
+  return null;
+}
@@ -0,0 +1,59 @@
+/**
+ * PDF Company Identity
+ *
+ * Identity of the company a document is issued by: the active company, or
+ * the seller configured for MRA e-invoicing until the user's companies are
+ * known.
+ *
+ * @module lib/pdf/companyIdentity
+ */
+
+import jsPDF from 'jspdf';
+import { MRA_CONFIG } from '@/lib/config';
+import { useCompanyStore } from '@/lib/stores/companyStore';
+import { Company } from '@/types';
+
+/**
+ * Identity of the active company
+ */
+export function companyIdentity(): Omit<Company, 'id'> {
+  const company = useCompanyStore.getState().getActiveCompany();
+  if (company) return company;
+
+  return {
+    name: MRA_CONFIG.seller.name,
+    address: MRA_CONFIG.seller.businessAddr,
+    vat: MRA_CONFIG.seller.tan || undefined,
+    registry: MRA_CONFIG.seller.brn || undefined,
+  };
+}
+
+/**
+ * Draw a company's name, address, registration numbers and contact
+ * details, centred below a document title
+ *
+ * @param doc - PDF document
+ * @param yPos - Position of the first line
+ * @param company - Company identity
+ * @returns Position of the last line drawn
+ */
+export function drawCompanyIdentity(doc: jsPDF, yPos: number, company: Omit<Company, 'id'>): number {
+  const grayColor = '#6B7280';
+  const details = [
+    company.address,
+    company.registry || company.vat ? `BRN: ${company.registry || '-'}   VAT: ${company.vat || '-'}` : undefined,
+    [company.phone, company.email].filter(Boolean).join('   ') || undefined,
+  ].filter((line): line is string => !!line);
+
+  doc.setFontSize(10);
+  doc.setTextColor(grayColor);
+  doc.text(company.name, 105, yPos, { align: 'center' });
+
+  doc.setFontSize(9);
+  details.forEach((line) => {
+    yPos += 5;
+    doc.text(line, 105, yPos, { align: 'center' });
+  });
+
+  return yPos;
+}
@@ -0,0 +1,191 @@
+/**
+ * Customer Statement PDF Generator
+ *
+ * Generates a customer's statement of account: every invoice, credit
+ * note and payment of the period with the running balance, followed by
+ * the aging of what is still unpaid.
+ *
+ * @module lib/pdf/customerStatement
+ */
+
+import jsPDF from 'jspdf';
+import { AgingBucket, CustomerStatement } from '@/types';
+import { companyIdentity, drawCompanyIdentity } from '@/lib/pdf/companyIdentity';
+import { AGING_BUCKET_LABELS, STATEMENT_ENTRY_LABELS } from '@/lib/customers/statement';
+import { formatCurrency, formatDate, downloadBlob } from '@/lib/utils';
+
+/**
+ * Generate Customer Statement PDF
+ *
+ * @param statement - Statement of account
+ * @returns PDF blob
+ */
+export async function generateCustomerStatementPDF(statement: CustomerStatement): Promise<Blob> {
+  const doc = new jsPDF();
+  const company = companyIdentity();
+
+  // Colors
+  const primaryColor = '#4F46E5';
+  const grayColor = '#6B7280';
+  const dangerColor = '#DC2626';
+
+  let yPos = 20;
+
+  // Header
+  doc.setFontSize(22);
+  doc.setTextColor(primaryColor);
+  doc.text('STATEMENT OF ACCOUNT', 105, yPos, { align: 'center' });
+
+  yPos += 8;
+  yPos = drawCompanyIdentity(doc, yPos, company);
+
+  yPos += 15;
+
+  // Statement Information
+  const details: [string, string][] = [
+    ['Customer:', statement.customerName],
+    ['Period:', `${formatDate(statement.dateFrom)} - ${formatDate(statement.dateTo)}`],
+    ['Issued:', formatDate(statement.generatedAt)],
+  ];
+
+  doc.setFontSize(10);
+  details.forEach(([label, value]) => {
+    doc.setTextColor(grayColor);
+    doc.text(label, 20, yPos);
+    doc.setTextColor('#000000');
+    doc.text(value, 60, yPos);
+    yPos += 7;
+  });
+
+  yPos += 8;
+
+  // Table Header (repeated on every page)
+  const drawTableHeader = () => {
+    doc.setFillColor(245, 245, 245);
+    doc.rect(20, yPos - 5, 170, 8, 'F');
+
+    doc.setFontSize(8);
+    doc.setTextColor(grayColor);
+    doc.text('Date', 22, yPos);
+    doc.text('Type', 44, yPos);
+    doc.text('Reference', 68, yPos);
+    doc.text('Due', 114, yPos);
+    doc.text('Debit', 144, yPos, { align: 'right' });
+    doc.text('Credit', 166, yPos, { align: 'right' });
+    doc.text('Balance', 188, yPos, { align: 'right' });
+
+    yPos += 9;
+    doc.setTextColor('#000000');
+  };
+
+  drawTableHeader();
+
+  // Opening Balance
+  doc.setFontSize(8);
+  doc.text(formatDate(statement.dateFrom), 22, yPos);
+  doc.text('Opening balance', 44, yPos);
+  doc.text(formatCurrency(statement.openingBalance), 188, yPos, { align: 'right' });
+  yPos += 7;
+
+  // Entries
+  statement.entries.forEach((entry) => {
+    if (yPos > 270) {
+      doc.addPage();
+      yPos = 20;
+      drawTableHeader();
+      doc.setFontSize(8);
+    }
+
+    const reference = entry.reference.length > 26
+      ? entry.reference.substring(0, 23) + '...'
+      : entry.reference;
+
+    doc.text(formatDate(entry.date), 22, yPos);
+    doc.text(STATEMENT_ENTRY_LABELS[entry.type], 44, yPos);
+    doc.text(reference, 68, yPos);
+    doc.text(entry.dueDate && entry.type === 'invoice' ? formatDate(entry.dueDate) : '-', 114, yPos);
+    doc.text(entry.debit ? formatCurrency(entry.debit) : '', 144, yPos, { align: 'right' });
+    doc.text(entry.credit ? formatCurrency(entry.credit) : '', 166, yPos, { align: 'right' });
+    doc.text(formatCurrency(entry.balance), 188, yPos, { align: 'right' });
+
+    yPos += 7;
+  });
+
+  if (statement.entries.length === 0) {
+    doc.setTextColor(grayColor);
+    doc.text('No transactions in this period', 105, yPos, { align: 'center' });
+    doc.setTextColor('#000000');
+    yPos += 7;
+  }
+
+  yPos += 5;
+
+  // Line separator
+  doc.setDrawColor(100, 100, 100);
+  doc.line(130, yPos, 190, yPos);
+
+  yPos += 8;
+
+  // Closing Balance
+  doc.setFontSize(12);
+  doc.setTextColor('#000000');
+  doc.text('Closing Balance:', 120, yPos);
+  doc.setTextColor(statement.closingBalance > 0 ? dangerColor : primaryColor);
+  doc.text(formatCurrency(statement.closingBalance), 188, yPos, { align: 'right' });
+
+  yPos += 15;
+
+  // Aging Summary
+  if (yPos > 250) {
+    doc.addPage();
+    yPos = 20;
+  }
+
+  doc.setFontSize(10);
+  doc.setTextColor(primaryColor);
+  doc.text('Aging Summary', 20, yPos);
+
+  yPos += 5;
+
+  const buckets = Object.keys(AGING_BUCKET_LABELS) as AgingBucket[];
+  const totalDue = buckets.reduce((sum, bucket) => sum + statement.aging[bucket], 0);
+  const columns: [string, number][] = [
+    ...buckets.map((bucket): [string, number] => [AGING_BUCKET_LABELS[bucket], statement.aging[bucket]]),
+    ['Total Due', totalDue],
+  ];
+  const columnWidth = 170 / columns.length;
+
+  doc.setFillColor(245, 245, 245);
+  doc.rect(20, yPos, 170, 18, 'F');
+
+  columns.forEach(([label, amount], index) => {
+    const x = 20 + columnWidth * index + columnWidth / 2;
+    doc.setFontSize(8);
+    doc.setTextColor(grayColor);
+    doc.text(label, x, yPos + 6, { align: 'center' });
+    doc.setFontSize(10);
+    doc.setTextColor(index > 0 && index < buckets.length && amount > 0 ? dangerColor : '#000000');
+    doc.text(formatCurrency(amount), x, yPos + 13, { align: 'center' });
+  });
+
+  // Footer
+  const pageHeight = doc.internal.pageSize.height;
+  doc.setFontSize(8);
+  doc.setTextColor(grayColor);
+  doc.text(company.name, 105, pageHeight - 20, { align: 'center' });
+  doc.text('Please contact us if this statement does not match your records.', 105, pageHeight - 15, { align: 'center' });
+
+  // Convert to blob
+  return doc.output('blob');
+}
+
+/**
+ * Download Customer Statement PDF
+ *
+ * @param statement - Statement to download
+ */
+export async function downloadCustomerStatement(statement: CustomerStatement): Promise<void> {
+  const blob = await generateCustomerStatementPDF(statement);
+  const name = statement.customerName.replace(/[^\w-]+/g, '-');
+  downloadBlob(blob, `Statement-${name}-${statement.dateTo}.pdf`);
+}
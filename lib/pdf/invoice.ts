@@ -0,0 +1,199 @@
+/**
+ * Tax Invoice PDF Generator
+ *
+ * Generates the customer tax invoice for an invoiced order, including the
+ * MRA fiscalisation block (IRN and QR code) once the invoice is accepted.
+ *
+ * @module lib/pdf/invoice
+ */
+
+import jsPDF from 'jspdf';
+import { companyIdentity, drawCompanyIdentity } from '@/lib/pdf/companyIdentity';
+import { billableQuantity } from '@/lib/pricing/orderTotals';
+import { Order } from '@/types';
+import { formatCurrency, formatDate, downloadBlob } from '@/lib/utils';
+
+/**
+ * Generate Tax Invoice PDF
+ *
+ * @param order - Invoiced order
+ * @returns PDF blob
+ * @throws Error if the order has no invoice
+ */
+export async function generateInvoicePDF(order: Order): Promise<Blob> {
+  const invoice = order.invoice;
+  if (!invoice) {
+    throw new Error(`Order ${order.orderNumber} has not been invoiced`);
+  }
+
+  const doc = new jsPDF();
+  const fiscalisation = invoice.fiscalisation;
+  const company = companyIdentity();
+
+  // Colors
+  const primaryColor = '#4F46E5';
+  const grayColor = '#6B7280';
+  const dangerColor = '#DC2626';
+
+  let yPos = 20;
+
+  // Header
+  doc.setFontSize(22);
+  doc.setTextColor(primaryColor);
+  doc.text('TAX INVOICE', 105, yPos, { align: 'center' });
+
+  yPos += 8;
+  yPos = drawCompanyIdentity(doc, yPos, company);
+
+  yPos += 15;
+
+  // Invoice Information
+  doc.setFontSize(10);
+  doc.setTextColor(grayColor);
+  doc.text('Invoice Number:', 20, yPos);
+  doc.setTextColor('#000000');
+  doc.text(invoice.name, 60, yPos);
+
+  yPos += 7;
+  doc.setTextColor(grayColor);
+  doc.text('Order Number:', 20, yPos);
+  doc.setTextColor('#000000');
+  doc.text(order.orderNumber, 60, yPos);
+
+  yPos += 7;
+  doc.setTextColor(grayColor);
+  doc.text('Date:', 20, yPos);
+  doc.setTextColor('#000000');
+  doc.text(formatDate(order.date), 60, yPos);
+
+  yPos += 7;
+  doc.setTextColor(grayColor);
+  doc.text('Customer:', 20, yPos);
+  doc.setTextColor('#000000');
+  doc.text(order.customerName, 60, yPos);
+
+  yPos += 15;
+
+  // Line separator
+  doc.setDrawColor(200, 200, 200);
+  doc.line(20, yPos, 190, yPos);
+
+  yPos += 10;
+
+  // Table Header
+  doc.setFillColor(245, 245, 245);
+  doc.rect(20, yPos - 5, 170, 8, 'F');
+
+  doc.setFontSize(9);
+  doc.setTextColor(grayColor);
+  doc.text('Product', 22, yPos);
+  doc.text('Qty', 110, yPos);
+  doc.text('Price', 135, yPos);
+  doc.text('Discount', 155, yPos);
+  doc.text('Total', 180, yPos, { align: 'right' });
+
+  yPos += 10;
+
+  // Invoice Lines
+  doc.setTextColor('#000000');
+
+  order.items.forEach((item) => {
+    // Check if we need a new page
+    if (yPos > 270) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    const productName = item.productName.length > 35
+      ? item.productName.substring(0, 32) + '...'
+      : item.productName;
+    doc.text(productName, 22, yPos);
+    doc.text(String(billableQuantity(item)), 110, yPos);
+    doc.text(formatCurrency(item.unitPrice), 135, yPos);
+    doc.text(item.discount ? `${item.discount}%` : '-', 155, yPos);
+    doc.text(formatCurrency(item.subtotal), 180, yPos, { align: 'right' });
+
+    yPos += 7;
+  });
+
+  yPos += 5;
+
+  // Line separator
+  doc.setDrawColor(200, 200, 200);
+  doc.line(20, yPos, 190, yPos);
+
+  yPos += 10;
+
+  // Totals
+  doc.setFontSize(10);
+  doc.setTextColor(grayColor);
+  doc.text('Subtotal:', 130, yPos);
+  doc.setTextColor('#000000');
+  doc.text(formatCurrency(order.subtotal), 180, yPos, { align: 'right' });
+
+  yPos += 7;
+  doc.setTextColor(grayColor);
+  doc.text('VAT (15%):', 130, yPos);
+  doc.setTextColor('#000000');
+  doc.text(formatCurrency(order.tax), 180, yPos, { align: 'right' });
+
+  yPos += 10;
+  doc.setDrawColor(100, 100, 100);
+  doc.line(130, yPos, 190, yPos);
+
+  yPos += 8;
+  doc.setFontSize(12);
+  doc.text('Total:', 130, yPos);
+  doc.setTextColor(primaryColor);
+  doc.text(formatCurrency(order.total), 180, yPos, { align: 'right' });
+
+  yPos += 15;
+
+  // MRA Fiscalisation
+  if (yPos > 230) {
+    doc.addPage();
+    yPos = 20;
+  }
+
+  if (fiscalisation?.status === 'accepted' && fiscalisation.irn) {
+    if (fiscalisation.qrCode) {
+      const qrImage = fiscalisation.qrCode.startsWith('data:')
+        ? fiscalisation.qrCode
+        : `data:image/png;base64,${fiscalisation.qrCode}`;
+      doc.addImage(qrImage, 'PNG', 20, yPos, 35, 35);
+    }
+
+    doc.setFontSize(9);
+    doc.setTextColor(grayColor);
+    doc.text('Fiscalised with the Mauritius Revenue Authority', 60, yPos + 10);
+    doc.text('IRN:', 60, yPos + 17);
+    doc.setTextColor('#000000');
+    doc.text(fiscalisation.irn, 70, yPos + 17);
+  } else {
+    doc.setFillColor(254, 242, 242);
+    doc.rect(20, yPos, 170, 15, 'F');
+    doc.setFontSize(9);
+    doc.setTextColor(dangerColor);
+    doc.text('Not yet fiscalised with the MRA - this copy is not a valid tax invoice.', 105, yPos + 9, { align: 'center' });
+  }
+
+  // Footer
+  const pageHeight = doc.internal.pageSize.height;
+  doc.setFontSize(8);
+  doc.setTextColor(grayColor);
+  doc.text(company.name, 105, pageHeight - 20, { align: 'center' });
+  doc.text('Thank you for your business!', 105, pageHeight - 15, { align: 'center' });
+
+  // Convert to blob
+  return doc.output('blob');
+}
+
+/**
+ * Download Tax Invoice PDF
+ *
+ * @param order - Invoiced order
+ */
+export async function downloadInvoice(order: Order): Promise<void> {
+  const blob = await generateInvoicePDF(order);
+  downloadBlob(blob, `Invoice-${order.invoice?.name ?? order.orderNumber}.pdf`);
+}
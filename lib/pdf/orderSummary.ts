@@ -10,6 +10,7 @@
 import jsPDF from 'jspdf';
 import { Order } from '@/types';
 import { formatCurrency, formatDate } from '@/lib/utils';
+import { companyIdentity, drawCompanyIdentity } from '@/lib/pdf/companyIdentity';
 
 /**
  * Generate Order Summary PDF
@@ -19,6 +20,7 @@ import { formatCurrency, formatDate } from '@/lib/utils';
  */
 export async function generateOrderSummaryPDF(order: Order): Promise<Blob> {
   const doc = new jsPDF();
+  const company = companyIdentity();
   
   // Colors
   const primaryColor = '#4F46E5';
@@ -37,6 +39,9 @@ export async function generateOrderSummaryPDF(order: Order): Promise<Blob> {
   doc.setTextColor(dangerColor);
   doc.text('(Pending Confirmation - Not an Invoice)', 105, yPos, { align: 'center' });
   
+  yPos += 8;
+  yPos = drawCompanyIdentity(doc, yPos, company);
+  
   yPos += 15;
   
   // Order Information
@@ -83,7 +88,8 @@ export async function generateOrderSummaryPDF(order: Order): Promise<Blob> {
   doc.setFontSize(9);
   doc.setTextColor(grayColor);
   doc.text('Product', 22, yPos);
-  doc.text('Qty', 110, yPos);
+  doc.text('Ordered', 92, yPos);
+  doc.text('Delivered', 112, yPos);
   doc.text('Price', 135, yPos);
   doc.text('Discount', 155, yPos);
   doc.text('Total', 180, yPos, { align: 'right' });
@@ -102,13 +108,14 @@ export async function generateOrderSummaryPDF(order: Order): Promise<Blob> {
     }
     
     // Product name (truncate if too long)
-    const productName = item.productName.length > 35 
-      ? item.productName.substring(0, 32) + '...'
+    const productName = item.productName.length > 32 
+      ? item.productName.substring(0, 29) + '...'
       : item.productName;
     doc.text(productName, 22, yPos);
     
-    // Quantity
-    doc.text(String(item.quantity), 110, yPos);
+    // Ordered quantity and weighed delivery (kg)
+    doc.text(String(item.quantity), 92, yPos);
+    doc.text(item.deliveredWeight !== undefined ? String(item.deliveredWeight) : '-', 112, yPos);
     
     // Unit Price
     doc.text(formatCurrency(item.unitPrice), 135, yPos);
@@ -205,7 +212,7 @@ export async function generateOrderSummaryPDF(order: Order): Promise<Blob> {
   const pageHeight = doc.internal.pageSize.height;
   doc.setFontSize(8);
   doc.setTextColor(grayColor);
-  doc.text('Mauritius Meat Market', 105, pageHeight - 20, { align: 'center' });
+  doc.text(company.name, 105, pageHeight - 20, { align: 'center' });
   doc.text('Thank you for your business!', 105, pageHeight - 15, { align: 'center' });
   
   // Convert to blob
@@ -0,0 +1,159 @@
+/**
+ * Payment Receipt PDF Generator
+ *
+ * Generates the receipt handed to the customer when a salesman collects
+ * a payment in the field, showing how it was allocated to invoices.
+ * Works offline: payments waiting for sync are flagged on the receipt.
+ *
+ * @module lib/pdf/paymentReceipt
+ */
+
+import jsPDF from 'jspdf';
+import { Payment } from '@/types';
+import { companyIdentity, drawCompanyIdentity } from '@/lib/pdf/companyIdentity';
+import { PAYMENT_METHOD_LABELS, PAYMENT_REFERENCE_LABELS, allocatedAmount } from '@/lib/payments/allocation';
+import { formatCurrency, formatDate, downloadBlob } from '@/lib/utils';
+
+/**
+ * Generate Payment Receipt PDF
+ *
+ * @param payment - Recorded payment
+ * @returns PDF blob
+ */
+export async function generatePaymentReceiptPDF(payment: Payment): Promise<Blob> {
+  const doc = new jsPDF();
+  const company = companyIdentity();
+
+  // Colors
+  const primaryColor = '#4F46E5';
+  const grayColor = '#6B7280';
+  const warningColor = '#D97706';
+
+  let yPos = 20;
+
+  // Header
+  doc.setFontSize(22);
+  doc.setTextColor(primaryColor);
+  doc.text('PAYMENT RECEIPT', 105, yPos, { align: 'center' });
+
+  yPos += 8;
+  yPos = drawCompanyIdentity(doc, yPos, company);
+
+  if (payment.syncStatus === 'pending') {
+    yPos += 6;
+    doc.setTextColor(warningColor);
+    doc.text('(Recorded offline - pending posting to accounts)', 105, yPos, { align: 'center' });
+  }
+
+  yPos += 15;
+
+  // Receipt Information
+  const details: [string, string][] = [
+    ['Receipt Number:', payment.receiptNumber],
+    ['Date:', formatDate(payment.date)],
+    ['Customer:', payment.customerName],
+    ['Method:', PAYMENT_METHOD_LABELS[payment.method]],
+  ];
+  const referenceLabel = PAYMENT_REFERENCE_LABELS[payment.method];
+  if (referenceLabel && payment.reference) {
+    details.push([`${referenceLabel}:`, payment.reference]);
+  }
+  if (payment.salespersonName) {
+    details.push(['Received By:', payment.salespersonName]);
+  }
+
+  doc.setFontSize(10);
+  details.forEach(([label, value]) => {
+    doc.setTextColor(grayColor);
+    doc.text(label, 20, yPos);
+    doc.setTextColor('#000000');
+    doc.text(value, 70, yPos);
+    yPos += 7;
+  });
+
+  yPos += 8;
+
+  // Line separator
+  doc.setDrawColor(200, 200, 200);
+  doc.line(20, yPos, 190, yPos);
+
+  yPos += 10;
+
+  // Allocation Table Header
+  doc.setFillColor(245, 245, 245);
+  doc.rect(20, yPos - 5, 170, 8, 'F');
+
+  doc.setFontSize(9);
+  doc.setTextColor(grayColor);
+  doc.text('Applied To', 22, yPos);
+  doc.text('Amount', 180, yPos, { align: 'right' });
+
+  yPos += 10;
+
+  // Allocations
+  doc.setTextColor('#000000');
+  payment.allocations.forEach((allocation) => {
+    if (yPos > 270) {
+      doc.addPage();
+      yPos = 20;
+    }
+    doc.text(`Invoice ${allocation.invoiceName}`, 22, yPos);
+    doc.text(formatCurrency(allocation.amount), 180, yPos, { align: 'right' });
+    yPos += 7;
+  });
+
+  // Anything not allocated stays on the customer's account
+  const unallocated = Math.round((payment.amount - allocatedAmount(payment.allocations)) * 100) / 100;
+  if (unallocated > 0) {
+    doc.text('On account (advance)', 22, yPos);
+    doc.text(formatCurrency(unallocated), 180, yPos, { align: 'right' });
+    yPos += 7;
+  }
+
+  yPos += 5;
+
+  // Line separator
+  doc.setDrawColor(100, 100, 100);
+  doc.line(130, yPos, 190, yPos);
+
+  yPos += 8;
+
+  // Total
+  doc.setFontSize(12);
+  doc.setTextColor('#000000');
+  doc.text('Total Received:', 120, yPos);
+  doc.setTextColor(primaryColor);
+  doc.text(formatCurrency(payment.amount), 180, yPos, { align: 'right' });
+
+  yPos += 25;
+
+  // Signatures
+  doc.setFontSize(9);
+  doc.setDrawColor(150, 150, 150);
+  doc.line(20, yPos, 85, yPos);
+  doc.line(125, yPos, 190, yPos);
+  yPos += 5;
+  doc.setTextColor(grayColor);
+  doc.text('Customer', 52, yPos, { align: 'center' });
+  doc.text('Salesman', 157, yPos, { align: 'center' });
+
+  // Footer
+  const pageHeight = doc.internal.pageSize.height;
+  doc.setFontSize(8);
+  doc.setTextColor(grayColor);
+  doc.text(company.name, 105, pageHeight - 20, { align: 'center' });
+  doc.text('Thank you for your payment!', 105, pageHeight - 15, { align: 'center' });
+
+  // Convert to blob
+  return doc.output('blob');
+}
+
+/**
+ * Download Payment Receipt PDF
+ *
+ * @param payment - Payment to download the receipt of
+ */
+export async function downloadPaymentReceipt(payment: Payment): Promise<void> {
+  const blob = await generatePaymentReceiptPDF(payment);
+  downloadBlob(blob, `Receipt-${payment.receiptNumber}.pdf`);
+}
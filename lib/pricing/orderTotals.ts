@@ -0,0 +1,86 @@
+/**
+ * Order Totals
+ *
+ * Line and order total calculation with catch-weight support: meat is
+ * ordered by the kg, but the weight actually delivered rarely matches.
+ * Once a line's delivered weight is recorded it is billed instead of the
+ * ordered quantity, and subtotals and tax follow.
+ *
+ * @module lib/pricing/orderTotals
+ */
+
+import { Order, OrderLine } from '@/types';
+
+/**
+ * Standard VAT rate in Mauritius
+ */
+export const VAT_RATE = 0.15;
+
+/**
+ * Quantity a line is billed for: the delivered weight once weighed,
+ * the ordered quantity until then
+ */
+export function billableQuantity(line: Pick<OrderLine, 'quantity' | 'deliveredWeight'>): number {
+  return line.deliveredWeight ?? line.quantity;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Recompute a line's subtotal and tax from its billable quantity.
+ * The line's existing tax rate is kept (VAT_RATE when unknown).
+ *
+ * @param line - Order line
+ * @returns Line with updated subtotal and tax
+ */
+export function priceOrderLine(line: OrderLine): OrderLine {
+  const taxRate = line.tax !== undefined && line.subtotal > 0 ? line.tax / line.subtotal : VAT_RATE;
+  const subtotal = round(billableQuantity(line) * line.unitPrice * (1 - (line.discount || 0) / 100));
+
+  return {
+    ...line,
+    subtotal,
+    tax: round(subtotal * taxRate),
+  };
+}
+
+/**
+ * Recompute all lines and the order's subtotal, tax and total
+ *
+ * @param order - Order
+ * @returns Order with updated totals
+ */
+export function recalculateOrderTotals(order: Order): Order {
+  const items = order.items.map(priceOrderLine);
+  const subtotal = round(items.reduce((sum, item) => sum + item.subtotal, 0));
+  const tax = round(items.reduce((sum, item) => sum + (item.tax ?? 0), 0));
+
+  return {
+    ...order,
+    items,
+    subtotal,
+    tax,
+    total: round(subtotal + tax),
+  };
+}
+
+/**
+ * Record weighed quantities on an order and re-price it
+ *
+ * @param order - Order
+ * @param weights - Delivered weight (kg) per order line ID
+ * @returns Re-priced order; lines without a weight keep their ordered quantity
+ *
+ * @example
+ * applyDeliveredWeights(order, { 'line-1': 4.82 })
+ */
+export function applyDeliveredWeights(order: Order, weights: Record<string, number>): Order {
+  return recalculateOrderTotals({
+    ...order,
+    items: order.items.map((item) =>
+      weights[item.id] !== undefined ? { ...item, deliveredWeight: weights[item.id] } : item
+    ),
+  });
+}
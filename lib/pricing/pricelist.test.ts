@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { PricedProduct, resolveUnitPrice } from '@/lib/pricing/pricelist';
+import { Pricelist, PricelistRule } from '@/types';
+
+const beefFillet: PricedProduct = {
+  id: '5',
+  price: 45,
+  cost: 30,
+  category: { id: '2', name: 'Beef' },
+  odooTemplateId: 50,
+};
+
+const pricelist = (...rules: Partial<PricelistRule>[]): Pricelist => ({
+  id: '3',
+  name: 'Hotels',
+  rules: rules.map((rule, index) => ({
+    id: String(index + 1),
+    scope: 'all',
+    minQuantity: 0,
+    computePrice: 'fixed',
+    ...rule,
+  })),
+  updatedAt: '2025-03-01T10:00:00.000Z',
+});
+
+describe('resolveUnitPrice', () => {
+  it('applies the list price without a pricelist or matching rule', () => {
+    expect(resolveUnitPrice(undefined, beefFillet, 1)).toEqual({ unitPrice: 45, listPrice: 45 });
+    expect(resolveUnitPrice(pricelist({ scope: 'product', productId: '6', fixedPrice: 40 }), beefFillet, 1))
+      .toEqual({ unitPrice: 45, listPrice: 45 });
+  });
+
+  it('prefers the most specific rule, then the highest quantity break', () => {
+    const hotels = pricelist(
+      { scope: 'all', computePrice: 'percentage', percentOff: 5 },
+      { scope: 'category', categoryId: '2', computePrice: 'percentage', percentOff: 10 },
+      { scope: 'category', categoryId: '2', minQuantity: 20, computePrice: 'percentage', percentOff: 15 },
+    );
+    expect(resolveUnitPrice(hotels, beefFillet, 5)).toMatchObject({ unitPrice: 40.5, ruleId: '2' });
+    expect(resolveUnitPrice(hotels, beefFillet, 20)).toMatchObject({ unitPrice: 38.25, ruleId: '3' });
+  });
+
+  it('applies category rules to subcategories', () => {
+    // Meat (1) / Beef (2) / Premium cuts (4)
+    const premiumCut = { ...beefFillet, category: { id: '4', name: 'Premium cuts', parentId: '2', path: ['1', '2', '4'] } };
+    const meat = pricelist({ scope: 'category', categoryId: '1', computePrice: 'percentage', percentOff: 10 });
+    expect(resolveUnitPrice(meat, premiumCut, 1)).toMatchObject({ unitPrice: 40.5, ruleId: '1' });
+
+    const lamb = pricelist({ scope: 'category', categoryId: '3', computePrice: 'percentage', percentOff: 10 });
+    expect(resolveUnitPrice(lamb, premiumCut, 1)).toEqual({ unitPrice: 45, listPrice: 45 });
+  });
+
+  it('computes formula rules from the list price', () => {
+    // 45 less 10% = 40.50, rounded to 1 = 41, less 0.01
+    const rules = pricelist({ computePrice: 'formula', base: 'list', discount: 10, rounding: 1, surcharge: -0.01 });
+    expect(resolveUnitPrice(rules, beefFillet, 1)).toMatchObject({ unitPrice: 40.99, ruleId: '1' });
+  });
+
+  it('computes formula rules from the cost, within the margins', () => {
+    // 30 plus a 50% markup = 45, capped at 10 above cost
+    const capped = pricelist({ computePrice: 'formula', base: 'cost', discount: -50, maxMargin: 10 });
+    expect(resolveUnitPrice(capped, beefFillet, 1).unitPrice).toBe(40);
+
+    // 30 less 10% = 27, raised to 2 above cost
+    const floored = pricelist({ computePrice: 'formula', base: 'cost', discount: 10, minMargin: 2 });
+    expect(resolveUnitPrice(floored, beefFillet, 1).unitPrice).toBe(32);
+  });
+
+  it('leaves rules it cannot compute to Odoo', () => {
+    const basedOnPricelist = pricelist({ computePrice: 'formula', base: 'pricelist', discount: 5 });
+    expect(resolveUnitPrice(basedOnPricelist, beefFillet, 1)).toEqual({
+      unitPrice: 45,
+      listPrice: 45,
+      ruleId: '1',
+      pricedByOdoo: true,
+    });
+
+    const basedOnCost = pricelist({ computePrice: 'percentage', base: 'cost', percentOff: 5 });
+    expect(resolveUnitPrice(basedOnCost, { ...beefFillet, cost: undefined }, 1).pricedByOdoo).toBe(true);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Pricelist Resolution
+ *
+ * Resolves a customer's negotiated unit price from their pricelist, following
+ * Odoo's rule precedence: the most specific scope wins (product, template,
+ * category, all products), then the highest quantity break, then the newest
+ * rule. Only rules valid on the order date and met by the ordered quantity
+ * are considered; without a matching rule the list price applies.
+ * Fixed, percentage and formula rules are computed as Odoo does. A rule
+ * based on another pricelist (or on the cost of a product whose cost is
+ * unknown) is left for Odoo to compute: the list price is shown meanwhile
+ * and the order line is sent without a price.
+ *
+ * Pure functions, so orders created offline are priced the same way.
+ *
+ * @module lib/pricing/pricelist
+ */
+
+import { Pricelist, PricelistRule, PricelistRuleScope, Product } from '@/types';
+
+/**
+ * Product fields needed to match pricelist rules
+ */
+export type PricedProduct = Pick<Product, 'id' | 'price' | 'cost' | 'category' | 'odooTemplateId'>;
+
+/**
+ * Resolved unit price for a product and quantity
+ */
+export interface ResolvedPrice {
+  unitPrice: number;
+  listPrice: number;
+  ruleId?: string;
+  // The rule cannot be computed here: Odoo prices the line
+  pricedByOdoo?: boolean;
+}
+
+const SCOPE_RANK: Record<PricelistRuleScope, number> = {
+  product: 0,
+  template: 1,
+  category: 2,
+  all: 3,
+};
+
+/**
+ * Sort rules by precedence (first match wins)
+ *
+ * @param rules - Pricelist rules
+ * @returns New array, most specific rule first
+ */
+export function sortPricelistRules(rules: PricelistRule[]): PricelistRule[] {
+  return [...rules].sort(
+    (a, b) =>
+      SCOPE_RANK[a.scope] - SCOPE_RANK[b.scope] ||
+      b.minQuantity - a.minQuantity ||
+      b.id.localeCompare(a.id, undefined, { numeric: true })
+  );
+}
+
+/**
+ * Check whether a rule applies to a product, quantity and date
+ *
+ * @param rule - Pricelist rule
+ * @param product - Product being priced
+ * @param quantity - Ordered quantity
+ * @param date - Order date
+ */
+export function ruleMatches(
+  rule: PricelistRule,
+  product: PricedProduct,
+  quantity: number,
+  date: Date
+): boolean {
+  if (quantity < rule.minQuantity) return false;
+  if (rule.dateStart && date < new Date(rule.dateStart)) return false;
+  if (rule.dateEnd && date > new Date(rule.dateEnd)) return false;
+
+  switch (rule.scope) {
+    case 'product':
+      return rule.productId === product.id;
+    case 'template':
+      return rule.templateId !== undefined && rule.templateId === product.odooTemplateId;
+    case 'category':
+      // Also applies to subcategories
+      return rule.categoryId !== undefined && (product.category.path ?? [product.category.id]).includes(rule.categoryId);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Compute the price a rule gives a product, as Odoo's
+ * product.pricelist.item._compute_price does (same currency)
+ *
+ * @param rule - Matching pricelist rule
+ * @param product - Product being priced
+ * @returns Unit price, or undefined when only Odoo can compute it
+ */
+export function computeRulePrice(rule: PricelistRule, product: PricedProduct): number | undefined {
+  if (rule.computePrice === 'fixed') {
+    return rule.fixedPrice ?? product.price;
+  }
+
+  const basePrice = rule.base === 'cost' ? product.cost : rule.base === 'pricelist' ? undefined : product.price;
+  if (basePrice === undefined) return undefined;
+
+  if (rule.computePrice === 'percentage') {
+    return basePrice * (1 - (rule.percentOff ?? 0) / 100);
+  }
+
+  let price = basePrice * (1 - (rule.discount ?? 0) / 100);
+  if (rule.rounding) {
+    price = Math.round(price / rule.rounding) * rule.rounding;
+  }
+  price += rule.surcharge ?? 0;
+  if (rule.minMargin) {
+    price = Math.max(price, basePrice + rule.minMargin);
+  }
+  if (rule.maxMargin) {
+    price = Math.min(price, basePrice + rule.maxMargin);
+  }
+  return price;
+}
+
+/**
+ * Resolve the unit price of a product for a customer's pricelist
+ *
+ * @param pricelist - Customer pricelist (list price applies when missing)
+ * @param product - Product being priced
+ * @param quantity - Ordered quantity (for quantity breaks)
+ * @param date - Order date (for rule validity)
+ * @returns Unit price and the rule that produced it (the list price when
+ *   Odoo prices the line)
+ *
+ * @example
+ * resolveUnitPrice(hotelPricelist, beefFillet, 20)
+ * // { unitPrice: 38.25, listPrice: 45, ruleId: '12' }
+ */
+export function resolveUnitPrice(
+  pricelist: Pricelist | null | undefined,
+  product: PricedProduct,
+  quantity: number,
+  date: Date = new Date()
+): ResolvedPrice {
+  const listPrice = product.price;
+  if (!pricelist) return { unitPrice: listPrice, listPrice };
+
+  const rule = sortPricelistRules(pricelist.rules).find((candidate) =>
+    ruleMatches(candidate, product, quantity, date)
+  );
+  if (!rule) return { unitPrice: listPrice, listPrice };
+
+  const unitPrice = computeRulePrice(rule, product);
+  if (unitPrice === undefined) {
+    return { unitPrice: listPrice, listPrice, ruleId: rule.id, pricedByOdoo: true };
+  }
+
+  return {
+    unitPrice: Math.round(unitPrice * 100) / 100,
+    listPrice,
+    ruleId: rule.id,
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Real-time Bus Service
+ *
+ * Keeps a long-poll open on the Odoo bus (through /api/odoo/bus) while the
+ * portal is open, and applies the changes it receives:
+ * - Customers and stock levels are patched into their stores
+ * - Order milestones (delivered, invoiced, paid, ...) raise notifications
+ * - Pages subscribe to react to changes of records they display
+ *
+ * Polling pauses while offline and backs off after failures.
+ *
+ * @module lib/realtime/busService
+ */
+
+import { BUS_CONFIG } from '@/lib/config';
+import { odooService } from '@/lib/odoo/odooService';
+import { offlineService } from '@/lib/offline/offlineService';
+import { useCustomerStore } from '@/lib/stores/customerStore';
+import { useProductStore } from '@/lib/stores/productStore';
+import { useNotificationStore } from '@/lib/stores/notificationStore';
+import { ORDER_STATUS_LABELS } from '@/lib/orders/orderLifecycle';
+import { sleep } from '@/lib/utils';
+import { NotificationType, OrderStatus, PortalEvent } from '@/types';
+
+/**
+ * Order statuses worth telling the salesman about, and how
+ */
+const ORDER_STATUS_NOTIFICATIONS: Partial<Record<OrderStatus, NotificationType>> = {
+  partially_delivered: 'info',
+  delivered: 'success',
+  invoiced: 'info',
+  paid: 'success',
+  cancelled: 'warning',
+};
+
+class BusService {
+  private static instance: BusService;
+  // Bumped on every start/stop, so a poll from a stopped loop is discarded
+  private generation: number = 0;
+  private running: boolean = false;
+  private last: number = 0;
+  private orderStatuses: Map<string, OrderStatus> = new Map();
+  private listeners: Set<(event: PortalEvent) => void> = new Set();
+
+  private constructor() {}
+
+  public static getInstance(): BusService {
+    if (!BusService.instance) {
+      BusService.instance = new BusService();
+    }
+    return BusService.instance;
+  }
+
+  /**
+   * Start listening for changes (no-op when already listening or on the server)
+   */
+  public start(): void {
+    if (this.running || typeof window === 'undefined') return;
+    this.running = true;
+    this.poll(++this.generation);
+  }
+
+  /**
+   * Stop listening; a poll in flight is discarded when it returns
+   */
+  public stop(): void {
+    this.running = false;
+    this.generation++;
+  }
+
+  /**
+   * Listen to every change received
+   *
+   * @returns Unsubscribe function
+   */
+  public subscribe(listener: (event: PortalEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async poll(generation: number): Promise<void> {
+    while (this.generation === generation) {
+      if (!offlineService.isCurrentlyOnline()) {
+        await sleep(BUS_CONFIG.retryDelayMs);
+        continue;
+      }
+
+      try {
+        const batch = await odooService.pollEvents(this.last);
+        if (this.generation !== generation) return;
+        this.last = batch.last;
+        batch.events.forEach((event) => this.dispatch(event));
+      } catch (error) {
+        console.warn('Odoo bus poll failed, retrying:', error);
+        await sleep(BUS_CONFIG.retryDelayMs);
+      }
+    }
+  }
+
+  private dispatch(event: PortalEvent): void {
+    switch (event.type) {
+      case 'order':
+        this.notifyOrderStatus(event.order.id, event.order.orderNumber, event.order.status);
+        break;
+      case 'customer': {
+        const { customer } = event;
+        const previous = useCustomerStore.getState().getCustomerById(customer.id);
+        useCustomerStore.getState().updateCustomer(customer.id, customer);
+        if (previous && previous.status !== 'blocked' && customer.status === 'blocked') {
+          this.notify('warning', 'Customer Blocked', `${customer.name} can no longer place orders`);
+        }
+        break;
+      }
+      case 'stock': {
+        const { stock } = event;
+        const product = useProductStore.getState().getProductById(stock.productId);
+        useProductStore.getState().updateProductStock(stock.productId, stock.available);
+        if (product && product.stockQuantity > 0 && stock.available <= 0) {
+          this.notify('warning', 'Out of Stock', `${product.name} is out of stock`);
+        }
+        break;
+      }
+    }
+
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  private notifyOrderStatus(orderId: string, orderNumber: string, status: OrderStatus): void {
+    const previous = this.orderStatuses.get(orderId);
+    this.orderStatuses.set(orderId, status);
+
+    const type = ORDER_STATUS_NOTIFICATIONS[status];
+    if (!type || previous === status) return;
+    this.notify(type, 'Order Update', `Order ${orderNumber} ${ORDER_STATUS_LABELS[status].toLowerCase()}`, '/orders');
+  }
+
+  private notify(type: NotificationType, title: string, message: string, actionUrl?: string): void {
+    useNotificationStore.getState().addNotification(type, title, message, actionUrl);
+  }
+}
+
+export const busService = BusService.getInstance();
@@ -0,0 +1,126 @@
+/**
+ * Soft Stock Reservations
+ *
+ * Short-lived holds on stock for order lines a salesman is still entering,
+ * so two salesmen cannot sell the same last units before either order
+ * reaches Odoo. Once an order is confirmed Odoo reserves the stock itself
+ * and the holds are released.
+ *
+ * Server-side only. Holds live in memory, expire after
+ * STOCK_CONFIG.reservationTtlMs and are not shared between server instances.
+ *
+ * @module lib/stock/softReservations
+ */
+
+import { STOCK_CONFIG } from '@/lib/config';
+import { StockAvailability } from '@/types';
+
+interface StockHold {
+  quantity: number;
+  expiresAt: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * In-memory store of soft reservations, per product and holder (portal user)
+ */
+export class SoftReservationStore {
+  private holds = new Map<string, Map<string, StockHold>>();
+  private ttlMs: number;
+
+  constructor(ttlMs: number) {
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Hold a quantity of a product, replacing the holder's previous hold
+   *
+   * @param holderId - Portal user holding the stock
+   * @param productId - Product ID
+   * @param quantity - Quantity to hold (0 releases the hold)
+   */
+  public hold(holderId: string, productId: string, quantity: number): void {
+    const productHolds = this.holds.get(productId) ?? new Map<string, StockHold>();
+    if (quantity > 0) {
+      productHolds.set(holderId, { quantity, expiresAt: Date.now() + this.ttlMs });
+    } else {
+      productHolds.delete(holderId);
+    }
+
+    if (productHolds.size > 0) {
+      this.holds.set(productId, productHolds);
+    } else {
+      this.holds.delete(productId);
+    }
+  }
+
+  /**
+   * Release a holder's holds
+   *
+   * @param holderId - Portal user holding the stock
+   * @param productIds - Products to release (all when omitted)
+   */
+  public release(holderId: string, productIds?: string[]): void {
+    for (const productId of productIds ?? Array.from(this.holds.keys())) {
+      this.hold(holderId, productId, 0);
+    }
+  }
+
+  /**
+   * Quantity of a product held by everyone but the given holder
+   *
+   * @param productId - Product ID
+   * @param holderId - Portal user whose own holds are ignored
+   */
+  public heldByOthers(productId: string, holderId: string): number {
+    const productHolds = this.holds.get(productId);
+    if (!productHolds) return 0;
+
+    const now = Date.now();
+    let total = 0;
+    for (const [holder, hold] of Array.from(productHolds.entries())) {
+      if (hold.expiresAt <= now) {
+        productHolds.delete(holder);
+      } else if (holder !== holderId) {
+        total += hold.quantity;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Deduct other holders' soft reservations from Odoo stock levels
+   *
+   * @param levels - Availability computed from Odoo (softReserved = 0)
+   * @param holderId - Portal user asking for availability
+   */
+  public applyTo(levels: StockAvailability[], holderId: string): StockAvailability[] {
+    return levels.map((level) => {
+      const softReserved = this.heldByOthers(level.productId, holderId);
+      return {
+        ...level,
+        softReserved,
+        available: round(level.onHand - level.reserved - softReserved),
+      };
+    });
+  }
+}
+
+const stores = new Map<string, SoftReservationStore>();
+
+/**
+ * Soft reservations on an Odoo database (product IDs are only unique within one)
+ *
+ * @param database - Odoo database
+ */
+export function softReservationsFor(database: string): SoftReservationStore {
+  let store = stores.get(database);
+  if (!store) {
+    store = new SoftReservationStore(STOCK_CONFIG.reservationTtlMs);
+    stores.set(database, store);
+  }
+  return store;
+}
@@ -0,0 +1,77 @@
+/**
+ * Company Store
+ * 
+ * Global state management for the active company using Zustand.
+ * Keeps the user's companies and the one they are selling for in
+ * localStorage, so API requests, the offline cache and PDFs use it
+ * from the first render, offline included.
+ * 
+ * @module lib/stores/companyStore
+ */
+
+import { create } from 'zustand';
+import { Company } from '@/types';
+import { COMPANY_CONFIG } from '@/lib/config';
+import { getFromStorage, setToStorage } from '@/lib/utils';
+
+/**
+ * Company state interface
+ */
+interface CompanyState {
+  // State
+  companies: Company[];
+  activeCompanyId: string | null;
+
+  // Actions
+  setCompanies: (companies: Company[]) => void;
+  setActiveCompany: (companyId: string) => void;
+  getActiveCompany: () => Company | undefined;
+}
+
+/**
+ * Company store
+ * Manages the active company globally
+ */
+export const useCompanyStore = create<CompanyState>((set, get) => ({
+  // Initial state
+  companies: getFromStorage<Company[]>(COMPANY_CONFIG.companiesKey, []),
+  activeCompanyId: getFromStorage<string | null>(COMPANY_CONFIG.activeKey, null),
+
+  /**
+   * Set the user's companies
+   * Falls back to the first (default) company when the active one is not among them
+   * 
+   * @param companies - Companies, the default company first
+   */
+  setCompanies: (companies: Company[]) => {
+    const { activeCompanyId } = get();
+    const active = companies.some((c) => c.id === activeCompanyId)
+      ? activeCompanyId
+      : companies[0]?.id ?? null;
+
+    setToStorage(COMPANY_CONFIG.companiesKey, companies);
+    setToStorage(COMPANY_CONFIG.activeKey, active);
+    set({ companies, activeCompanyId: active });
+  },
+
+  /**
+   * Switch the active company
+   * Data already loaded belongs to the previous company, so callers reload it
+   * 
+   * @param companyId - Company ID
+   */
+  setActiveCompany: (companyId: string) => {
+    setToStorage(COMPANY_CONFIG.activeKey, companyId);
+    set({ activeCompanyId: companyId });
+  },
+
+  /**
+   * Get the active company
+   * 
+   * @returns Active company or undefined before companies are loaded
+   */
+  getActiveCompany: () => {
+    const { companies, activeCompanyId } = get();
+    return companies.find((c) => c.id === activeCompanyId);
+  },
+}));
@@ -13,3 +13,4 @@ export { useNotificationStore, useNotifications } from './notificationStore';
 export { useUIStore } from './uiStore';
 export { useCustomerStore } from './customerStore';
 export { useProductStore } from './productStore';
+export { useCompanyStore } from './companyStore';
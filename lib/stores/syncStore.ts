@@ -19,6 +19,8 @@ interface SyncState {
   isOnline: boolean;
   lastSyncTime: Date | null;
   pendingItems: number;
+  failedItems: number;
+  conflicts: number;
   isSyncing: boolean;
 
   // Actions
@@ -36,6 +38,8 @@ export const useSyncStore = create<SyncState>((set, get) => ({
   isOnline: true,
   lastSyncTime: null,
   pendingItems: 0,
+  failedItems: 0,
+  conflicts: 0,
   isSyncing: false,
 
   /**
@@ -49,6 +53,8 @@ export const useSyncStore = create<SyncState>((set, get) => ({
       isOnline: status.isOnline,
       lastSyncTime: status.lastSyncTime,
       pendingItems: status.pendingItems,
+      failedItems: status.failedItems,
+      conflicts: status.conflicts,
       isSyncing: status.isSyncing,
     });
   },
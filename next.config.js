@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // instrumentation.ts checks the server secrets at startup
+    instrumentationHook: true,
+  },
 }
 
 module.exports = nextConfig
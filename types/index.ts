@@ -47,18 +47,55 @@ export interface LoginCredentials {
 export interface AuthResponse {
   token: string;
   user: User;
+  // Odoo database signed in to
+  database?: string;
   expiresAt: number;
 }
 
+// ==================== COMPANIES ====================
+
+/**
+ * Company (Odoo res.company) a salesman sells for.
+ * Products, pricelists, customers, orders and invoices are scoped to the
+ * active company.
+ */
+export interface Company {
+  id: string;
+  name: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+  vat?: string;
+  registry?: string;
+  currency?: string;
+}
+
 // ==================== ORDERS ====================
 
 /**
- * Order status matching the design you provided
+ * Order lifecycle status, derived from the Odoo sale order, its deliveries
+ * and its invoice (transitions are defined in lib/orders/orderLifecycle)
+ */
+export type OrderStatus =
+  | 'quotation'
+  | 'confirmed'
+  | 'partially_delivered'
+  | 'delivered'
+  | 'invoiced'
+  | 'paid'
+  | 'cancelled';
+
+/**
+ * Action moving an order from one status to another
+ * - deliver: validate the delivery with the weighed quantities
+ * - resetToQuotation: reopen a cancelled order as a quotation
  */
-export type OrderStatus = 'shipping' | 'received' | 'pending' | 'cancelled';
+export type OrderAction = 'confirm' | 'deliver' | 'invoice' | 'cancel' | 'resetToQuotation';
 
 /**
  * Order line item (product in an order)
+ * `quantity` is the ordered quantity; once the goods are weighed,
+ * `deliveredWeight` (kg) is billed instead (catch-weight).
  */
 export interface OrderLine {
   id: string;
@@ -66,12 +103,122 @@ export interface OrderLine {
   productName: string;
   productImage: string;
   quantity: number;
+  deliveredWeight?: number;
   unitPrice: number;
   discount?: number;
   subtotal: number;
   tax?: number;
 }
 
+/**
+ * MRA fiscalisation status of an invoice
+ */
+export type FiscalStatus = 'pending' | 'accepted' | 'rejected';
+
+/**
+ * Result of submitting an invoice to the MRA e-invoicing system
+ */
+export interface MraFiscalisation {
+  status: FiscalStatus;
+  irn?: string;
+  qrCode?: string;
+  submittedAt?: string;
+  attempts?: number;
+  error?: string;
+}
+
+/**
+ * Customer invoice (account.move) issued for an order
+ */
+export interface OrderInvoice {
+  id: string;
+  name: string;
+  state: string;
+  paymentState?: 'not_paid' | 'in_payment' | 'paid' | 'partial' | 'reversed';
+  amountTotal: number;
+  fiscalisation?: MraFiscalisation;
+}
+
+/**
+ * State of a delivery (stock.picking)
+ * - waiting: not all goods are available yet
+ * - ready: goods reserved, waiting to be shipped
+ */
+export type DeliveryState = 'waiting' | 'ready' | 'done' | 'cancelled';
+
+/**
+ * Order line shipped in a delivery
+ * `doneQuantity` is set once the delivery is validated.
+ */
+export interface DeliveryLine {
+  orderLineId: string;
+  productName: string;
+  quantity: number;
+  doneQuantity?: number;
+}
+
+/**
+ * Delivery (stock.picking) of an order. Shipping part of an order creates
+ * a backorder for the rest, linked to the delivery it came from.
+ */
+export interface OrderDelivery {
+  id: string;
+  name: string;
+  state: DeliveryState;
+  scheduledDate: string;
+  doneDate?: string;
+  backorderOf?: string;
+  lines: DeliveryLine[];
+}
+
+/**
+ * Reason a customer sends goods back
+ */
+export type ReturnReason = 'spoiled' | 'wrong_cut' | 'wrong_product' | 'damaged' | 'other';
+
+/**
+ * Order line (partly) returned by the customer
+ */
+export interface ReturnLine {
+  orderLineId: string;
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  discount?: number;
+  subtotal: number;
+}
+
+/**
+ * Return of goods, credited to the customer with a credit note
+ * (account.move refund of the order's invoice)
+ */
+export interface OrderReturn {
+  id: string;
+  creditNoteName: string;
+  state: string;
+  reason: ReturnReason;
+  notes?: string;
+  date: string;
+  lines: ReturnLine[];
+  amountTotal: number;
+  photoCount?: number;
+}
+
+/**
+ * Form data for recording a return
+ * `photos` are data URLs of pictures of the returned goods.
+ */
+export interface CreateReturnData {
+  reason: ReturnReason;
+  notes?: string;
+  lines: {
+    orderLineId: string;
+    quantity: number;
+  }[];
+  photos?: string[];
+}
+
 /**
  * Complete order information
  */
@@ -90,6 +237,11 @@ export interface Order {
   salespersonName?: string;
   deliveryAddress?: string;
   notes?: string;
+  // Number the order was taken under offline (LOCAL-...), printed on the customer's receipt
+  localOrderNumber?: string;
+  invoice?: OrderInvoice;
+  deliveries?: OrderDelivery[];
+  returns?: OrderReturn[];
   createdAt: string;
   updatedAt: string;
   syncStatus?: 'synced' | 'pending' | 'failed';
@@ -108,12 +260,18 @@ export interface CreateOrderData {
     quantity: number;
     unitPrice: number;
     discount?: number;
+    // Left for Odoo to price from the order's pricelist (see lib/pricing/pricelist)
+    pricedByOdoo?: boolean;
   }[];
   deliveryAddress?: string;
   notes?: string;
   signature?: string;
   salespersonId?: string;
   salespersonName?: string;
+  pricelistId?: string;
+  creditOverride?: CreditOverride;
+  // Number the order was taken under offline (LOCAL-...)
+  localOrderNumber?: string;
 }
 
 // ==================== CUSTOMERS ====================
@@ -137,17 +295,161 @@ export interface Customer {
   status: CustomerStatus;
   totalOrders: number;
   totalSpent: number;
+  // Outstanding receivable, net of payments and credit notes
+  balance?: number;
+  // Credit limit (no limit when unset or 0)
+  creditLimit?: number;
+  // Amount due on invoices past their due date
+  overdueAmount?: number;
+  // Due date of the oldest overdue invoice
+  oldestOverdueDate?: string;
   lastOrderDate: string;
   billingAddress?: string;
   shippingAddress?: string;
   company?: string;
   taxId?: string;
   notes?: string;
+  pricelistId?: string;
   odooPartnerId?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Outcome of the credit check run when an order is submitted
+ * - warn: the order may go ahead, the salesman is told why
+ * - block: the order needs an admin override
+ */
+export type CreditCheckLevel = 'ok' | 'warn' | 'block';
+
+export interface CreditCheck {
+  level: CreditCheckLevel;
+  reasons: string[];
+  // Receivable once the order is invoiced
+  exposure: number;
+  // Credit left after the order (only when the customer has a limit)
+  available?: number;
+}
+
+/**
+ * Admin approval of an order the credit check blocked
+ */
+export interface CreditOverride {
+  approvedBy: string;
+  reason: string;
+  approvedAt: string;
+}
+
+// ==================== PAYMENTS ====================
+
+/**
+ * How a customer paid the salesman
+ * - mcb_juice: MCB Juice mobile transfer
+ */
+export type PaymentMethod = 'cash' | 'cheque' | 'mcb_juice';
+
+/**
+ * Posted customer invoice with an amount still due
+ */
+export interface OpenInvoice {
+  id: string;
+  name: string;
+  orderNumber?: string;
+  date: string;
+  dueDate?: string;
+  amountTotal: number;
+  amountResidual: number;
+}
+
+/**
+ * Part of a payment settling an invoice
+ */
+export interface PaymentAllocation {
+  invoiceId: string;
+  invoiceName: string;
+  amount: number;
+}
+
+/**
+ * Payment collected from a customer (account.payment).
+ * The receipt number is issued by the portal, so receipts can be printed
+ * at the customer site even offline; anything not allocated to an invoice
+ * stays on the customer's account as an advance.
+ */
+export interface Payment {
+  receiptNumber: string;
+  customerId: string;
+  customerName: string;
+  method: PaymentMethod;
+  amount: number;
+  reference?: string;
+  date: string;
+  allocations: PaymentAllocation[];
+  salespersonName?: string;
+  paymentIds?: string[];
+  createdAt: string;
+  syncStatus?: 'synced' | 'pending' | 'failed';
+}
+
+/**
+ * Form data for recording a payment
+ */
+export interface CreatePaymentData {
+  receiptNumber?: string;
+  customerId: string;
+  customerName: string;
+  method: PaymentMethod;
+  amount: number;
+  reference?: string;
+  date?: string;
+  allocations: PaymentAllocation[];
+  salespersonName?: string;
+}
+
+// ==================== STATEMENTS ====================
+
+/**
+ * Kind of entry on a customer statement
+ */
+export type StatementEntryType = 'invoice' | 'credit_note' | 'payment' | 'other';
+
+/**
+ * Statement line, with the customer's balance after it
+ */
+export interface StatementEntry {
+  date: string;
+  type: StatementEntryType;
+  reference: string;
+  description?: string;
+  dueDate?: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+/**
+ * Age of an unpaid amount by days past its due date
+ * - current: not due yet or less than 30 days late
+ * - days30 / days60 / days90: 30, 60 and 90 or more days late
+ */
+export type AgingBucket = 'current' | 'days30' | 'days60' | 'days90';
+
+/**
+ * Customer statement of account over a date range
+ */
+export interface CustomerStatement {
+  customerId: string;
+  customerName: string;
+  dateFrom: string;
+  dateTo: string;
+  openingBalance: number;
+  entries: StatementEntry[];
+  closingBalance: number;
+  // Amount still due per age, as of the end of the period
+  aging: Record<AgingBucket, number>;
+  generatedAt: string;
+}
+
 // ==================== PRODUCTS ====================
 
 /**
@@ -157,6 +459,8 @@ export interface ProductCategory {
   id: string;
   name: string;
   parentId?: string;
+  // IDs of the category and its parents, from the root
+  path?: string[];
 }
 
 /**
@@ -175,6 +479,71 @@ export interface Product {
   isActive: boolean;
   uom: string;
   odooProductId?: number;
+  odooTemplateId?: number;
+}
+
+/**
+ * Live stock availability of a product (Odoo product stock and forecast)
+ * - reserved: promised to confirmed orders in Odoo, assigned or not
+ * - softReserved: held by other salesmen's orders still being entered
+ */
+export interface StockAvailability {
+  productId: string;
+  onHand: number;
+  reserved: number;
+  softReserved: number;
+  available: number;
+}
+
+// ==================== PRICELISTS ====================
+
+/**
+ * What a pricelist rule applies to, from most to least specific
+ */
+export type PricelistRuleScope = 'product' | 'template' | 'category' | 'all';
+
+/**
+ * Price a percentage or formula rule starts from: the list price, the
+ * product cost, or another pricelist's price (computed by Odoo only)
+ */
+export type PricelistRuleBase = 'list' | 'cost' | 'pricelist';
+
+/**
+ * Pricelist rule (product.pricelist.item)
+ * - fixed: the rule's fixed price replaces the list price
+ * - percentage: the base price is reduced by `percentOff`
+ * - formula: the base price less `discount` % (negative for a markup),
+ *   rounded to a multiple of `rounding`, plus `surcharge`, then kept between
+ *   `minMargin` and `maxMargin` above the base price
+ */
+export interface PricelistRule {
+  id: string;
+  scope: PricelistRuleScope;
+  productId?: string;
+  templateId?: number;
+  categoryId?: string;
+  minQuantity: number;
+  computePrice: 'fixed' | 'percentage' | 'formula';
+  fixedPrice?: number;
+  percentOff?: number;
+  base?: PricelistRuleBase;
+  discount?: number;
+  surcharge?: number;
+  rounding?: number;
+  minMargin?: number;
+  maxMargin?: number;
+  dateStart?: string;
+  dateEnd?: string;
+}
+
+/**
+ * Customer pricelist (product.pricelist)
+ */
+export interface Pricelist {
+  id: string;
+  name: string;
+  rules: PricelistRule[];
+  updatedAt: string;
 }
 
 // ==================== ANALYTICS & KPIs ====================
@@ -238,6 +607,23 @@ export interface Notification {
   actionUrl?: string;
 }
 
+/**
+ * Change pushed from Odoo, with the record as it is now
+ */
+export type PortalEvent =
+  | { type: 'order'; order: Order }
+  | { type: 'customer'; customer: Customer }
+  | { type: 'stock'; stock: StockAvailability };
+
+/**
+ * Events received from one poll of the Odoo bus
+ */
+export interface PortalEventBatch {
+  // Bus notification ID to poll from next
+  last: number;
+  events: PortalEvent[];
+}
+
 // ==================== OFFLINE SYNC ====================
 
 /**
@@ -245,13 +631,96 @@ export interface Notification {
  */
 export interface OfflineQueueItem {
   id: string;
-  type: 'order' | 'customer' | 'product';
+  type: 'order' | 'customer' | 'product' | 'payment';
   action: 'create' | 'update' | 'delete';
   data: any;
   timestamp: Date;
   retryCount: number;
-  status: 'pending' | 'syncing' | 'failed' | 'completed';
+  status: 'pending' | 'syncing' | 'failed' | 'completed' | 'conflict';
   error?: string;
+  // Earliest automatic retry of a failed item (exponential backoff)
+  nextAttemptAt?: Date;
+  completedAt?: Date;
+  // Sent with creations, so a retry after a lost response is not applied twice
+  idempotencyKey?: string;
+  // Record as the edit was made from, for updates (see SyncBase)
+  base?: SyncBase;
+  // Fields also changed in Odoo, awaiting the user's choice (status 'conflict')
+  conflicts?: FieldConflict[];
+}
+
+/**
+ * Record an offline edit was made from: its server updatedAt and the value
+ * each edited field had, to tell on sync what changed in Odoo meanwhile
+ */
+export interface SyncBase {
+  updatedAt: string;
+  values: Record<string, unknown>;
+}
+
+/**
+ * Field edited offline and changed in Odoo to a different value
+ */
+export interface FieldConflict {
+  field: string;
+  base: unknown;
+  local: unknown;
+  server: unknown;
+}
+
+/**
+ * Which side a conflicting field is resolved to
+ */
+export type ConflictChoice = 'local' | 'server';
+
+/**
+ * Order taken offline that reached Odoo, with the local ID it replaces
+ */
+export interface SyncedOrder {
+  localId: string;
+  order: Order;
+}
+
+/**
+ * Invoice PDF cached offline, keyed by the order it belongs to
+ */
+export interface CachedInvoicePdf {
+  orderId: string;
+  invoiceName: string;
+  pdf: Blob;
+  cachedAt: string;
+}
+
+/**
+ * Records cached offline and kept up to date by delta sync, per model
+ */
+export interface SyncRecords {
+  orders: Order;
+  customers: Customer;
+  products: Product;
+}
+
+export type SyncModel = keyof SyncRecords;
+
+/**
+ * High-water mark of a model's delta sync: write date (Odoo datetime) and
+ * ID of the last record received, as records are sent in that order
+ */
+export interface SyncCursor {
+  writeDate: string;
+  id: string;
+}
+
+/**
+ * Page of records changed after a cursor.
+ * The last page also lists the IDs of every record that still exists, so
+ * deleted and archived records can be dropped from the cache.
+ */
+export interface SyncDelta<T> {
+  records: T[];
+  cursor: SyncCursor | null;
+  hasMore: boolean;
+  ids?: string[];
 }
 
 /**
@@ -261,6 +730,10 @@ export interface SyncStatus {
   isOnline: boolean;
   lastSyncTime: Date | null;
   pendingItems: number;
+  // Items out of retry attempts, waiting for the user
+  failedItems: number;
+  // Offline edits waiting for the user to resolve a conflict
+  conflicts: number;
   isSyncing: boolean;
 }
 
@@ -273,6 +746,8 @@ export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  // HTTP status of a failed call (0 when no response was received)
+  status?: number;
   message?: string;
   timestamp: Date;
 }
@@ -301,6 +776,7 @@ export interface OrderFilters {
   minAmount?: number;
   maxAmount?: number;
   searchQuery?: string;
+  openBackorders?: boolean;
 }
 
 /**